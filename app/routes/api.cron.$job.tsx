@@ -0,0 +1,31 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { isKnownJob, runJob } from "../services/jobs.server";
+
+/**
+ * Cron endpoint for background jobs (see the crons in vercel.json).
+ * Requests must carry `Authorization: Bearer $CRON_SECRET`.
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const job = params.job || "";
+  if (!isKnownJob(job)) {
+    return json({ success: false, error: `Unknown job '${job}'` }, { status: 404 });
+  }
+
+  try {
+    const result = await runJob(job);
+    return json({ success: true, job, result });
+  } catch (error) {
+    console.error(`Cron job ${job} failed:`, error);
+    return json(
+      { success: false, job, error: error instanceof Error ? error.message : "Job failed" },
+      { status: 500 },
+    );
+  }
+};
+
+export const action = loader;
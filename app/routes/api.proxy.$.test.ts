@@ -0,0 +1,145 @@
+import { createHmac } from "node:crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { action, loader } from "./api.proxy.$";
+
+// Hoisted above the imports, so the app config and mocks exist before the route loads
+const { prisma } = vi.hoisted(() => {
+  process.env.SHOPIFY_API_KEY = "test-key";
+  process.env.SHOPIFY_API_SECRET = "test-secret";
+  process.env.SHOPIFY_APP_URL = "https://rewardspro.test";
+
+  return {
+    prisma: {
+      // Offline sessions read by authenticate.public.appProxy
+      session: {
+        count: vi.fn().mockResolvedValue(0),
+        findUnique: vi.fn().mockResolvedValue(null),
+      },
+      customer: { findUnique: vi.fn() },
+    },
+  };
+});
+
+vi.mock("../db.server", () => ({ default: prisma }));
+vi.mock("../services/customer-tier.server", () => ({
+  getBaseTier: vi.fn().mockResolvedValue(null),
+  enrollCustomer: vi.fn(),
+}));
+vi.mock("../services/shop-settings.server", () => ({
+  getShopSettings: vi.fn().mockResolvedValue({ currencyCode: "USD", enrollOnProxyVisit: false }),
+  refreshShopCurrency: vi.fn(),
+}));
+vi.mock("../services/shop-installation.server", () => ({ recordShopInstall: vi.fn() }));
+
+const SHOP = "store.myshopify.com";
+
+// Signed the way Shopify signs app proxy requests
+function sign(params: Record<string, string>) {
+  const message = Object.keys(params)
+    .sort((a, b) => a.localeCompare(b))
+    .map((key) => `${key}=${params[key]}`)
+    .join("");
+  return createHmac("sha256", "test-secret").update(message).digest("hex");
+}
+
+function proxyUrl(path: string, params: Record<string, string>) {
+  return `https://rewardspro.test/api/proxy/${path}?${new URLSearchParams(params)}`;
+}
+
+function signedParams(customerId: string) {
+  const params = {
+    shop: SHOP,
+    logged_in_customer_id: customerId,
+    path_prefix: "/apps/rewardspro",
+    timestamp: Math.trunc(Date.now() / 1000).toString(),
+  };
+  return { ...params, signature: sign(params) };
+}
+
+async function callLoader(path: string, params: Record<string, string>) {
+  try {
+    return await loader({
+      request: new Request(proxyUrl(path, params)),
+      params: { "*": path },
+      context: {},
+    });
+  } catch (error) {
+    // Rejected requests are thrown as responses
+    if (error instanceof Response) return error;
+    throw error;
+  }
+}
+
+describe("app proxy signature", () => {
+  beforeEach(() => {
+    prisma.customer.findUnique.mockReset().mockResolvedValue(null);
+  });
+
+  it("rejects requests without a signature", async () => {
+    const { signature: _signature, ...params } = signedParams("1001");
+
+    const response = await callLoader("membership", params);
+
+    expect(response.status).toBe(400);
+    expect(prisma.customer.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("rejects a tampered signature", async () => {
+    const params = signedParams("1001");
+
+    const response = await callLoader("membership", {
+      ...params,
+      signature: params.signature.replace(/^./, (c) => (c === "0" ? "1" : "0")),
+    });
+
+    expect(response.status).toBe(400);
+    expect(prisma.customer.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("rejects a logged_in_customer_id changed after signing", async () => {
+    const params = signedParams("1001");
+
+    const response = await callLoader("membership", { ...params, logged_in_customer_id: "2002" });
+
+    expect(response.status).toBe(400);
+    expect(prisma.customer.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("rejects an expired signature", async () => {
+    const params = {
+      shop: SHOP,
+      logged_in_customer_id: "1001",
+      path_prefix: "/apps/rewardspro",
+      timestamp: (Math.trunc(Date.now() / 1000) - 3600).toString(),
+    };
+
+    const response = await callLoader("membership", { ...params, signature: sign(params) });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("looks up only the signed customer", async () => {
+    const response = await callLoader("membership", signedParams("1001"));
+
+    expect(response.status).toBe(200);
+    expect(prisma.customer.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          shopDomain_shopifyCustomerId: { shopDomain: SHOP, shopifyCustomerId: "1001" },
+        },
+      })
+    );
+  });
+
+  it("rejects unsigned writes", async () => {
+    const { signature: _signature, ...params } = signedParams("1001");
+
+    const response = await action({
+      request: new Request(proxyUrl("membership", params), { method: "POST" }),
+      params: { "*": "membership" },
+      context: {},
+    }).catch((error) => error as Response);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -1,16 +1,27 @@
 // app/routes/api.proxy.$.tsx
-import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
 import prisma from "../db.server";
+import { TransactionStatus } from "@prisma/client";
+import { authenticate } from "../shopify.server";
+import { getBaseTier, enrollCustomer } from "../services/customer-tier.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { moneyToNumber, sumMoney } from "../utils/money";
+import { describeTierBenefits, parseTierBenefits } from "../utils/tier-benefits";
 
+/**
+ * Storefront endpoints served through the Shopify app proxy (/apps/rewardspro/*).
+ * Every request must carry a valid proxy `signature`; the shop and the
+ * logged-in customer are taken from the signed query parameters only.
+ */
 export async function loader({ request, params }: LoaderFunctionArgs) {
+  // Throws a 400 response when the signature is missing or invalid
+  const { admin } = await authenticate.public.appProxy(request);
+
   const proxyPath = params["*"] || "";
   const url = new URL(request.url);
   
-  // CORS headers for all responses
+  // Responses are per-customer, never cache them
   const headers = {
-    "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "GET, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
     "Content-Type": "application/json",
     "Cache-Control": "no-cache, no-store, must-revalidate"
   };
@@ -26,16 +37,12 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   
   // Membership endpoint
   if (proxyPath === "membership") {
-    // Extract customer ID from various possible parameters
-    const customerId = url.searchParams.get("logged_in_customer_id") ||
-                      url.searchParams.get("customer_id") || 
-                      url.searchParams.get("customerId") ||
-                      url.searchParams.get("cid");
-    
+    // Set by Shopify and covered by the signature; empty for guests
+    const customerId = url.searchParams.get("logged_in_customer_id");
     const shop = url.searchParams.get("shop");
     
     // Handle non-logged-in users
-    if (!customerId || customerId === "" || customerId === "null" || customerId === "undefined") {
+    if (!customerId) {
       return json({
         success: false,
         requiresLogin: true,
@@ -47,11 +54,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
           lastSynced: null
         },
         membership: {
-          tier: {
-            id: "guest",
-            name: "Guest",
-            cashbackPercent: 1
-          }
+          tier: null
         }
       }, { 
         status: 200,
@@ -70,7 +73,20 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     }
     
     try {
-      // Find or create customer
+      const settings = await getShopSettings(shop);
+      const customerInclude = {
+        membershipHistory: {
+          where: { isActive: true },
+          include: { tier: true },
+          take: 1
+        },
+        // Cashback still in the return window
+        transactions: {
+          where: { status: TransactionStatus.HELD },
+          select: { cashbackAmount: true }
+        }
+      };
+      
       let customer = await prisma.customer.findUnique({
         where: {
           shopDomain_shopifyCustomerId: {
@@ -78,74 +94,55 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
             shopifyCustomerId: customerId
           }
         },
-        include: {
-          membershipHistory: {
-            where: { isActive: true },
-            include: { tier: true },
-            take: 1
-          }
-        }
+        include: customerInclude
       });
       
-      // Create new customer if doesn't exist
-      if (!customer) {
-        // Get or create default tier
-        let defaultTier = await prisma.tier.findFirst({
-          where: {
-            shopDomain: shop,
-            isActive: true
-          },
-          orderBy: { 
-            minSpend: 'asc' 
+      // Unknown customers are only created when the shop opts in to enrolment
+      if (!customer && admin) {
+        if (settings.enrollOnProxyVisit) {
+          const enrolled = await enrollCustomer(shop, customerId, admin);
+          if (enrolled) {
+            customer = await prisma.customer.findUnique({
+              where: { id: enrolled.id },
+              include: customerInclude
+            });
           }
-        });
-        
-        if (!defaultTier) {
-          defaultTier = await prisma.tier.create({
-            data: {
-              shopDomain: shop,
-              name: "Bronze",
-              minSpend: 0,
-              cashbackPercent: 1,
-              isActive: true,
-              evaluationPeriod: "ANNUAL"
-            }
-          });
         }
+      }
+      
+      // Not a member yet: preview the tier they would start in, write nothing
+      if (!customer) {
+        const baseTier = await getBaseTier(shop);
         
-        // Create customer with membership
-        customer = await prisma.customer.create({
-          data: {
-            shopDomain: shop,
-            shopifyCustomerId: customerId,
-            email: `customer${customerId}@${shop}`,
+        return json({
+          success: true,
+          enrolled: false,
+          customer: null,
+          balance: {
             storeCredit: 0,
             totalEarned: 0,
-            membershipHistory: {
-              create: {
-                tierId: defaultTier.id,
-                isActive: true,
-                assignmentType: "AUTOMATIC"
-              }
-            }
+            currency: settings.currencyCode,
+            lastSynced: null
           },
-          include: {
-            membershipHistory: {
-              where: { isActive: true },
-              include: { tier: true },
-              take: 1
-            }
+          membership: {
+            tier: baseTier ? {
+              id: baseTier.id,
+              name: baseTier.name,
+              cashbackPercent: baseTier.cashbackPercent,
+              ...serializeBenefits(baseTier.benefits, settings.currencyCode)
+            } : null
           }
-        });
+        }, { headers });
       }
       
       // Get current tier
       const currentMembership = customer.membershipHistory[0];
-      const currentTier = currentMembership?.tier;
+      const currentTier = currentMembership?.tier || await getBaseTier(shop);
       
       // Return customer data
       return json({
         success: true,
+        enrolled: true,
         customer: {
           id: customer.id,
           shopifyId: customer.shopifyCustomerId,
@@ -153,49 +150,33 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
           memberSince: customer.createdAt.toISOString()
         },
         balance: {
-          storeCredit: customer.storeCredit,
-          totalEarned: customer.totalEarned,
+          // The widget expects plain numbers
+          storeCredit: moneyToNumber(customer.storeCredit),
+          totalEarned: moneyToNumber(customer.totalEarned),
+          pending: moneyToNumber(sumMoney(customer.transactions.map(t => t.cashbackAmount))),
+          currency: settings.currencyCode,
           lastSynced: customer.lastSyncedAt?.toISOString() || null
         },
         membership: {
           tier: currentTier ? {
             id: currentTier.id,
             name: currentTier.name,
-            cashbackPercent: currentTier.cashbackPercent
-          } : {
-            id: "default",
-            name: "Bronze",
-            cashbackPercent: 1
-          }
+            cashbackPercent: currentTier.cashbackPercent,
+            ...serializeBenefits(currentTier.benefits, settings.currencyCode)
+          } : null,
+          // Set while the customer keeps a tier they no longer qualify for
+          protectedUntil: currentMembership?.protectedUntil?.toISOString() || null
         }
       }, { headers });
       
     } catch (error) {
       console.error("Database error:", error);
       
-      // Return error with fallback data
       return json({
         success: false,
         error: "Database error",
         message: "Unable to load rewards data. Please try again later.",
-        requiresLogin: false,
-        customer: {
-          id: "error",
-          shopifyId: customerId,
-          email: ""
-        },
-        balance: { 
-          storeCredit: 0, 
-          totalEarned: 0,
-          lastSynced: null
-        },
-        membership: { 
-          tier: { 
-            id: "error",
-            name: "Bronze", 
-            cashbackPercent: 1 
-          }
-        }
+        requiresLogin: false
       }, { status: 500, headers });
     }
   }
@@ -209,18 +190,19 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   }, { status: 404, headers });
 }
 
-// Handle OPTIONS requests for CORS
-export async function action({ request }: LoaderFunctionArgs) {
-  if (request.method === "OPTIONS") {
-    return new Response(null, {
-      status: 204,
-      headers: {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type",
-      },
-    });
-  }
+// Structured benefits for the widget's logic plus ready-made labels to display
+function serializeBenefits(value: unknown, currencyCode: string) {
+  const benefits = parseTierBenefits(value);
+  
+  return {
+    benefits,
+    benefitLabels: describeTierBenefits(benefits, currencyCode)
+  };
+}
+
+// The proxy is read-only
+export async function action({ request }: ActionFunctionArgs) {
+  await authenticate.public.appProxy(request);
   
   return json({ error: "Method not allowed" }, { status: 405 });
-}
\ No newline at end of file
+}
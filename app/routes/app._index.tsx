@@ -17,6 +17,8 @@ import {
   Divider,
 } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { formatMoney, moneyToNumber } from "../utils/money";
 import prisma from "../db.server";
 import { TransactionStatus } from "@prisma/client";
 import { HeroMetric } from "../components/HeroMetric";
@@ -82,12 +84,14 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     }),
   ]);
 
-  const currentRev = currentRevenue._sum.orderAmount || 0;
-  const lastRev = lastRevenue._sum.orderAmount || 0;
+  const currentRev = moneyToNumber(currentRevenue._sum.orderAmount);
+  const lastRev = moneyToNumber(lastRevenue._sum.orderAmount);
   const mom = lastRev > 0 ? ((currentRev - lastRev) / lastRev) * 100 : 0;
+  const { currencyCode } = await getShopSettings(shopDomain);
 
   return json({
     shopDomain,
+    currencyCode,
     setup: { hasTiers, hasTransactions, hasCustomers: totalCustomers > 0 },
     hero: {
       revenue30d: currentRev,
@@ -112,12 +116,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   });
 };
 
-function fmt(n: number) {
-  return `$${n.toFixed(2)}`;
-}
-
 export default function Dashboard() {
-  const { setup, hero, stats, recentTransactions } =
+  const { setup, hero, stats, recentTransactions, currencyCode } =
     useLoaderData<typeof loader>();
 
   const needsSetup = !setup.hasTiers;
@@ -153,7 +153,7 @@ export default function Dashboard() {
         <Layout.Section>
           <HeroMetric
             label="Revenue (30 days)"
-            value={fmt(hero.revenue30d)}
+            value={formatMoney(hero.revenue30d, currencyCode)}
             change={
               hero.mom !== 0
                 ? {
@@ -164,7 +164,7 @@ export default function Dashboard() {
             }
             aside={[
               { label: "Orders", value: String(hero.orders30d) },
-              { label: "Cashback Paid", value: fmt(hero.cashback30d) },
+              { label: "Cashback Paid", value: formatMoney(hero.cashback30d, currencyCode) },
             ]}
           />
         </Layout.Section>
@@ -174,8 +174,8 @@ export default function Dashboard() {
           <InlineGrid columns={{ xs: 2, sm: 4 }} gap="300">
             <StatCard title="Customers" value={String(stats.totalCustomers)} />
             <StatCard title="Members" value={String(stats.totalMembers)} />
-            <StatCard title="Credit Outstanding" value={fmt(stats.totalCredit)} />
-            <StatCard title="Credit Earned (30d)" value={fmt(stats.creditEarned30d)} />
+            <StatCard title="Credit Outstanding" value={formatMoney(stats.totalCredit, currencyCode)} />
+            <StatCard title="Credit Earned (30d)" value={formatMoney(stats.creditEarned30d, currencyCode)} />
           </InlineGrid>
         </Layout.Section>
 
@@ -209,9 +209,9 @@ export default function Dashboard() {
                 rows={recentTransactions.map((t) => [
                   t.email,
                   `#${t.orderId}`,
-                  fmt(t.amount),
+                  formatMoney(t.amount, currencyCode),
                   <Text key={t.id} as="span" tone="success">
-                    +{fmt(t.cashback)}
+                    +{formatMoney(t.cashback, currencyCode)}
                   </Text>,
                   new Date(t.date).toLocaleDateString(),
                 ])}
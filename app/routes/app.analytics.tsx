@@ -16,25 +16,27 @@ import {
   IndexTable,
 } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { formatMoney } from "../utils/money";
 import { getAnalyticsDashboard } from "../services/analytics.server";
 import { HeroMetric } from "../components/HeroMetric";
 import { StatCard } from "../components/StatCard";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const { session } = await authenticate.admin(request);
-  const data = await getAnalyticsDashboard(session.shop);
-  return json(data);
+  const [data, settings] = await Promise.all([
+    getAnalyticsDashboard(session.shop),
+    getShopSettings(session.shop),
+  ]);
+  return json({ ...data, currencyCode: settings.currencyCode });
 }
 
-function fmt(n: number) {
-  return `$${n.toFixed(2)}`;
-}
 function pct(n: number) {
   return `${n.toFixed(1)}%`;
 }
 
 export default function Analytics() {
-  const { overview, tierActivity, storeCredit } =
+  const { overview, tierActivity, storeCredit, currencyCode } =
     useLoaderData<typeof loader>();
 
   return (
@@ -44,7 +46,7 @@ export default function Analytics() {
         <Layout.Section>
           <HeroMetric
             label="Member Revenue"
-            value={fmt(overview.memberRevenue)}
+            value={formatMoney(overview.memberRevenue, currencyCode)}
             change={
               overview.monthOverMonthGrowth !== 0
                 ? {
@@ -54,7 +56,7 @@ export default function Analytics() {
                 : undefined
             }
             aside={[
-              { label: "Per Member", value: fmt(overview.revenuePerMember) },
+              { label: "Per Member", value: formatMoney(overview.revenuePerMember, currencyCode) },
               { label: "Members", value: String(overview.memberCount) },
               { label: "Repeat Rate", value: pct(overview.repeatPurchaseRate) },
             ]}
@@ -70,11 +72,11 @@ export default function Analytics() {
             />
             <StatCard
               title="Credit Earned (30d)"
-              value={fmt(overview.creditEarnedThisPeriod)}
+              value={formatMoney(overview.creditEarnedThisPeriod, currencyCode)}
             />
             <StatCard
               title="Outstanding Liability"
-              value={fmt(overview.outstandingLiability)}
+              value={formatMoney(overview.outstandingLiability, currencyCode)}
             />
           </InlineGrid>
         </Layout.Section>
@@ -117,10 +119,10 @@ export default function Analytics() {
                     <Text as="span" alignment="end">{pct(tier.percentOfBase)}</Text>
                   </IndexTable.Cell>
                   <IndexTable.Cell>
-                    <Text as="span" alignment="end">{fmt(tier.avgAnnualSpend)}</Text>
+                    <Text as="span" alignment="end">{formatMoney(tier.avgAnnualSpend, currencyCode)}</Text>
                   </IndexTable.Cell>
                   <IndexTable.Cell>
-                    <Text as="span" alignment="end">{fmt(tier.avgOrderValue)}</Text>
+                    <Text as="span" alignment="end">{formatMoney(tier.avgOrderValue, currencyCode)}</Text>
                   </IndexTable.Cell>
                   <IndexTable.Cell>
                     <Text as="span" alignment="end">{pct(tier.retentionRate)}</Text>
@@ -199,12 +201,12 @@ export default function Analytics() {
           <BlockStack gap="300">
             <Text as="h2" variant="headingMd">Store Credit</Text>
             <InlineGrid columns={{ xs: 1, sm: 2, md: 3 }} gap="300">
-              <StatCard title="Total Earned" value={fmt(storeCredit.totalEarned)} />
-              <StatCard title="Earned (30d)" value={fmt(storeCredit.currentPeriodEarned)} />
-              <StatCard title="Avg / Transaction" value={fmt(storeCredit.avgPerTransaction)} />
+              <StatCard title="Total Earned" value={formatMoney(storeCredit.totalEarned, currencyCode)} />
+              <StatCard title="Earned (30d)" value={formatMoney(storeCredit.currentPeriodEarned, currencyCode)} />
+              <StatCard title="Avg / Transaction" value={formatMoney(storeCredit.avgPerTransaction, currencyCode)} />
               <StatCard
                 title="Redeemed"
-                value={fmt(storeCredit.totalRedeemed)}
+                value={formatMoney(storeCredit.totalRedeemed, currencyCode)}
               />
               <StatCard
                 title="Redemption Rate"
@@ -213,7 +215,7 @@ export default function Analytics() {
               />
               <StatCard
                 title="Liability"
-                value={fmt(storeCredit.outstandingLiability)}
+                value={formatMoney(storeCredit.outstandingLiability, currencyCode)}
               />
             </InlineGrid>
           </BlockStack>
@@ -0,0 +1,383 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  useLoaderData,
+  Form,
+  useNavigation,
+  useFetcher,
+  useActionData,
+} from "@remix-run/react";
+import { useState, useEffect } from "react";
+import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { getCampaignStats } from "../services/campaign.server";
+import { formatMoney, moneyToNumber, sumMoney } from "../utils/money";
+import prisma from "../db.server";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Button,
+  TextField,
+  ChoiceList,
+  BlockStack,
+  InlineStack,
+  Text,
+  Banner,
+  Badge,
+  EmptyState,
+  FormLayout,
+  Collapsible,
+} from "@shopify/polaris";
+import { HeroMetric } from "../components/HeroMetric";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const [campaigns, tiers, { currencyCode }] = await Promise.all([
+    getCampaignStats(session.shop),
+    prisma.tier.findMany({
+      where: { shopDomain: session.shop },
+      select: { id: true, name: true },
+      orderBy: { cashbackPercent: "asc" },
+    }),
+    getShopSettings(session.shop),
+  ]);
+
+  const now = new Date();
+
+  return json({
+    campaigns,
+    tiers,
+    currencyCode,
+    hero: {
+      bonusPaid: sumMoney(campaigns.map((c) => c.bonusPaid)),
+      orders: campaigns.reduce((s, c) => s + c.orders, 0),
+      revenue: sumMoney(campaigns.map((c) => c.revenue)),
+      running: campaigns.filter((c) => c.isActive && c.startsAt <= now && c.endsAt > now).length,
+    },
+  });
+}
+
+type ActionResponse =
+  | { success: true; message?: string }
+  | { success: false; error: string };
+
+// Comma-separated admin input to a clean list
+function parseList(value: FormDataEntryValue | null) {
+  return String(value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("_action");
+
+  try {
+    if (action === "create") {
+      const name = (formData.get("name") as string)?.trim();
+      const startsAt = new Date(formData.get("startsAt") as string);
+      const endsAt = new Date(formData.get("endsAt") as string);
+      const multiplier = parseFloat((formData.get("multiplier") as string) || "1");
+      const bonusPercent = parseFloat((formData.get("bonusPercent") as string) || "0");
+      const flatBonus = formData.get("flatBonus") ? parseFloat(formData.get("flatBonus") as string) : null;
+      const budget = formData.get("budget") ? parseFloat(formData.get("budget") as string) : null;
+
+      if (!name) {
+        return json<ActionResponse>({ success: false, error: "Name is required" }, { status: 400 });
+      }
+      if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+        return json<ActionResponse>({ success: false, error: "End must be after start" }, { status: 400 });
+      }
+      if (isNaN(multiplier) || multiplier < 1 || isNaN(bonusPercent) || bonusPercent < 0) {
+        return json<ActionResponse>({ success: false, error: "Multiplier must be at least 1 and bonus 0 or more" }, { status: 400 });
+      }
+      if (multiplier === 1 && bonusPercent === 0 && !flatBonus) {
+        return json<ActionResponse>({ success: false, error: "Set a multiplier, bonus % or flat bonus" }, { status: 400 });
+      }
+
+      await prisma.campaign.create({
+        data: {
+          shopDomain: session.shop,
+          name,
+          startsAt,
+          endsAt,
+          tierIds: formData.getAll("tierIds").map(String),
+          customerTags: parseList(formData.get("customerTags")),
+          collectionIds: parseList(formData.get("collectionIds")),
+          multiplier,
+          bonusPercent,
+          flatBonus,
+          budget,
+        },
+      });
+      return json<ActionResponse>({ success: true, message: "Campaign created" });
+    }
+
+    if (action === "toggle") {
+      const campaignId = formData.get("campaignId") as string;
+      const campaign = await prisma.campaign.findUnique({
+        where: { id: campaignId, shopDomain: session.shop },
+      });
+      if (!campaign) return json<ActionResponse>({ success: false, error: "Not found" }, { status: 404 });
+
+      await prisma.campaign.update({
+        where: { id: campaignId, shopDomain: session.shop },
+        data: { isActive: !campaign.isActive },
+      });
+      return json<ActionResponse>({ success: true, message: campaign.isActive ? "Campaign paused" : "Campaign resumed" });
+    }
+
+    if (action === "delete") {
+      const campaignId = formData.get("campaignId") as string;
+      // Campaigns that paid out stay for their stats; pause them instead
+      const awarded = await prisma.cashbackTransaction.count({ where: { campaignId } });
+      if (awarded > 0) {
+        return json<ActionResponse>({ success: false, error: "Has paid out cashback" }, { status: 400 });
+      }
+      await prisma.campaign.delete({ where: { id: campaignId, shopDomain: session.shop } });
+      return json<ActionResponse>({ success: true, message: "Campaign deleted" });
+    }
+  } catch (error) {
+    return json<ActionResponse>({ success: false, error: "An error occurred" }, { status: 500 });
+  }
+
+  return json<ActionResponse>({ success: true });
+}
+
+function getStatus(campaign: { isActive: boolean; startsAt: string; endsAt: string }) {
+  const now = new Date();
+  if (!campaign.isActive) return { label: "Paused", tone: "warning" as const };
+  if (new Date(campaign.startsAt) > now) return { label: "Scheduled", tone: "info" as const };
+  if (new Date(campaign.endsAt) <= now) return { label: "Ended", tone: undefined };
+  return { label: "Running", tone: "success" as const };
+}
+
+export default function Campaigns() {
+  const { campaigns, tiers, hero, currencyCode } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const fetcher = useFetcher();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [bannerVisible, setBannerVisible] = useState(false);
+
+  // Dates are entered in the merchant's timezone and submitted as ISO
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [tierIds, setTierIds] = useState<string[]>([]);
+
+  const isSubmitting = navigation.state === "submitting";
+
+  useEffect(() => {
+    if (actionData) {
+      setBannerVisible(true);
+      if (actionData.success) {
+        setShowCreateForm(false);
+        const t = setTimeout(() => setBannerVisible(false), 5000);
+        return () => clearTimeout(t);
+      }
+    }
+  }, [actionData]);
+
+  const formatOffer = (campaign: (typeof campaigns)[number]) => {
+    const parts = [];
+    if (campaign.multiplier !== 1) parts.push(`${campaign.multiplier}× rate`);
+    if (campaign.bonusPercent > 0) parts.push(`+${campaign.bonusPercent}%`);
+    if (campaign.flatBonus) parts.push(`+${formatMoney(campaign.flatBonus, currencyCode)} per order`);
+    const scope = campaign.collectionIds.length > 0
+      ? ` on ${campaign.collectionIds.length} ${campaign.collectionIds.length === 1 ? "collection" : "collections"}`
+      : "";
+    return parts.join(", ") + scope;
+  };
+
+  const formatTargets = (campaign: (typeof campaigns)[number]) => {
+    const targets = [
+      ...tiers.filter((t) => campaign.tierIds.includes(t.id)).map((t) => t.name),
+      ...campaign.customerTags.map((tag) => `#${tag}`),
+    ];
+    return targets.length > 0 ? targets.join(", ") : "Everyone";
+  };
+
+  return (
+    <Page
+      title="Campaigns"
+      primaryAction={{
+        content: showCreateForm ? "Cancel" : "Add Campaign",
+        onAction: () => setShowCreateForm(!showCreateForm),
+        destructive: showCreateForm,
+      }}
+    >
+      <Layout>
+        {bannerVisible && actionData && (
+          <Layout.Section>
+            <Banner
+              tone={actionData.success ? "success" : "critical"}
+              onDismiss={() => setBannerVisible(false)}
+            >
+              {"message" in actionData ? actionData.message : "error" in actionData ? actionData.error : ""}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {/* Hero: Campaign Bonus Paid */}
+        <Layout.Section>
+          <HeroMetric
+            label="Campaign Bonus Paid"
+            value={formatMoney(hero.bonusPaid, currencyCode)}
+            aside={[
+              { label: "Running", value: String(hero.running) },
+              { label: "Orders", value: String(hero.orders) },
+              { label: "Revenue", value: formatMoney(hero.revenue, currencyCode) },
+            ]}
+          />
+        </Layout.Section>
+
+        {/* Create Form */}
+        <Layout.Section>
+          <Collapsible open={showCreateForm} id="create-campaign">
+            <Card>
+              <Form method="post">
+                <input type="hidden" name="_action" value="create" />
+                <input type="hidden" name="startsAt" value={startsAt ? new Date(startsAt).toISOString() : ""} />
+                <input type="hidden" name="endsAt" value={endsAt ? new Date(endsAt).toISOString() : ""} />
+                {tierIds.map((id) => (
+                  <input key={id} type="hidden" name="tierIds" value={id} />
+                ))}
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">New Campaign</Text>
+                  <FormLayout>
+                    <TextField label="Name" name="name" requiredIndicator placeholder="Double cashback weekend" autoComplete="off" />
+                    <FormLayout.Group>
+                      <TextField label="Starts" type="datetime-local" value={startsAt} onChange={setStartsAt} requiredIndicator autoComplete="off" />
+                      <TextField label="Ends" type="datetime-local" value={endsAt} onChange={setEndsAt} requiredIndicator autoComplete="off" />
+                    </FormLayout.Group>
+                    <FormLayout.Group>
+                      <TextField label="Rate multiplier" name="multiplier" type="number" min={1} step={0.1} placeholder="1" helpText="2 doubles the tier rate" autoComplete="off" />
+                      <TextField label="Bonus %" name="bonusPercent" type="number" min={0} step={0.1} placeholder="0" helpText="Added to the rate" autoComplete="off" />
+                      <TextField label="Flat bonus" name="flatBonus" type="number" min={0} step={0.01} placeholder="None" helpText="Per qualifying order" autoComplete="off" />
+                    </FormLayout.Group>
+                    <FormLayout.Group>
+                      <TextField label="Budget" name="budget" type="number" min={0} step={0.01} placeholder="Uncapped" helpText="Stops paying once this much bonus is out" autoComplete="off" />
+                      <TextField label="Collections" name="collectionIds" placeholder="All products" helpText="Comma-separated collection IDs" autoComplete="off" />
+                      <TextField label="Customer tags" name="customerTags" placeholder="Everyone" helpText="Comma-separated; any tag qualifies" autoComplete="off" />
+                    </FormLayout.Group>
+                    {tiers.length > 0 && (
+                      <ChoiceList
+                        title="Tiers"
+                        allowMultiple
+                        choices={tiers.map((t) => ({ label: t.name, value: t.id }))}
+                        selected={tierIds}
+                        onChange={setTierIds}
+                      />
+                    )}
+                  </FormLayout>
+                  <InlineStack gap="200">
+                    <Button submit variant="primary" loading={isSubmitting}>Create</Button>
+                    <Button onClick={() => setShowCreateForm(false)}>Cancel</Button>
+                  </InlineStack>
+                </BlockStack>
+              </Form>
+            </Card>
+          </Collapsible>
+        </Layout.Section>
+
+        {/* Campaigns Table */}
+        <Layout.Section>
+          {campaigns.length === 0 ? (
+            <Card>
+              <EmptyState
+                heading="No campaigns yet"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                action={{ content: "Create First Campaign", onAction: () => setShowCreateForm(true) }}
+              >
+                <p>Boost cashback for a limited time, a set of tiers or a product release</p>
+              </EmptyState>
+            </Card>
+          ) : (
+            <Card padding="0">
+              <IndexTable
+                resourceName={{ singular: "campaign", plural: "campaigns" }}
+                itemCount={campaigns.length}
+                headings={[
+                  { title: "Campaign" },
+                  { title: "Window" },
+                  { title: "Offer" },
+                  { title: "Targets" },
+                  { title: "Orders", alignment: "end" },
+                  { title: "Bonus Paid", alignment: "end" },
+                  { title: "Avg Order", alignment: "end" },
+                  { title: "Budget Left", alignment: "end" },
+                  { title: "Status" },
+                  { title: "", alignment: "end" },
+                ]}
+                selectable={false}
+              >
+                {campaigns.map((campaign, i) => {
+                  const status = getStatus(campaign);
+                  return (
+                    <IndexTable.Row id={campaign.id} key={campaign.id} position={i}>
+                      <IndexTable.Cell>
+                        <Text as="span" fontWeight="semibold">{campaign.name}</Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        {new Date(campaign.startsAt).toLocaleString()} – {new Date(campaign.endsAt).toLocaleString()}
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>{formatOffer(campaign)}</IndexTable.Cell>
+                      <IndexTable.Cell>{formatTargets(campaign)}</IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Text as="span" alignment="end">{campaign.orders}</Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Text as="span" alignment="end">{formatMoney(campaign.bonusPaid, currencyCode)}</Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Text as="span" alignment="end">
+                          {campaign.orders > 0
+                            ? formatMoney(moneyToNumber(campaign.revenue) / campaign.orders, currencyCode)
+                            : "—"}
+                        </Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Text as="span" alignment="end">
+                          {campaign.budgetRemaining !== null ? formatMoney(campaign.budgetRemaining, currencyCode) : "—"}
+                        </Text>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <Badge tone={status.tone}>{status.label}</Badge>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <InlineStack gap="200" align="end">
+                          <fetcher.Form method="post" style={{ display: "inline" }}>
+                            <input type="hidden" name="_action" value="toggle" />
+                            <input type="hidden" name="campaignId" value={campaign.id} />
+                            <Button size="slim" variant="plain" submit>
+                              {campaign.isActive ? "Pause" : "Resume"}
+                            </Button>
+                          </fetcher.Form>
+                          <fetcher.Form method="post" style={{ display: "inline" }}>
+                            <input type="hidden" name="_action" value="delete" />
+                            <input type="hidden" name="campaignId" value={campaign.id} />
+                            <Button size="slim" variant="plain" tone="critical" submit disabled={campaign.orders > 0}>
+                              Delete
+                            </Button>
+                          </fetcher.Form>
+                        </InlineStack>
+                      </IndexTable.Cell>
+                    </IndexTable.Row>
+                  );
+                })}
+              </IndexTable>
+            </Card>
+          )}
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
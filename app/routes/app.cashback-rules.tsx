@@ -0,0 +1,354 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  useLoaderData,
+  Form,
+  useNavigation,
+  useFetcher,
+  useActionData,
+} from "@remix-run/react";
+import { useState, useEffect } from "react";
+import { CashbackRuleTarget } from "@prisma/client";
+import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { previewOrderCashback, type OrderCashbackPreview } from "../services/order-cashback.server";
+import { formatMoney } from "../utils/money";
+import prisma from "../db.server";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  DataTable,
+  Button,
+  TextField,
+  Select,
+  BlockStack,
+  InlineStack,
+  Text,
+  Banner,
+  Badge,
+  EmptyState,
+  FormLayout,
+  Collapsible,
+} from "@shopify/polaris";
+
+const TARGET_OPTIONS = [
+  { label: "Collection", value: CashbackRuleTarget.COLLECTION },
+  { label: "Product type", value: CashbackRuleTarget.PRODUCT_TYPE },
+  { label: "Vendor", value: CashbackRuleTarget.VENDOR },
+  { label: "Product", value: CashbackRuleTarget.PRODUCT },
+  { label: "Shipping", value: CashbackRuleTarget.SHIPPING },
+  { label: "Taxes", value: CashbackRuleTarget.TAX },
+  { label: "Payment gateway", value: CashbackRuleTarget.GATEWAY },
+];
+
+const VALUE_HELP: Record<string, string> = {
+  COLLECTION: "Collection ID from its admin URL",
+  PRODUCT_TYPE: "Exact product type, e.g. Sealed Booster Box",
+  VENDOR: "Exact vendor name",
+  PRODUCT: "Product ID from its admin URL",
+  GATEWAY: "Gateway name, e.g. paypal",
+};
+
+// Shipping and taxes are single lines, so their rules need no value
+const TARGETS_WITHOUT_VALUE: string[] = [CashbackRuleTarget.SHIPPING, CashbackRuleTarget.TAX];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const [rules, { currencyCode }] = await Promise.all([
+    prisma.cashbackRule.findMany({
+      where: { shopDomain: session.shop },
+      orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+    }),
+    getShopSettings(session.shop),
+  ]);
+
+  return json({ rules, currencyCode });
+}
+
+type ActionResponse =
+  | { success: true; message?: string; preview?: OrderCashbackPreview }
+  | { success: false; error: string };
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("_action");
+
+  try {
+    if (action === "create") {
+      const name = (formData.get("name") as string)?.trim();
+      const target = formData.get("target") as CashbackRuleTarget;
+      const value = (formData.get("value") as string)?.trim() || null;
+      // Left empty, a rule excludes what it matches
+      const weightPercent = parseFloat((formData.get("weightPercent") as string) || "0");
+
+      if (!name || !Object.values(CashbackRuleTarget).includes(target)) {
+        return json<ActionResponse>({ success: false, error: "Name and target are required" }, { status: 400 });
+      }
+      if (!TARGETS_WITHOUT_VALUE.includes(target) && !value) {
+        return json<ActionResponse>({ success: false, error: "This rule needs a value to match" }, { status: 400 });
+      }
+      if (isNaN(weightPercent) || weightPercent < 0) {
+        return json<ActionResponse>({ success: false, error: "Weight must be 0 or more" }, { status: 400 });
+      }
+
+      await prisma.cashbackRule.create({
+        data: {
+          shopDomain: session.shop,
+          name,
+          target,
+          value: TARGETS_WITHOUT_VALUE.includes(target) ? null : value,
+          weightPercent,
+          priority: parseInt(formData.get("priority") as string) || 0,
+        },
+      });
+      return json<ActionResponse>({ success: true, message: "Rule created" });
+    }
+
+    if (action === "toggle") {
+      const ruleId = formData.get("ruleId") as string;
+      const rule = await prisma.cashbackRule.findUnique({
+        where: { id: ruleId, shopDomain: session.shop },
+      });
+      if (!rule) return json<ActionResponse>({ success: false, error: "Not found" }, { status: 404 });
+
+      await prisma.cashbackRule.update({
+        where: { id: ruleId, shopDomain: session.shop },
+        data: { isActive: !rule.isActive },
+      });
+      return json<ActionResponse>({ success: true, message: rule.isActive ? "Rule paused" : "Rule activated" });
+    }
+
+    if (action === "delete") {
+      await prisma.cashbackRule.delete({
+        where: { id: formData.get("ruleId") as string, shopDomain: session.shop },
+      });
+      return json<ActionResponse>({ success: true, message: "Rule deleted" });
+    }
+
+    if (action === "preview") {
+      const orderName = (formData.get("orderName") as string)?.trim();
+      if (!orderName) {
+        return json<ActionResponse>({ success: false, error: "Enter an order number" }, { status: 400 });
+      }
+
+      const preview = await previewOrderCashback(admin, session.shop, orderName);
+      if (!preview) {
+        return json<ActionResponse>({ success: false, error: `Order ${orderName} not found` }, { status: 404 });
+      }
+      return json<ActionResponse>({ success: true, preview });
+    }
+  } catch (error) {
+    console.error("Cashback rule action failed:", error);
+    return json<ActionResponse>({ success: false, error: "An error occurred" }, { status: 500 });
+  }
+
+  return json<ActionResponse>({ success: true });
+}
+
+function formatWeight(weightPercent: number) {
+  return weightPercent === 0 ? "Excluded" : `${weightPercent}%`;
+}
+
+export default function CashbackRules() {
+  const { rules, currencyCode } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const fetcher = useFetcher();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [bannerVisible, setBannerVisible] = useState(false);
+  const [target, setTarget] = useState<string>(CashbackRuleTarget.COLLECTION);
+
+  const isSubmitting = navigation.state === "submitting";
+  const preview = actionData && "preview" in actionData ? actionData.preview : null;
+
+  useEffect(() => {
+    if (actionData && !("preview" in actionData && actionData.preview)) {
+      setBannerVisible(true);
+      if (actionData.success) {
+        setShowCreateForm(false);
+        const t = setTimeout(() => setBannerVisible(false), 5000);
+        return () => clearTimeout(t);
+      }
+    }
+  }, [actionData]);
+
+  return (
+    <Page
+      title="Cashback Rules"
+      subtitle="Exclude or reweight parts of an order when calculating cashback"
+      primaryAction={{
+        content: showCreateForm ? "Cancel" : "Add Rule",
+        onAction: () => setShowCreateForm(!showCreateForm),
+        destructive: showCreateForm,
+      }}
+    >
+      <Layout>
+        {bannerVisible && actionData && (
+          <Layout.Section>
+            <Banner
+              tone={actionData.success ? "success" : "critical"}
+              onDismiss={() => setBannerVisible(false)}
+            >
+              {"message" in actionData ? actionData.message : "error" in actionData ? actionData.error : ""}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {/* Create Form */}
+        <Layout.Section>
+          <Collapsible open={showCreateForm} id="create-rule">
+            <Card>
+              <Form method="post">
+                <input type="hidden" name="_action" value="create" />
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">New Rule</Text>
+                  <FormLayout>
+                    <FormLayout.Group>
+                      <TextField label="Name" name="name" requiredIndicator autoComplete="off" />
+                      <Select label="Applies to" name="target" options={TARGET_OPTIONS} value={target} onChange={setTarget} />
+                    </FormLayout.Group>
+                    <FormLayout.Group>
+                      {TARGETS_WITHOUT_VALUE.includes(target) ? (
+                        <input type="hidden" name="value" value="" />
+                      ) : (
+                        <TextField label="Matches" name="value" requiredIndicator helpText={VALUE_HELP[target]} autoComplete="off" />
+                      )}
+                      <TextField label="Weight %" name="weightPercent" type="number" min={0} step={1} placeholder="0" helpText="0 excludes, 100 counts in full, 200 doubles" autoComplete="off" />
+                      <TextField label="Priority" name="priority" type="number" step={1} placeholder="0" helpText="Lower runs first; the first matching rule applies" autoComplete="off" />
+                    </FormLayout.Group>
+                  </FormLayout>
+                  <InlineStack gap="200">
+                    <Button submit variant="primary" loading={isSubmitting}>Create</Button>
+                    <Button onClick={() => setShowCreateForm(false)}>Cancel</Button>
+                  </InlineStack>
+                </BlockStack>
+              </Form>
+            </Card>
+          </Collapsible>
+        </Layout.Section>
+
+        {/* Rules Table */}
+        <Layout.Section>
+          {rules.length === 0 ? (
+            <Card>
+              <EmptyState
+                heading="No cashback rules"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                action={{ content: "Add First Rule", onAction: () => setShowCreateForm(true) }}
+              >
+                <p>Every payment except gift cards and store credit earns cashback on the full order</p>
+              </EmptyState>
+            </Card>
+          ) : (
+            <Card padding="0">
+              <IndexTable
+                resourceName={{ singular: "rule", plural: "rules" }}
+                itemCount={rules.length}
+                headings={[
+                  { title: "Rule" },
+                  { title: "Applies to" },
+                  { title: "Weight" },
+                  { title: "Priority", alignment: "end" },
+                  { title: "Status" },
+                  { title: "", alignment: "end" },
+                ]}
+                selectable={false}
+              >
+                {rules.map((rule, i) => (
+                  <IndexTable.Row id={rule.id} key={rule.id} position={i}>
+                    <IndexTable.Cell>
+                      <Text as="span" fontWeight="semibold">{rule.name}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {TARGET_OPTIONS.find((o) => o.value === rule.target)?.label}
+                      {rule.value ? `: ${rule.value}` : ""}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{formatWeight(rule.weightPercent)}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end">{rule.priority}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Badge tone={rule.isActive ? "success" : "warning"}>
+                        {rule.isActive ? "Active" : "Paused"}
+                      </Badge>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <InlineStack gap="200" align="end">
+                        <fetcher.Form method="post" style={{ display: "inline" }}>
+                          <input type="hidden" name="_action" value="toggle" />
+                          <input type="hidden" name="ruleId" value={rule.id} />
+                          <Button size="slim" variant="plain" submit>
+                            {rule.isActive ? "Pause" : "Activate"}
+                          </Button>
+                        </fetcher.Form>
+                        <fetcher.Form method="post" style={{ display: "inline" }}>
+                          <input type="hidden" name="_action" value="delete" />
+                          <input type="hidden" name="ruleId" value={rule.id} />
+                          <Button size="slim" variant="plain" tone="critical" submit>
+                            Delete
+                          </Button>
+                        </fetcher.Form>
+                      </InlineStack>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            </Card>
+          )}
+        </Layout.Section>
+
+        {/* Preview */}
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">Preview</Text>
+              <Text as="p" tone="subdued">
+                See how the active rules would treat a past order. Nothing is credited.
+              </Text>
+              <Form method="post">
+                <input type="hidden" name="_action" value="preview" />
+                <InlineStack gap="200" blockAlign="end">
+                  <TextField label="Order" name="orderName" placeholder="#1001" autoComplete="off" />
+                  <Button submit loading={isSubmitting}>Preview</Button>
+                </InlineStack>
+              </Form>
+
+              {preview && (
+                <BlockStack gap="300">
+                  <DataTable
+                    columnContentTypes={["text", "numeric", "text", "text"]}
+                    headings={["Line", "Amount", "Weight", "Rule"]}
+                    rows={[...preview.breakdown.lines, ...preview.breakdown.payments.map((p) => ({ ...p, label: `Paid via ${p.label}` }))].map((line) => [
+                      line.label,
+                      formatMoney(line.amount, currencyCode),
+                      formatWeight(line.weightPercent),
+                      line.ruleName || "—",
+                    ])}
+                  />
+                  <InlineStack gap="400">
+                    <Text as="p">
+                      Order {preview.orderName}: {formatMoney(preview.breakdown.eligibleAmount, currencyCode)} of{" "}
+                      {formatMoney(preview.breakdown.paymentAmount, currencyCode)} paid earns cashback
+                    </Text>
+                    {preview.cashbackAmount !== null && (
+                      <Text as="p" fontWeight="semibold">
+                        {formatMoney(preview.cashbackAmount, currencyCode)} at {preview.cashbackPercent}%
+                      </Text>
+                    )}
+                  </InlineStack>
+                </BlockStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -25,12 +25,27 @@ import {
   ProgressBar,
   Divider,
   Tabs,
+  Button,
+  TextField,
+  FormLayout,
 } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { formatMoney, moneyToNumber, sumMoney } from "../utils/money";
+import { describeEvaluationPeriod } from "../utils/tier-criteria";
 import { getCustomerTierInfo } from "../services/customer-tier.server";
+import { syncCashbackToShopify } from "../services/cashback-sync.server";
+import {
+  adjustStoreCredit,
+  checkLedgerInvariant,
+  postBalanceCorrection,
+} from "../services/store-credit-ledger.server";
 import prisma from "../db.server";
-import { TransactionStatus } from "@prisma/client";
-import type { LedgerEntryType, LedgerSource } from "@prisma/client";
+import {
+  TransactionStatus,
+  LedgerEntryType,
+  LedgerSource,
+} from "@prisma/client";
 import { useState, useEffect } from "react";
 import { StatCard } from "../components/StatCard";
 
@@ -49,14 +64,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
       where: { id: customerId },
       include: {
         transactions: {
-          where: {
-            status: {
-              in: [
-                TransactionStatus.COMPLETED,
-                TransactionStatus.SYNCED_TO_SHOPIFY,
-              ],
-            },
-          },
+          include: { adjustments: { orderBy: { createdAt: "asc" } } },
           orderBy: { createdAt: "desc" },
           take: 20,
         },
@@ -87,6 +95,9 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     throw new Response("Customer not found", { status: 404 });
   }
 
+  // Balance must equal the sum of the customer's ledger entries
+  const ledgerCheck = await checkLedgerInvariant(customerId);
+
   // Fetch Shopify store credit accounts
   let storeCreditAccounts: Array<{
     id: string;
@@ -122,13 +133,17 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
     // Shopify API failure is non-fatal
   }
 
+  const { currencyCode } = await getShopSettings(shopDomain);
+
   return json({
     customer,
     tierInfo,
+    ledgerCheck,
+    currencyCode,
     stats: {
-      lifetimeSpending: lifetimeStats._sum.orderAmount || 0,
-      lifetimeCashback: lifetimeStats._sum.cashbackAmount || 0,
-      avgOrderValue: lifetimeStats._avg.orderAmount || 0,
+      lifetimeSpending: moneyToNumber(lifetimeStats._sum.orderAmount),
+      lifetimeCashback: moneyToNumber(lifetimeStats._sum.cashbackAmount),
+      avgOrderValue: moneyToNumber(lifetimeStats._avg.orderAmount),
       orderCount: lifetimeStats._count,
     },
     storeCreditAccounts,
@@ -144,7 +159,52 @@ export async function action({ request, params }: ActionFunctionArgs) {
   }
 
   const formData = await request.formData();
-  if (formData.get("actionType") !== "sync") {
+  const actionType = formData.get("actionType");
+
+  if (actionType === "retrySync") {
+    const transaction = await prisma.cashbackTransaction.findFirst({
+      where: {
+        id: formData.get("transactionId") as string,
+        customerId,
+        shopDomain: session.shop,
+        status: TransactionStatus.SHOPIFY_SYNC_FAILED,
+      },
+    });
+    if (!transaction) {
+      return json({ success: false, error: "Transaction not found or already synced" });
+    }
+
+    const status = await syncCashbackToShopify(admin, transaction.id);
+    return status === TransactionStatus.SYNCED_TO_SHOPIFY
+      ? json({ success: true, message: `Cashback for order #${transaction.shopifyOrderId} synced to Shopify` })
+      : json({ success: false, error: `Retry failed for order #${transaction.shopifyOrderId}` });
+  }
+
+  const { currencyCode } = await getShopSettings(session.shop);
+
+  if (actionType === "adjust") {
+    const amount = parseFloat(formData.get("amount") as string);
+    const reason = ((formData.get("reason") as string) || "").trim();
+
+    if (!Number.isFinite(amount) || amount === 0) {
+      return json({ success: false, error: "Enter a non-zero amount" });
+    }
+    if (!reason) {
+      return json({ success: false, error: "A reason is required for manual adjustments" });
+    }
+
+    const result = await adjustStoreCredit(admin, {
+      customerId,
+      shopDomain: session.shop,
+      amount,
+      reason,
+    });
+    return result.success
+      ? json({ success: true, message: `Adjusted balance by ${formatMoney(amount, currencyCode)}` })
+      : json({ success: false, error: result.error || "Adjustment failed" });
+  }
+
+  if (actionType !== "sync") {
     return json({ success: false, error: "Invalid action" });
   }
 
@@ -172,46 +232,45 @@ export async function action({ request, params }: ActionFunctionArgs) {
       },
     );
     const result = await response.json();
-    const accounts =
+    const accounts: Array<{ node: { balance: { amount: string; currencyCode: string } } }> =
       result.data?.customer?.storeCreditAccounts?.edges || [];
-    let totalBalance = 0;
-    for (const edge of accounts) {
-      totalBalance += parseFloat(edge.node.balance.amount);
+
+    // The local balance is in shop currency; credit held in other currencies
+    // can't be compared with it
+    const otherCurrency = accounts.find(
+      (edge) => edge.node.balance.currencyCode !== currencyCode && Number(edge.node.balance.amount) !== 0,
+    );
+    if (otherCurrency) {
+      return json({
+        success: false,
+        error: `This customer also holds ${otherCurrency.node.balance.currencyCode} store credit, so the balance can't be synced automatically`,
+      });
     }
 
-    const changed = Math.abs(totalBalance - customer.storeCredit) > 0.01;
-
-    if (changed) {
-      await prisma.$transaction([
-        prisma.storeCreditLedger.create({
-          data: {
-            customerId: customer.id,
-            shopDomain: session.shop,
-            amount: totalBalance - customer.storeCredit,
-            balance: totalBalance,
-            type: "SHOPIFY_SYNC",
-            source: "SHOPIFY_ADMIN",
-            description: `Sync: $${customer.storeCredit.toFixed(2)} → $${totalBalance.toFixed(2)}`,
-            reconciledAt: new Date(),
-          },
-        }),
-        prisma.customer.update({
-          where: { id: customerId },
-          data: { storeCredit: totalBalance, lastSyncedAt: new Date() },
-        }),
-      ]);
-    } else {
-      await prisma.customer.update({
+    const totalBalance = sumMoney(accounts.map((edge) => edge.node.balance.amount));
+
+    const correction = await prisma.$transaction(async (tx) => {
+      const posted = await postBalanceCorrection(tx, {
+        customerId: customer.id,
+        shopDomain: session.shop,
+        targetBalance: totalBalance,
+        type: LedgerEntryType.SHOPIFY_SYNC,
+        source: LedgerSource.SHOPIFY_ADMIN,
+        description: `Sync: ${formatMoney(customer.storeCredit, currencyCode)} → ${formatMoney(totalBalance, currencyCode)}`,
+      });
+      await tx.customer.update({
         where: { id: customerId },
         data: { lastSyncedAt: new Date() },
       });
-    }
+      return posted;
+    });
+    const changed = correction !== null;
 
     return json({
       success: true,
       message: changed
-        ? `Synced: $${customer.storeCredit.toFixed(2)} → $${totalBalance.toFixed(2)}`
-        : `Already up to date ($${totalBalance.toFixed(2)})`,
+        ? `Synced: ${formatMoney(customer.storeCredit, currencyCode)} → ${formatMoney(totalBalance, currencyCode)}`
+        : `Already up to date (${formatMoney(totalBalance, currencyCode)})`,
     });
   } catch (error) {
     return json({
@@ -222,6 +281,23 @@ export async function action({ request, params }: ActionFunctionArgs) {
   }
 }
 
+type StatusBadge = {
+  label: string;
+  tone: "success" | "info" | "attention" | "critical" | undefined;
+};
+
+function formatTransactionStatus(status: TransactionStatus): StatusBadge {
+  const map: Record<string, StatusBadge> = {
+    HELD: { label: "Held", tone: "attention" },
+    PENDING: { label: "Pending", tone: "attention" },
+    COMPLETED: { label: "Completed", tone: "info" },
+    SYNCED_TO_SHOPIFY: { label: "Synced", tone: "success" },
+    SHOPIFY_SYNC_FAILED: { label: "Sync Failed", tone: "critical" },
+    REVERSED: { label: "Reversed", tone: undefined },
+  };
+  return map[status] || { label: status, tone: undefined };
+}
+
 function formatLedgerType(type: LedgerEntryType): string {
   const map: Record<string, string> = {
     MANUAL_ADJUSTMENT: "Manual",
@@ -230,6 +306,9 @@ function formatLedgerType(type: LedgerEntryType): string {
     ORDER_PAYMENT: "Payment",
     REFUND_CREDIT: "Refund",
     INITIAL_IMPORT: "Import",
+    CASHBACK_REVERSAL: "Reversal",
+    CASHBACK_ADJUSTMENT: "Order edit",
+    CREDIT_EXPIRED: "Expired",
   };
   return map[type] || type;
 }
@@ -246,7 +325,7 @@ function formatLedgerSource(source: LedgerSource): string {
 }
 
 export default function CustomerDetail() {
-  const { customer, tierInfo, stats, storeCreditAccounts } =
+  const { customer, tierInfo, ledgerCheck, stats, storeCreditAccounts, currencyCode } =
     useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
@@ -315,6 +394,16 @@ export default function CustomerDetail() {
           </Layout.Section>
         )}
 
+        {!ledgerCheck.balanced && (
+          <Layout.Section>
+            <Banner tone="warning" title="Balance does not match the credit ledger">
+              Balance {formatMoney(ledgerCheck.balance, currencyCode)} vs ledger total{" "}
+              {formatMoney(ledgerCheck.ledgerTotal, currencyCode)} (difference{" "}
+              {formatMoney(ledgerCheck.difference, currencyCode)}). Sync with Shopify to post a correcting entry.
+            </Banner>
+          </Layout.Section>
+        )}
+
         {/* Credit Balance Card */}
         <Layout.Section>
           <Card>
@@ -325,7 +414,7 @@ export default function CustomerDetail() {
                     Store Credit Balance
                   </Text>
                   <Text as="p" variant="heading3xl" fontWeight="bold">
-                    ${customer.storeCredit.toFixed(2)}
+                    {formatMoney(customer.storeCredit, currencyCode)}
                   </Text>
                   <InlineStack gap="200">
                     <Text as="span" variant="bodySm" tone="subdued">
@@ -361,7 +450,7 @@ export default function CustomerDetail() {
                         >
                           <Text as="span">{acc.currency}</Text>
                           <Text as="span" fontWeight="semibold">
-                            ${parseFloat(acc.amount).toFixed(2)}
+                            {formatMoney(acc.amount, acc.currency)}
                           </Text>
                         </InlineStack>
                       ))}
@@ -369,6 +458,42 @@ export default function CustomerDetail() {
                   </Box>
                 </>
               )}
+
+              <Box paddingBlockStart="400">
+                <Divider />
+              </Box>
+              <Box paddingBlockStart="400">
+                <Form method="post">
+                  <input type="hidden" name="actionType" value="adjust" />
+                  <BlockStack gap="200">
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      Manual Adjustment
+                    </Text>
+                    <FormLayout>
+                      <FormLayout.Group>
+                        <TextField
+                          label="Amount"
+                          name="amount"
+                          type="number"
+                          step={0.01}
+                          helpText="Negative to debit"
+                          autoComplete="off"
+                        />
+                        <TextField
+                          label="Reason"
+                          name="reason"
+                          autoComplete="off"
+                        />
+                      </FormLayout.Group>
+                    </FormLayout>
+                    <InlineStack align="end">
+                      <Button submit loading={isSyncing}>
+                        Apply Adjustment
+                      </Button>
+                    </InlineStack>
+                  </BlockStack>
+                </Form>
+              </Box>
             </Box>
           </Card>
         </Layout.Section>
@@ -378,11 +503,11 @@ export default function CustomerDetail() {
           <InlineGrid columns={{ xs: 1, sm: 2, md: 4 }} gap="400">
             <StatCard
               title="Lifetime Spending"
-              value={`$${stats.lifetimeSpending.toFixed(2)}`}
+              value={formatMoney(stats.lifetimeSpending, currencyCode)}
             />
             <StatCard
               title="Total Cashback"
-              value={`$${stats.lifetimeCashback.toFixed(2)}`}
+              value={formatMoney(stats.lifetimeCashback, currencyCode)}
             />
             <StatCard
               title="Orders"
@@ -390,7 +515,7 @@ export default function CustomerDetail() {
             />
             <StatCard
               title="Avg Order Value"
-              value={`$${stats.avgOrderValue.toFixed(2)}`}
+              value={formatMoney(stats.avgOrderValue, currencyCode)}
             />
           </InlineGrid>
         </Layout.Section>
@@ -408,16 +533,28 @@ export default function CustomerDetail() {
                       </Text>
                       <Text as="p" tone="subdued">
                         {tierInfo.membership.tier.cashbackPercent}% cashback •{" "}
-                        {tierInfo.membership.tier.evaluationPeriod ===
-                        "LIFETIME"
-                          ? "Lifetime"
-                          : "Annual"}{" "}
+                        {tierInfo.membership.tier.manualOnly
+                          ? "Invite only"
+                          : describeEvaluationPeriod(tierInfo.membership.tier)}{" "}
                         tier
                       </Text>
                     </BlockStack>
-                    <Badge tone="success">Active</Badge>
+                    {tierInfo.membership.protectedUntil ? (
+                      <Badge tone="attention">Protected</Badge>
+                    ) : (
+                      <Badge tone="success">Active</Badge>
+                    )}
                   </InlineStack>
 
+                  {tierInfo.membership.protectedUntil && (
+                    <Banner tone="warning">
+                      Below this tier's criteria. Keeps{" "}
+                      {tierInfo.membership.tier.name} until{" "}
+                      {new Date(tierInfo.membership.protectedUntil).toLocaleDateString()}
+                      , then moves to the tier they qualify for.
+                    </Banner>
+                  )}
+
                   {tierInfo.progressInfo && (
                     <>
                       <Divider />
@@ -442,15 +579,19 @@ export default function CustomerDetail() {
                         />
                         <InlineStack align="space-between">
                           <Text as="p" variant="bodySm" tone="subdued">
-                            $
-                            {tierInfo.progressInfo.currentSpending.toFixed(2)}{" "}
-                            spent
+                            {formatMoney(tierInfo.progressInfo.currentSpending, currencyCode)}{" "}
+                            spent • {tierInfo.progressInfo.currentOrders}{" "}
+                            {tierInfo.progressInfo.currentOrders === 1 ? "order" : "orders"}
                           </Text>
                           <Text as="p" variant="bodySm" tone="subdued">
-                            $
-                            {tierInfo.progressInfo.remainingSpending.toFixed(
-                              2,
-                            )}{" "}
+                            {[
+                              tierInfo.progressInfo.remainingSpending !== null &&
+                                formatMoney(tierInfo.progressInfo.remainingSpending, currencyCode),
+                              tierInfo.progressInfo.remainingOrders !== null &&
+                                `${tierInfo.progressInfo.remainingOrders} ${tierInfo.progressInfo.remainingOrders === 1 ? "order" : "orders"}`,
+                            ]
+                              .filter(Boolean)
+                              .join(tierInfo.progressInfo.nextTier.criteriaOperator === "OR" ? " or " : " and ")}{" "}
                             to go
                           </Text>
                         </InlineStack>
@@ -490,6 +631,7 @@ export default function CustomerDetail() {
                           "numeric",
                           "numeric",
                           "text",
+                          "text",
                         ]}
                         headings={[
                           "Date",
@@ -498,31 +640,58 @@ export default function CustomerDetail() {
                           "Rate",
                           "Cashback",
                           "Status",
+                          "Shopify Sync",
                         ]}
                         rows={customer.transactions.map((t) => [
                           new Date(t.createdAt).toLocaleDateString(),
                           `#${t.shopifyOrderId}`,
-                          `$${t.orderAmount.toFixed(2)}`,
+                          formatMoney(t.orderAmount, currencyCode),
                           `${t.cashbackPercent}%`,
-                          <Text
-                            key={t.id}
-                            as="span"
-                            tone="success"
-                          >
-                            +${t.cashbackAmount.toFixed(2)}
-                          </Text>,
+                          <BlockStack key={t.id} gap="100">
+                            <Text as="span" tone="success">
+                              +{formatMoney(t.cashbackAmount, currencyCode)}
+                              {t.presentmentCurrency && t.presentmentCashbackAmount
+                                ? ` (${formatMoney(t.presentmentCashbackAmount, t.presentmentCurrency)})`
+                                : ""}
+                            </Text>
+                            {t.adjustments.map((a) => (
+                              <Text key={a.id} as="span" variant="bodySm" tone="subdued">
+                                Edited {new Date(a.createdAt).toLocaleDateString()}:{" "}
+                                {formatMoney(a.previousCashback, currencyCode)} →{" "}
+                                {formatMoney(a.newCashback, currencyCode)}
+                                {a.shopifySynced ? "" : " (not synced to Shopify)"}
+                              </Text>
+                            ))}
+                          </BlockStack>,
                           <Badge
                             key={`s-${t.id}`}
-                            tone={
-                              t.status === "SYNCED_TO_SHOPIFY"
-                                ? "success"
-                                : "info"
-                            }
+                            tone={formatTransactionStatus(t.status).tone}
                           >
-                            {t.status === "SYNCED_TO_SHOPIFY"
-                              ? "Synced"
-                              : "Completed"}
+                            {formatTransactionStatus(t.status).label}
                           </Badge>,
+                          t.syncAttempts > 0 ? (
+                            <BlockStack key={`r-${t.id}`} gap="100">
+                              <Text as="span" variant="bodySm">
+                                {t.syncAttempts} {t.syncAttempts === 1 ? "attempt" : "attempts"}
+                              </Text>
+                              {t.lastSyncError && (
+                                <Text as="span" variant="bodySm" tone="critical">
+                                  {t.lastSyncError}
+                                </Text>
+                              )}
+                              {t.status === "SHOPIFY_SYNC_FAILED" && (
+                                <Form method="post">
+                                  <input type="hidden" name="actionType" value="retrySync" />
+                                  <input type="hidden" name="transactionId" value={t.id} />
+                                  <Button submit size="slim" loading={isSyncing}>
+                                    Retry
+                                  </Button>
+                                </Form>
+                              )}
+                            </BlockStack>
+                          ) : (
+                            "—"
+                          ),
                         ])}
                       />
                     ) : (
@@ -563,13 +732,13 @@ export default function CustomerDetail() {
                             key={`a-${e.id}`}
                             as="span"
                             tone={
-                              e.amount >= 0 ? "success" : "critical"
+                              moneyToNumber(e.amount) >= 0 ? "success" : "critical"
                             }
                           >
-                            {e.amount >= 0 ? "+" : ""}
-                            {e.amount.toFixed(2)}
+                            {moneyToNumber(e.amount) >= 0 ? "+" : ""}
+                            {formatMoney(e.amount, currencyCode)}
                           </Text>,
-                          `$${e.balance.toFixed(2)}`,
+                          formatMoney(e.balance, currencyCode),
                           e.description || "—",
                         ])}
                       />
@@ -588,6 +757,3 @@ export default function CustomerDetail() {
     </Page>
   );
 }
-
-// Need Button import for the sync form
-import { Button } from "@shopify/polaris";
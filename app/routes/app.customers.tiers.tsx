@@ -27,11 +27,13 @@ import {
 } from "@shopify/polaris";
 import { useState, useCallback, useEffect } from "react";
 import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { formatMoney, moneyToNumber } from "../utils/money";
 import prisma from "../db.server";
-import { TransactionStatus } from "@prisma/client";
 import {
   assignTierManually,
   evaluateCustomerTier,
+  COUNTED_TRANSACTIONS,
 } from "../services/customer-tier.server";
 import { HeroMetric } from "../components/HeroMetric";
 
@@ -104,7 +106,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       }),
     ]).then(([agg, withCredit, tiered]) => ({
       totalCustomers: agg._count,
-      totalCredit: agg._sum.storeCredit || 0,
+      totalCredit: moneyToNumber(agg._sum.storeCredit),
       withCredit,
       withTiers: tiered.length,
     })),
@@ -123,12 +125,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       where: {
         customerId: { in: customerIds },
         createdAt: { gte: oneYearAgo },
-        status: { in: [TransactionStatus.COMPLETED, TransactionStatus.SYNCED_TO_SHOPIFY] },
+        ...COUNTED_TRANSACTIONS,
       },
       _sum: { orderAmount: true },
     });
     for (const r of results) {
-      spendingByCustomer[r.customerId] = r._sum.orderAmount || 0;
+      spendingByCustomer[r.customerId] = moneyToNumber(r._sum.orderAmount);
     }
   }
 
@@ -138,8 +140,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       id: c.id,
       email: c.email,
       shopifyCustomerId: c.shopifyCustomerId,
-      storeCredit: c.storeCredit,
-      totalEarned: c.totalEarned,
+      storeCredit: moneyToNumber(c.storeCredit),
+      totalEarned: moneyToNumber(c.totalEarned),
       tierName: m?.tier?.name ?? null,
       tierCashbackPercent: m?.tier?.cashbackPercent ?? null,
       tierId: m?.tier?.id ?? null,
@@ -148,8 +150,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     };
   });
 
+  const { currencyCode } = await getShopSettings(shopDomain);
+
   return json({
     customers: rows,
+    currencyCode,
     tiers,
     heroStats,
     pagination: {
@@ -190,12 +195,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   return json({ success: false, error: "Unknown action" });
 };
 
-function formatCurrency(n: number) {
-  return `$${n.toFixed(2)}`;
-}
-
 export default function Customers() {
-  const { customers, tiers, heroStats, pagination, filters } =
+  const { customers, tiers, heroStats, pagination, filters, currencyCode } =
     useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
@@ -263,7 +264,7 @@ export default function Customers() {
         <Layout.Section>
           <HeroMetric
             label="Total Store Credit Outstanding"
-            value={formatCurrency(heroStats.totalCredit)}
+            value={formatMoney(heroStats.totalCredit, currencyCode)}
             aside={[
               { label: "Customers", value: String(heroStats.totalCustomers) },
               { label: "With Credit", value: String(heroStats.withCredit) },
@@ -356,12 +357,12 @@ export default function Customers() {
                       fontWeight={c.storeCredit > 0 ? "semibold" : "regular"}
                       tone={c.storeCredit > 0 ? "success" : "subdued"}
                     >
-                      {formatCurrency(c.storeCredit)}
+                      {formatMoney(c.storeCredit, currencyCode)}
                     </Text>
                   </IndexTable.Cell>
                   <IndexTable.Cell>
                     <Text as="span" alignment="end">
-                      {formatCurrency(c.annualSpending)}
+                      {formatMoney(c.annualSpending, currencyCode)}
                     </Text>
                   </IndexTable.Cell>
 
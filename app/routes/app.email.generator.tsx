@@ -146,7 +146,8 @@ interface GeneratedEmail {
 }
 
 // Type for serialized template from JSON response
-type SerializedEmailTemplate = Omit<PrismaEmailTemplate, 'createdAt' | 'updatedAt'> & {
+type SerializedEmailTemplate = Omit<PrismaEmailTemplate, 'minBalance' | 'createdAt' | 'updatedAt'> & {
+  minBalance: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -229,6 +230,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // Convert dates to strings for JSON serialization
   const serializedTemplates: SerializedEmailTemplate[] = templates.map(template => ({
     ...template,
+    minBalance: template.minBalance?.toString() ?? null,
     createdAt: template.createdAt.toISOString(),
     updatedAt: template.updatedAt.toISOString(),
   }));
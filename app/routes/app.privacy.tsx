@@ -0,0 +1,201 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { useEffect } from "react";
+import { GdprTopic } from "@prisma/client";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Button,
+  BlockStack,
+  InlineStack,
+  Text,
+  Badge,
+  EmptyState,
+} from "@shopify/polaris";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const requests = await prisma.gdprRequest.findMany({
+    where: { shopDomain: session.shop },
+    orderBy: { createdAt: "desc" },
+    take: 100,
+    select: {
+      id: true,
+      topic: true,
+      shopifyCustomerId: true,
+      dataRequestId: true,
+      status: true,
+      summary: true,
+      error: true,
+      processedAt: true,
+      createdAt: true,
+    },
+  });
+
+  return json({ requests });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  const gdprRequest = await prisma.gdprRequest.findFirst({
+    where: {
+      id: formData.get("requestId") as string,
+      shopDomain: session.shop,
+      topic: GdprTopic.CUSTOMERS_DATA_REQUEST,
+    },
+    select: { id: true, shopifyCustomerId: true, exportData: true },
+  });
+
+  if (!gdprRequest?.exportData) {
+    return json({ success: false as const, error: "No export available for this request" });
+  }
+
+  return json({
+    success: true as const,
+    fileName: `customer-${gdprRequest.shopifyCustomerId}-data.json`,
+    exportData: gdprRequest.exportData,
+  });
+}
+
+const STATUS_TONES: Record<string, "success" | "attention" | "info" | undefined> = {
+  PENDING: "info",
+  COMPLETED: "success",
+  FAILED: "attention",
+};
+
+const formatTopic = (topic: string) => topic.toLowerCase().replace("_", "/");
+
+const formatSummary = (summary: unknown) =>
+  summary && typeof summary === "object"
+    ? Object.entries(summary as Record<string, unknown>)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join(", ")
+    : "—";
+
+export default function Privacy() {
+  const { requests } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+
+  // Hand the export to the merchant as a file so they can forward it to the customer
+  useEffect(() => {
+    if (fetcher.data?.success) {
+      const blob = new Blob([JSON.stringify(fetcher.data.exportData, null, 2)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fetcher.data.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    }
+  }, [fetcher.data]);
+
+  const download = (requestId: string) => {
+    fetcher.submit({ requestId }, { method: "post" });
+  };
+
+  return (
+    <Page title="Privacy Requests" backAction={{ url: "/app" }}>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="200">
+              <Text as="p">
+                Shopify forwards customer data requests and erasure requests here. Erasures run
+                automatically within the hour; cashback and store credit history is kept without
+                personal details.
+              </Text>
+              {fetcher.data && !fetcher.data.success && (
+                <Text as="p" tone="critical">{fetcher.data.error}</Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          {requests.length === 0 ? (
+            <Card>
+              <EmptyState
+                heading="No privacy requests"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <p>Customer data requests and erasures from Shopify will appear here</p>
+              </EmptyState>
+            </Card>
+          ) : (
+            <Card padding="0">
+              <IndexTable
+                resourceName={{ singular: "request", plural: "requests" }}
+                itemCount={requests.length}
+                headings={[
+                  { title: "Request" },
+                  { title: "Customer" },
+                  { title: "Status" },
+                  { title: "Records" },
+                  { title: "Received" },
+                  { title: "Processed" },
+                  { title: "", alignment: "end" },
+                ]}
+                selectable={false}
+              >
+                {requests.map((req, i) => (
+                  <IndexTable.Row id={req.id} key={req.id} position={i}>
+                    <IndexTable.Cell>
+                      <BlockStack gap="100">
+                        <Text as="span">{formatTopic(req.topic)}</Text>
+                        {req.dataRequestId && (
+                          <Text as="span" variant="bodySm" tone="subdued">#{req.dataRequestId}</Text>
+                        )}
+                      </BlockStack>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{req.shopifyCustomerId || "—"}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <BlockStack gap="100">
+                        <Badge tone={STATUS_TONES[req.status]}>{req.status.toLowerCase()}</Badge>
+                        {req.error && (
+                          <Text as="span" variant="bodySm" tone="critical">{req.error}</Text>
+                        )}
+                      </BlockStack>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" variant="bodySm" tone="subdued">{formatSummary(req.summary)}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{new Date(req.createdAt).toLocaleString()}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {req.processedAt ? new Date(req.processedAt).toLocaleString() : "—"}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <InlineStack align="end">
+                        {req.topic === GdprTopic.CUSTOMERS_DATA_REQUEST && req.processedAt && (
+                          <Button
+                            size="slim"
+                            onClick={() => download(req.id)}
+                            loading={fetcher.state !== "idle" && fetcher.formData?.get("requestId") === req.id}
+                          >
+                            Download
+                          </Button>
+                        )}
+                      </InlineStack>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            </Card>
+          )}
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
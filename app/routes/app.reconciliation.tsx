@@ -0,0 +1,269 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+  useActionData,
+  Link,
+} from "@remix-run/react";
+import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { formatMoney, toMoney, type MoneyInput } from "../utils/money";
+import prisma from "../db.server";
+import { useState, useEffect } from "react";
+import { ReconciliationStatus } from "@prisma/client";
+import {
+  startReconciliationRun,
+  processReconciliationRun,
+} from "../services/reconciliation.server";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  DataTable,
+  BlockStack,
+  Text,
+  Banner,
+  Badge,
+  EmptyState,
+} from "@shopify/polaris";
+import { HeroMetric } from "../components/HeroMetric";
+
+interface Discrepancy {
+  customerId: string;
+  email: string | null;
+  localBalance: number;
+  shopifyBalance: number;
+  drift: number;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+
+  // Refresh an in-progress run so the page shows results as soon as they exist
+  const active = await prisma.reconciliationRun.findFirst({
+    where: { shopDomain: session.shop, status: ReconciliationStatus.RUNNING },
+  });
+  if (active) {
+    await processReconciliationRun(active.id, admin);
+  }
+
+  const [runs, liability] = await Promise.all([
+    prisma.reconciliationRun.findMany({
+      where: { shopDomain: session.shop },
+      orderBy: { startedAt: "desc" },
+      take: 20,
+    }),
+    prisma.customer.aggregate({
+      where: { shopDomain: session.shop },
+      _sum: { storeCredit: true },
+    }),
+  ]);
+
+  const { currencyCode } = await getShopSettings(session.shop);
+
+  return json({
+    runs,
+    currentLiability: liability._sum.storeCredit || 0,
+    currencyCode,
+  });
+}
+
+type ActionResponse =
+  | { success: true; message?: string }
+  | { success: false; error: string };
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  if (formData.get("_action") !== "start") {
+    return json<ActionResponse>({ success: false, error: "Unknown action" });
+  }
+
+  try {
+    const run = await startReconciliationRun(session.shop, admin);
+    if (run.status === ReconciliationStatus.FAILED) {
+      return json<ActionResponse>({ success: false, error: run.error || "Reconciliation failed to start" });
+    }
+    return json<ActionResponse>({
+      success: true,
+      message: "Reconciliation started. Results appear once Shopify finishes exporting balances.",
+    });
+  } catch (error) {
+    return json<ActionResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : "An error occurred",
+    });
+  }
+}
+
+const formatDrift = (amount: MoneyInput, currencyCode: string) =>
+  `${toMoney(amount).greaterThan(0) ? "+" : ""}${formatMoney(amount, currencyCode)}`;
+
+const STATUS_TONES: Record<string, "success" | "info" | "critical"> = {
+  RUNNING: "info",
+  COMPLETED: "success",
+  FAILED: "critical",
+};
+
+export default function Reconciliation() {
+  const { runs, currentLiability, currencyCode } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [bannerVisible, setBannerVisible] = useState(false);
+
+  const isSubmitting = navigation.state === "submitting";
+  const isRunning = runs.some((r) => r.status === ReconciliationStatus.RUNNING);
+  const latest = runs.find((r) => r.status === ReconciliationStatus.COMPLETED);
+  const discrepancies = (latest?.discrepancies as unknown as Discrepancy[] | null) || [];
+
+  useEffect(() => {
+    if (actionData) {
+      setBannerVisible(true);
+      if (actionData.success) {
+        const t = setTimeout(() => setBannerVisible(false), 5000);
+        return () => clearTimeout(t);
+      }
+    }
+  }, [actionData]);
+
+  return (
+    <Page
+      title="Store Credit Reconciliation"
+      backAction={{ url: "/app" }}
+      primaryAction={{
+        content: isRunning ? "Running..." : "Run Reconciliation",
+        disabled: isRunning,
+        loading: isSubmitting,
+        onAction: () => {
+          const fd = new FormData();
+          fd.append("_action", "start");
+          submit(fd, { method: "post" });
+        },
+      }}
+    >
+      <Layout>
+        {bannerVisible && actionData && (
+          <Layout.Section>
+            <Banner
+              tone={actionData.success ? "success" : "critical"}
+              onDismiss={() => setBannerVisible(false)}
+            >
+              {"message" in actionData ? actionData.message : "error" in actionData ? actionData.error : ""}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <HeroMetric
+            label="Store Credit Liability"
+            value={formatMoney(currentLiability, currencyCode)}
+            aside={
+              latest
+                ? [
+                    { label: "Shopify (last run)", value: formatMoney(latest.shopifyTotal, currencyCode) },
+                    { label: "Net Drift", value: formatDrift(latest.totalDrift, currencyCode) },
+                    { label: "Adjusted", value: String(latest.customersAdjusted) },
+                  ]
+                : []
+            }
+          />
+        </Layout.Section>
+
+        {latest && discrepancies.length > 0 && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Corrections from {new Date(latest.completedAt!).toLocaleString()}
+                </Text>
+                <DataTable
+                  columnContentTypes={["text", "numeric", "numeric", "numeric"]}
+                  headings={["Customer", "Local", "Shopify", "Drift"]}
+                  rows={discrepancies.map((d) => [
+                    <Link key={d.customerId} to={`/app/customers/${d.customerId}`}>
+                      {d.email || d.customerId}
+                    </Link>,
+                    formatMoney(d.localBalance, currencyCode),
+                    formatMoney(d.shopifyBalance, currencyCode),
+                    formatDrift(d.drift, currencyCode),
+                  ])}
+                />
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          {runs.length === 0 ? (
+            <Card>
+              <EmptyState
+                heading="No reconciliation runs yet"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <p>Compare every customer's balance with their Shopify store credit account</p>
+              </EmptyState>
+            </Card>
+          ) : (
+            <Card padding="0">
+              <IndexTable
+                resourceName={{ singular: "run", plural: "runs" }}
+                itemCount={runs.length}
+                headings={[
+                  { title: "Started" },
+                  { title: "Status" },
+                  { title: "Checked", alignment: "end" },
+                  { title: "Adjusted", alignment: "end" },
+                  { title: "Skipped", alignment: "end" },
+                  { title: "Local Total", alignment: "end" },
+                  { title: "Shopify Total", alignment: "end" },
+                  { title: "Net Drift", alignment: "end" },
+                ]}
+                selectable={false}
+              >
+                {runs.map((run, i) => (
+                  <IndexTable.Row id={run.id} key={run.id} position={i}>
+                    <IndexTable.Cell>{new Date(run.startedAt).toLocaleString()}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <BlockStack gap="100">
+                        <Badge tone={STATUS_TONES[run.status]}>{run.status.toLowerCase()}</Badge>
+                        {run.error && (
+                          <Text as="span" variant="bodySm" tone="critical">{run.error}</Text>
+                        )}
+                      </BlockStack>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end">{run.customersChecked}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end">{run.customersAdjusted}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end">{run.customersSkipped}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end">{formatMoney(run.localTotal, currencyCode)}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end">{formatMoney(run.shopifyTotal, currencyCode)}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end">{formatDrift(run.totalDrift, currencyCode)}</Text>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            </Card>
+          )}
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
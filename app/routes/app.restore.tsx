@@ -0,0 +1,222 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+  useActionData,
+} from "@remix-run/react";
+import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { formatMoney } from "../utils/money";
+import prisma from "../db.server";
+import { useState } from "react";
+import { InstallationStatus } from "@prisma/client";
+import {
+  getShopInstallation,
+  restorePreviousProgram,
+  startFreshProgram,
+} from "../services/shop-installation.server";
+import {
+  Page,
+  Layout,
+  Card,
+  Button,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  Text,
+  Banner,
+  Modal,
+} from "@shopify/polaris";
+import { StatCard } from "../components/StatCard";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, redirect } = await authenticate.admin(request);
+  const shopDomain = session.shop;
+
+  const installation = await getShopInstallation(shopDomain);
+  if (installation?.status !== InstallationStatus.PENDING_RESTORE) {
+    throw redirect("/app");
+  }
+
+  const [customers, tiers, balances, lastTransaction, settings] = await Promise.all([
+    prisma.customer.count({ where: { shopDomain } }),
+    prisma.tier.count({ where: { shopDomain, isActive: true } }),
+    prisma.customer.aggregate({
+      where: { shopDomain },
+      _sum: { storeCredit: true },
+    }),
+    prisma.cashbackTransaction.findFirst({
+      where: { shopDomain },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    }),
+    getShopSettings(shopDomain),
+  ]);
+
+  return json({
+    uninstalledAt: installation.uninstalledAt,
+    customers,
+    tiers,
+    outstandingCredit: balances._sum.storeCredit || 0,
+    currencyCode: settings.currencyCode,
+    lastActivity: lastTransaction?.createdAt || null,
+  });
+}
+
+type ActionResponse = { success: false; error: string };
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session, redirect } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("_action");
+
+  try {
+    if (action === "restore") {
+      await restorePreviousProgram(session.shop, admin);
+      return redirect("/app/reconciliation");
+    }
+
+    if (action === "startFresh") {
+      await startFreshProgram(session.shop);
+      return redirect("/app");
+    }
+
+    return json<ActionResponse>({ success: false, error: "Unknown action" });
+  } catch (error) {
+    console.error("Restore action error:", error);
+    return json<ActionResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : "An error occurred",
+    });
+  }
+}
+
+export default function RestoreProgram() {
+  const { uninstalledAt, customers, tiers, outstandingCredit, lastActivity, currencyCode } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [confirmFresh, setConfirmFresh] = useState(false);
+
+  const isSubmitting = navigation.state === "submitting";
+  const pendingAction = navigation.formData?.get("_action");
+
+  const choose = (choice: "restore" | "startFresh") => {
+    const fd = new FormData();
+    fd.append("_action", choice);
+    submit(fd, { method: "post" });
+  };
+
+  return (
+    <Page title="Welcome back">
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">{actionData.error}</Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                Your previous rewards program is still here
+              </Text>
+              <Text as="p" tone="subdued">
+                The app was uninstalled
+                {uninstalledAt ? ` on ${new Date(uninstalledAt).toLocaleDateString()}` : ""}.
+                Choose whether to pick up where you left off or begin with an empty program.
+                Background jobs stay paused until you decide.
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <InlineGrid columns={{ xs: 1, md: 4 }} gap="400">
+            <StatCard title="Customers" value={customers.toLocaleString()} />
+            <StatCard title="Active Tiers" value={String(tiers)} />
+            <StatCard title="Outstanding Credit" value={formatMoney(outstandingCredit, currencyCode)} />
+            <StatCard
+              title="Last Cashback"
+              value={lastActivity ? new Date(lastActivity).toLocaleDateString() : "—"}
+            />
+          </InlineGrid>
+        </Layout.Section>
+
+        <Layout.Section variant="oneHalf">
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h3" variant="headingSm">Restore previous program</Text>
+              <Text as="p" tone="subdued">
+                Keeps customers, tiers, balances and email templates. Balances are reconciled
+                against Shopify store credit, which may have changed while the app was away.
+              </Text>
+              <InlineStack align="end">
+                <Button
+                  variant="primary"
+                  onClick={() => choose("restore")}
+                  loading={isSubmitting && pendingAction === "restore"}
+                  disabled={isSubmitting}
+                >
+                  Restore program
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneHalf">
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h3" variant="headingSm">Start fresh</Text>
+              <Text as="p" tone="subdued">
+                Permanently deletes the previous program. Store credit already issued in
+                Shopify is not touched.
+              </Text>
+              <InlineStack align="end">
+                <Button
+                  tone="critical"
+                  onClick={() => setConfirmFresh(true)}
+                  loading={isSubmitting && pendingAction === "startFresh"}
+                  disabled={isSubmitting}
+                >
+                  Start fresh
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+
+      <Modal
+        open={confirmFresh}
+        onClose={() => setConfirmFresh(false)}
+        title="Delete the previous program?"
+        primaryAction={{
+          content: "Delete and start fresh",
+          destructive: true,
+          onAction: () => {
+            setConfirmFresh(false);
+            choose("startFresh");
+          },
+        }}
+        secondaryActions={[{ content: "Cancel", onAction: () => setConfirmFresh(false) }]}
+      >
+        <Modal.Section>
+          <Text as="p">
+            {customers.toLocaleString()} customers, their cashback history and{" "}
+            {formatMoney(outstandingCredit, currencyCode)} of tracked credit will be removed. This cannot be
+            undone.
+          </Text>
+        </Modal.Section>
+      </Modal>
+    </Page>
+  );
+}
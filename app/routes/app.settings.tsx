@@ -0,0 +1,328 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  useLoaderData,
+  Form,
+  useNavigation,
+  useActionData,
+} from "@remix-run/react";
+import { authenticate } from "../shopify.server";
+import { formatMoney, moneyToNumber } from "../utils/money";
+import prisma from "../db.server";
+import { useState, useEffect } from "react";
+import {
+  getShopSettings,
+  updateShopSettings,
+} from "../services/shop-settings.server";
+import { CashbackHold, TransactionStatus } from "@prisma/client";
+import {
+  Page,
+  Layout,
+  Card,
+  Button,
+  TextField,
+  BlockStack,
+  InlineStack,
+  Text,
+  Banner,
+  FormLayout,
+  Checkbox,
+  Select,
+} from "@shopify/polaris";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const [settings, openLots, held] = await Promise.all([
+    getShopSettings(session.shop),
+    prisma.creditLot.aggregate({
+      where: { shopDomain: session.shop, remaining: { gt: 0 }, expiredAt: null },
+      _sum: { remaining: true },
+      _min: { expiresAt: true },
+    }),
+    prisma.cashbackTransaction.aggregate({
+      where: { shopDomain: session.shop, status: TransactionStatus.HELD },
+      _sum: { cashbackAmount: true },
+      _count: true,
+    }),
+  ]);
+
+  return json({
+    settings,
+    expiringCredit: openLots._sum.remaining || 0,
+    nextExpiry: openLots._min.expiresAt,
+    heldCashback: held._sum.cashbackAmount || 0,
+    heldOrders: held._count,
+  });
+}
+
+type ActionResponse =
+  | { success: true; message?: string }
+  | { success: false; error: string };
+
+function parseOptionalInt(value: FormDataEntryValue | null): number | null {
+  const text = (value as string | null)?.trim();
+  return text ? parseInt(text, 10) : null;
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  try {
+    const creditLifetimeMonths = parseOptionalInt(formData.get("creditLifetimeMonths"));
+    const expiryWarningDays = parseOptionalInt(formData.get("expiryWarningDays")) ?? 0;
+    const cashbackHold = Object.values(CashbackHold).find((hold) => hold === formData.get("cashbackHold"))
+      ?? CashbackHold.NONE;
+    const cashbackHoldDays = parseOptionalInt(formData.get("cashbackHoldDays")) ?? 14;
+    const guestClaimDays = parseOptionalInt(formData.get("guestClaimDays")) ?? 90;
+
+    if (creditLifetimeMonths !== null && (isNaN(creditLifetimeMonths) || creditLifetimeMonths < 1)) {
+      return json<ActionResponse>({ success: false, error: "Credit lifetime must be at least 1 month" });
+    }
+    if (isNaN(expiryWarningDays) || expiryWarningDays < 0) {
+      return json<ActionResponse>({ success: false, error: "Warning days cannot be negative" });
+    }
+    if (isNaN(cashbackHoldDays) || cashbackHoldDays < 1) {
+      return json<ActionResponse>({ success: false, error: "Hold period must be at least 1 day" });
+    }
+    if (isNaN(guestClaimDays) || guestClaimDays < 1) {
+      return json<ActionResponse>({ success: false, error: "Claim window must be at least 1 day" });
+    }
+
+    await updateShopSettings(session.shop, {
+      creditLifetimeMonths,
+      expiryWarningDays,
+      enrollOnProxyVisit: formData.get("enrollOnProxyVisit") === "on",
+      cashbackHold,
+      cashbackHoldDays,
+      guestClaimDays,
+    });
+
+    return json<ActionResponse>({ success: true, message: "Settings saved" });
+  } catch (error) {
+    console.error("Settings action error:", error);
+    return json<ActionResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : "An error occurred",
+    });
+  }
+}
+
+export default function Settings() {
+  const { settings, expiringCredit, nextExpiry, heldCashback, heldOrders } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [bannerVisible, setBannerVisible] = useState(false);
+
+  const [lifetime, setLifetime] = useState(
+    settings.creditLifetimeMonths ? String(settings.creditLifetimeMonths) : ""
+  );
+  const [warningDays, setWarningDays] = useState(String(settings.expiryWarningDays));
+  const [enrollOnVisit, setEnrollOnVisit] = useState(settings.enrollOnProxyVisit);
+  const [hold, setHold] = useState<string>(settings.cashbackHold);
+  const [holdDays, setHoldDays] = useState(String(settings.cashbackHoldDays));
+  const [claimDays, setClaimDays] = useState(String(settings.guestClaimDays));
+
+  const isSubmitting = navigation.state === "submitting";
+
+  useEffect(() => {
+    if (actionData) {
+      setBannerVisible(true);
+      if (actionData.success) {
+        const t = setTimeout(() => setBannerVisible(false), 5000);
+        return () => clearTimeout(t);
+      }
+    }
+  }, [actionData]);
+
+  return (
+    <Page title="Settings" backAction={{ url: "/app" }}>
+      <Layout>
+        {bannerVisible && actionData && (
+          <Layout.Section>
+            <Banner
+              tone={actionData.success ? "success" : "critical"}
+              onDismiss={() => setBannerVisible(false)}
+            >
+              {"message" in actionData ? actionData.message : "error" in actionData ? actionData.error : ""}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.AnnotatedSection
+          title="Credit expiry"
+          description="Earned cashback expires after its lifetime. Customers spend their soonest-expiring credit first."
+        >
+          <Card>
+            <Form method="post">
+              {enrollOnVisit && <input type="hidden" name="enrollOnProxyVisit" value="on" />}
+              <input type="hidden" name="cashbackHold" value={hold} />
+              <input type="hidden" name="cashbackHoldDays" value={holdDays} />
+              <input type="hidden" name="guestClaimDays" value={claimDays} />
+              <BlockStack gap="400">
+                <FormLayout>
+                  <TextField
+                    label="Credit lifetime (months)"
+                    name="creditLifetimeMonths"
+                    type="number"
+                    min={1}
+                    value={lifetime}
+                    onChange={setLifetime}
+                    placeholder="Never expires"
+                    helpText="Applies to cashback earned after the change. Leave empty to keep credit forever."
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="Expiry warning (days before)"
+                    name="expiryWarningDays"
+                    type="number"
+                    min={0}
+                    value={warningDays}
+                    onChange={setWarningDays}
+                    helpText="Sends the credit expiry warning email. Set to 0 to disable."
+                    autoComplete="off"
+                  />
+                </FormLayout>
+                {moneyToNumber(expiringCredit) > 0 && (
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {formatMoney(expiringCredit, settings.currencyCode)} of earned credit is outstanding
+                    {nextExpiry ? `, next expiry ${new Date(nextExpiry).toLocaleDateString()}` : ""}.
+                  </Text>
+                )}
+                <InlineStack align="end">
+                  <Button submit variant="primary" loading={isSubmitting}>
+                    Save
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Form>
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="Return window"
+          description="Hold new cashback as pending so it can't be spent before the order could still be returned. Refunds and cancellations during the hold cancel it."
+        >
+          <Card>
+            <Form method="post">
+              <input type="hidden" name="creditLifetimeMonths" value={lifetime} />
+              <input type="hidden" name="expiryWarningDays" value={warningDays} />
+              {enrollOnVisit && <input type="hidden" name="enrollOnProxyVisit" value="on" />}
+              <input type="hidden" name="guestClaimDays" value={claimDays} />
+              <BlockStack gap="400">
+                <FormLayout>
+                  <Select
+                    label="Release cashback"
+                    name="cashbackHold"
+                    options={[
+                      { label: "Immediately when paid", value: CashbackHold.NONE },
+                      { label: "After a number of days", value: CashbackHold.DAYS },
+                      { label: "When the order is fulfilled", value: CashbackHold.UNTIL_FULFILLED },
+                    ]}
+                    value={hold}
+                    onChange={setHold}
+                  />
+                  {hold === CashbackHold.DAYS ? (
+                    <TextField
+                      label="Hold period (days)"
+                      name="cashbackHoldDays"
+                      type="number"
+                      min={1}
+                      value={holdDays}
+                      onChange={setHoldDays}
+                      helpText="Counted from payment. Match your return policy, e.g. 14 or 30."
+                      autoComplete="off"
+                    />
+                  ) : (
+                    <input type="hidden" name="cashbackHoldDays" value={holdDays} />
+                  )}
+                </FormLayout>
+                {heldOrders > 0 && (
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {formatMoney(heldCashback, settings.currencyCode)} of cashback from {heldOrders}{" "}
+                    {heldOrders === 1 ? "order is" : "orders are"} pending release.
+                  </Text>
+                )}
+                <InlineStack align="end">
+                  <Button submit variant="primary" loading={isSubmitting}>
+                    Save
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Form>
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="Guest checkouts"
+          description="Guest orders earn cashback the buyer can claim by creating an account with the same email and verifying it."
+        >
+          <Card>
+            <Form method="post">
+              <input type="hidden" name="creditLifetimeMonths" value={lifetime} />
+              <input type="hidden" name="expiryWarningDays" value={warningDays} />
+              {enrollOnVisit && <input type="hidden" name="enrollOnProxyVisit" value="on" />}
+              <input type="hidden" name="cashbackHold" value={hold} />
+              <input type="hidden" name="cashbackHoldDays" value={holdDays} />
+              <BlockStack gap="400">
+                <FormLayout>
+                  <TextField
+                    label="Claim window (days)"
+                    name="guestClaimDays"
+                    type="number"
+                    min={1}
+                    value={claimDays}
+                    onChange={setClaimDays}
+                    helpText="Counted from the order date. Applies to guest orders placed after the change."
+                    autoComplete="off"
+                  />
+                </FormLayout>
+                <InlineStack align="space-between" blockAlign="center">
+                  <Button url="/app/unclaimed-cashback" variant="plain">
+                    View unclaimed cashback
+                  </Button>
+                  <Button submit variant="primary" loading={isSubmitting}>
+                    Save
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Form>
+          </Card>
+        </Layout.AnnotatedSection>
+
+        <Layout.AnnotatedSection
+          title="Storefront"
+          description="How the rewards widget treats logged-in customers who have not ordered yet."
+        >
+          <Card>
+            <Form method="post">
+              <input type="hidden" name="creditLifetimeMonths" value={lifetime} />
+              <input type="hidden" name="expiryWarningDays" value={warningDays} />
+              <input type="hidden" name="cashbackHold" value={hold} />
+              <input type="hidden" name="cashbackHoldDays" value={holdDays} />
+              <input type="hidden" name="guestClaimDays" value={claimDays} />
+              <BlockStack gap="400">
+                <Checkbox
+                  label="Enrol customers on their first visit"
+                  name="enrollOnProxyVisit"
+                  checked={enrollOnVisit}
+                  onChange={setEnrollOnVisit}
+                  helpText="When off, new customers see a preview of your base tier and join with their first paid order."
+                />
+                <InlineStack align="end">
+                  <Button submit variant="primary" loading={isSubmitting}>
+                    Save
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Form>
+          </Card>
+        </Layout.AnnotatedSection>
+      </Layout>
+    </Page>
+  );
+}
@@ -11,14 +11,38 @@ import {
   useActionData,
 } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { formatMoney } from "../utils/money";
 import prisma from "../db.server";
 import { useState, useEffect } from "react";
-import { EvaluationPeriod } from "@prisma/client";
+import {
+  DowngradeProtection,
+  EvaluationPeriod,
+  TierCriteriaOperator,
+  TierEvaluationStatus,
+  type Prisma,
+} from "@prisma/client";
 import {
   getTierDistribution,
-  batchEvaluateCustomerTiers,
+  getLastTierEvaluationRun,
+  runTierEvaluation,
   handleExpiredMemberships,
 } from "../services/customer-tier.server";
+import {
+  markTierForSync,
+  removeTierBenefits,
+  syncTierBenefits,
+} from "../services/tier-benefits.server";
+import type { AdminGraphQLClient } from "../services/store-credit.server";
+import { describeTierBenefits, parseTierBenefits } from "../utils/tier-benefits";
+import {
+  CRITERIA_OPERATOR_OPTIONS,
+  DOWNGRADE_PROTECTION_OPTIONS,
+  EVALUATION_PERIOD_OPTIONS,
+  describeDowngradeProtection,
+  describeEvaluationPeriod,
+  describeTierCriteria,
+} from "../utils/tier-criteria";
 import {
   Page,
   Layout,
@@ -37,26 +61,32 @@ import {
   FormLayout,
   Collapsible,
   Modal,
+  Checkbox,
 } from "@shopify/polaris";
 import { HeroMetric } from "../components/HeroMetric";
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const { session } = await authenticate.admin(request);
 
-  const [tierDistribution, totalCustomers, totalCashback] = await Promise.all([
+  const [tierDistribution, totalCustomers, totalCashback, lastRun] = await Promise.all([
     getTierDistribution(session.shop),
     prisma.customer.count({ where: { shopDomain: session.shop } }),
     prisma.cashbackTransaction.aggregate({
       where: { shopDomain: session.shop },
       _sum: { cashbackAmount: true },
     }),
+    getLastTierEvaluationRun(session.shop),
   ]);
 
   const tiers = tierDistribution || [];
   const totalMembers = tiers.reduce((s, t) => s + t.memberCount, 0);
 
+  const { currencyCode } = await getShopSettings(session.shop);
+
   return json({
     tiers,
+    currencyCode,
+    lastRun,
     hero: {
       totalMembers,
       totalCustomers,
@@ -70,8 +100,51 @@ type ActionResponse =
   | { success: true; message?: string }
   | { success: false; error: string };
 
+function readBenefits(formData: FormData) {
+  const number = (name: string) => parseFloat(formData.get(name) as string) || undefined;
+
+  return parseTierBenefits({
+    freeShipping: formData.get("freeShipping") === "true",
+    discountPercent: number("discountPercent"),
+    earlyAccessCollection: formData.get("earlyAccessCollection"),
+    birthdayBonus: number("birthdayBonus"),
+  }) as Prisma.InputJsonObject;
+}
+
+function readCriteria(formData: FormData) {
+  const wholeNumber = (name: string) => {
+    const value = parseInt(formData.get(name) as string, 10);
+    return Number.isNaN(value) ? null : Math.max(0, value);
+  };
+  const evaluationPeriod = (formData.get("evaluationPeriod") as EvaluationPeriod) || EvaluationPeriod.ANNUAL;
+
+  return {
+    minSpend: formData.get("minSpend") ? parseFloat(formData.get("minSpend") as string) : null,
+    minOrders: wholeNumber("minOrders"),
+    criteriaOperator: formData.get("criteriaOperator") === TierCriteriaOperator.OR
+      ? TierCriteriaOperator.OR
+      : TierCriteriaOperator.AND,
+    evaluationPeriod,
+    periodMonths: evaluationPeriod === EvaluationPeriod.ROLLING_MONTHS ? wholeNumber("periodMonths") || 12 : null,
+    manualOnly: formData.get("manualOnly") === "true",
+  };
+}
+
+function readProtection(formData: FormData) {
+  const downgradeProtection =
+    (formData.get("downgradeProtection") as DowngradeProtection) || DowngradeProtection.NONE;
+  const gracePeriodDays = parseInt(formData.get("gracePeriodDays") as string, 10);
+
+  return {
+    downgradeProtection,
+    gracePeriodDays: downgradeProtection === DowngradeProtection.GRACE_DAYS && gracePeriodDays > 0
+      ? gracePeriodDays
+      : null,
+  };
+}
+
 export async function action({ request }: ActionFunctionArgs) {
-  const { session } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const action = formData.get("_action");
 
@@ -79,7 +152,6 @@ export async function action({ request }: ActionFunctionArgs) {
     if (action === "create") {
       const name = formData.get("name") as string;
       const cashbackPercent = parseFloat(formData.get("cashbackPercent") as string);
-      const evaluationPeriod = formData.get("evaluationPeriod") as EvaluationPeriod;
 
       const exists = await prisma.tier.findFirst({
         where: { shopDomain: session.shop, name },
@@ -88,17 +160,18 @@ export async function action({ request }: ActionFunctionArgs) {
         return json<ActionResponse>({ success: false, error: "Name already exists" }, { status: 400 });
       }
 
-      await prisma.tier.create({
+      const tier = await prisma.tier.create({
         data: {
           shopDomain: session.shop,
           name,
-          minSpend: formData.get("minSpend") ? parseFloat(formData.get("minSpend") as string) : null,
+          ...readCriteria(formData),
+          ...readProtection(formData),
           cashbackPercent,
-          evaluationPeriod: evaluationPeriod || EvaluationPeriod.ANNUAL,
           isActive: true,
+          benefits: readBenefits(formData),
         },
       });
-      return json<ActionResponse>({ success: true, message: "Tier created" });
+      return json<ActionResponse>({ success: true, message: await pushBenefits(admin, tier.id, "Tier created") });
     }
 
     if (action === "update") {
@@ -120,13 +193,16 @@ export async function action({ request }: ActionFunctionArgs) {
         where: { id: tierId, shopDomain: session.shop },
         data: {
           name: name || current.name,
-          minSpend: formData.get("minSpend") ? parseFloat(formData.get("minSpend") as string) : null,
+          ...readCriteria(formData),
+          ...readProtection(formData),
           cashbackPercent: parseFloat(formData.get("cashbackPercent") as string),
-          evaluationPeriod: (formData.get("evaluationPeriod") as EvaluationPeriod) || current.evaluationPeriod,
           isActive: formData.get("isActive") === "true",
+          benefits: readBenefits(formData),
         },
       });
-      return json<ActionResponse>({ success: true, message: "Tier updated" });
+      // Members carry the tier's name and benefits in their metafield too
+      await markTierForSync(tierId);
+      return json<ActionResponse>({ success: true, message: await pushBenefits(admin, tierId, "Tier updated") });
     }
 
     if (action === "delete") {
@@ -135,13 +211,25 @@ export async function action({ request }: ActionFunctionArgs) {
       if (members > 0) {
         return json<ActionResponse>({ success: false, error: "Has active members" }, { status: 400 });
       }
+      const tier = await prisma.tier.findUnique({ where: { id: tierId, shopDomain: session.shop } });
+      if (!tier) return json<ActionResponse>({ success: false, error: "Not found" }, { status: 404 });
+
+      await removeTierBenefits(admin, tier);
       await prisma.tier.delete({ where: { id: tierId, shopDomain: session.shop } });
       return json<ActionResponse>({ success: true, message: "Tier deleted" });
     }
 
     if (action === "evaluateAll") {
-      const r = await batchEvaluateCustomerTiers(session.shop);
-      return json<ActionResponse>({ success: true, message: `${r.successful} of ${r.totalProcessed} evaluated` });
+      const run = await runTierEvaluation(session.shop, "Admin");
+      if (run.status === TierEvaluationStatus.FAILED) {
+        return json<ActionResponse>({ success: false, error: run.error || "Evaluation failed" }, { status: 500 });
+      }
+      return json<ActionResponse>({
+        success: true,
+        message: run.status === TierEvaluationStatus.RUNNING
+          ? "An evaluation is already running"
+          : `${run.customersEvaluated - run.failures} of ${run.customersEvaluated} evaluated, ${run.tiersChanged} changed`,
+      });
     }
 
     if (action === "handleExpired") {
@@ -155,12 +243,19 @@ export async function action({ request }: ActionFunctionArgs) {
   return json<ActionResponse>({ success: true });
 }
 
-function formatCurrency(n: number) {
-  return `$${n.toFixed(2)}`;
+// Push benefits straight away; the tier-benefits job retries anything that fails
+async function pushBenefits(admin: AdminGraphQLClient, tierId: string, message: string) {
+  try {
+    await syncTierBenefits(admin, tierId);
+    return message;
+  } catch (error) {
+    console.error(`Tier benefit sync failed for tier ${tierId}:`, error);
+    return `${message}. Shopify discounts will sync shortly.`;
+  }
 }
 
 export default function TierSettings() {
-  const { tiers, hero } = useLoaderData<typeof loader>();
+  const { tiers, hero, currencyCode, lastRun } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const fetcher = useFetcher();
@@ -173,6 +268,20 @@ export default function TierSettings() {
   const [editCashback, setEditCashback] = useState("");
   const [editMinSpend, setEditMinSpend] = useState("");
   const [editEvalPeriod, setEditEvalPeriod] = useState("ANNUAL");
+  const [editPeriodMonths, setEditPeriodMonths] = useState("");
+  const [editMinOrders, setEditMinOrders] = useState("");
+  const [editOperator, setEditOperator] = useState("AND");
+  const [editManualOnly, setEditManualOnly] = useState(false);
+  const [editProtection, setEditProtection] = useState("NONE");
+  const [editGraceDays, setEditGraceDays] = useState("");
+  const [editFreeShipping, setEditFreeShipping] = useState(false);
+  const [editDiscount, setEditDiscount] = useState("");
+  const [editEarlyAccess, setEditEarlyAccess] = useState("");
+  const [editBirthdayBonus, setEditBirthdayBonus] = useState("");
+  const [createFreeShipping, setCreateFreeShipping] = useState(false);
+  const [createEvalPeriod, setCreateEvalPeriod] = useState("ANNUAL");
+  const [createManualOnly, setCreateManualOnly] = useState(false);
+  const [createProtection, setCreateProtection] = useState("NONE");
 
   const isSubmitting = navigation.state === "submitting";
 
@@ -194,6 +303,17 @@ export default function TierSettings() {
       setEditCashback(String(editTier.cashbackPercent));
       setEditMinSpend(editTier.minSpend ? String(editTier.minSpend) : "");
       setEditEvalPeriod(editTier.evaluationPeriod || "ANNUAL");
+      setEditPeriodMonths(editTier.periodMonths ? String(editTier.periodMonths) : "");
+      setEditMinOrders(editTier.minOrders !== null ? String(editTier.minOrders) : "");
+      setEditOperator(editTier.criteriaOperator || "AND");
+      setEditManualOnly(!!editTier.manualOnly);
+      setEditProtection(editTier.downgradeProtection || "NONE");
+      setEditGraceDays(editTier.gracePeriodDays ? String(editTier.gracePeriodDays) : "");
+      const benefits = parseTierBenefits(editTier.benefits);
+      setEditFreeShipping(!!benefits.freeShipping);
+      setEditDiscount(benefits.discountPercent ? String(benefits.discountPercent) : "");
+      setEditEarlyAccess(benefits.earlyAccessCollection || "");
+      setEditBirthdayBonus(benefits.birthdayBonus ? String(benefits.birthdayBonus) : "");
     }
   }, [editTier]);
 
@@ -237,11 +357,48 @@ export default function TierSettings() {
             aside={[
               { label: "Tiers", value: String(hero.activeTiers) },
               { label: "Customers", value: String(hero.totalCustomers) },
-              { label: "Cashback Paid", value: formatCurrency(hero.totalCashback) },
+              { label: "Cashback Paid", value: formatMoney(hero.totalCashback, currencyCode) },
             ]}
           />
         </Layout.Section>
 
+        {/* Scheduled evaluation */}
+        <Layout.Section>
+          <Card>
+            <InlineStack align="space-between" blockAlign="center">
+              <BlockStack gap="100">
+                <Text as="h2" variant="headingSm">Nightly evaluation</Text>
+                <Text as="p" tone="subdued">
+                  {lastRun
+                    ? lastRun.status === "FAILED"
+                      ? `Last run ${new Date(lastRun.startedAt).toLocaleString()} failed: ${lastRun.error || "Unknown error"}`
+                      : `Last run ${new Date(lastRun.startedAt).toLocaleString()} by ${lastRun.triggeredBy}: ${lastRun.customersEvaluated} evaluated, ${lastRun.tiersChanged} changed, ${lastRun.expiredReverted} expired overrides reverted`
+                    : "Tiers are re-evaluated every night. No runs yet."}
+                </Text>
+              </BlockStack>
+              {lastRun && (
+                <Badge
+                  tone={
+                    lastRun.status === "FAILED" || lastRun.failures > 0
+                      ? "critical"
+                      : lastRun.status === "RUNNING"
+                        ? "info"
+                        : "success"
+                  }
+                >
+                  {lastRun.status === "COMPLETED" && lastRun.failures > 0
+                    ? `${lastRun.failures} failed`
+                    : lastRun.status === "RUNNING"
+                      ? "Running"
+                      : lastRun.status === "FAILED"
+                        ? "Failed"
+                        : "Completed"}
+                </Badge>
+              )}
+            </InlineStack>
+          </Card>
+        </Layout.Section>
+
         {/* Create Form */}
         <Layout.Section>
           <Collapsible open={showCreateForm} id="create-tier">
@@ -256,9 +413,43 @@ export default function TierSettings() {
                       <TextField label="Cashback %" name="cashbackPercent" type="number" requiredIndicator step={0.1} min={0} max={100} autoComplete="off" />
                     </FormLayout.Group>
                     <FormLayout.Group>
-                      <TextField label="Min Spend" name="minSpend" type="number" placeholder="None" min={0} step={0.01} helpText="Leave empty for base tier" autoComplete="off" />
-                      <Select label="Period" name="evaluationPeriod" options={[{ label: "12-month", value: "ANNUAL" }, { label: "Lifetime", value: "LIFETIME" }]} />
+                      <TextField label="Min Spend" name="minSpend" type="number" placeholder="None" min={0} step={0.01} helpText="Leave spend and orders empty for base tier" autoComplete="off" />
+                      <TextField label="Min Orders" name="minOrders" type="number" placeholder="None" min={0} step={1} autoComplete="off" />
+                      <Select label="Combine" name="criteriaOperator" options={CRITERIA_OPERATOR_OPTIONS} />
+                    </FormLayout.Group>
+                    <FormLayout.Group>
+                      <Select label="Period" name="evaluationPeriod" options={EVALUATION_PERIOD_OPTIONS} value={createEvalPeriod} onChange={setCreateEvalPeriod} />
+                      {createEvalPeriod === "ROLLING_MONTHS" && (
+                        <TextField label="Months" name="periodMonths" type="number" placeholder="12" min={1} step={1} autoComplete="off" />
+                      )}
                     </FormLayout.Group>
+                    <FormLayout.Group>
+                      <Select
+                        label="Downgrade Protection"
+                        name="downgradeProtection"
+                        options={DOWNGRADE_PROTECTION_OPTIONS}
+                        value={createProtection}
+                        onChange={setCreateProtection}
+                        helpText="How long members keep the tier after falling below it"
+                      />
+                      {createProtection === "GRACE_DAYS" && (
+                        <TextField label="Grace Days" name="gracePeriodDays" type="number" placeholder="30" min={1} step={1} autoComplete="off" />
+                      )}
+                    </FormLayout.Group>
+                    <input type="hidden" name="manualOnly" value={String(createManualOnly)} />
+                    <Checkbox
+                      label="Invite only"
+                      helpText="Customers are only added or removed by hand"
+                      checked={createManualOnly}
+                      onChange={setCreateManualOnly}
+                    />
+                    <FormLayout.Group>
+                      <TextField label="Member Discount %" name="discountPercent" type="number" placeholder="None" min={0} max={100} step={1} helpText="Automatic discount on every order" autoComplete="off" />
+                      <TextField label="Birthday Bonus" name="birthdayBonus" type="number" placeholder="None" min={0} step={0.01} helpText="Store credit on their birthday" autoComplete="off" />
+                      <TextField label="Early Access Collection" name="earlyAccessCollection" placeholder="None" helpText="Collection handle" autoComplete="off" />
+                    </FormLayout.Group>
+                    <input type="hidden" name="freeShipping" value={String(createFreeShipping)} />
+                    <Checkbox label="Free shipping" checked={createFreeShipping} onChange={setCreateFreeShipping} />
                   </FormLayout>
                   <InlineStack gap="200">
                     <Button submit variant="primary" loading={isSubmitting}>Create</Button>
@@ -290,8 +481,10 @@ export default function TierSettings() {
                 headings={[
                   { title: "Tier" },
                   { title: "Cashback" },
-                  { title: "Min Spend" },
+                  { title: "Qualifies" },
                   { title: "Period" },
+                  { title: "Protection" },
+                  { title: "Benefits" },
                   { title: "Members", alignment: "end" },
                   { title: "Avg Yearly", alignment: "end" },
                   { title: "Status" },
@@ -306,17 +499,23 @@ export default function TierSettings() {
                     </IndexTable.Cell>
                     <IndexTable.Cell>{tier.cashbackPercent}%</IndexTable.Cell>
                     <IndexTable.Cell>
-                      {tier.minSpend ? formatCurrency(tier.minSpend) : "—"}
+                      {describeTierCriteria(tier, currencyCode)}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {tier.manualOnly ? "—" : describeEvaluationPeriod(tier)}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {tier.manualOnly ? "—" : describeDowngradeProtection(tier)}
                     </IndexTable.Cell>
                     <IndexTable.Cell>
-                      {tier.evaluationPeriod === "LIFETIME" ? "Lifetime" : "12-month"}
+                      {describeTierBenefits(parseTierBenefits(tier.benefits), currencyCode).join(", ") || "—"}
                     </IndexTable.Cell>
                     <IndexTable.Cell>
                       <Text as="span" alignment="end">{tier.memberCount}</Text>
                     </IndexTable.Cell>
                     <IndexTable.Cell>
                       <Text as="span" alignment="end">
-                        {formatCurrency(tier.avgYearlySpending)}
+                        {formatMoney(tier.avgYearlySpending, currencyCode)}
                       </Text>
                     </IndexTable.Cell>
                     <IndexTable.Cell>
@@ -362,7 +561,17 @@ export default function TierSettings() {
             fd.append("name", editName);
             fd.append("cashbackPercent", editCashback);
             fd.append("minSpend", editMinSpend);
+            fd.append("minOrders", editMinOrders);
+            fd.append("criteriaOperator", editOperator);
             fd.append("evaluationPeriod", editEvalPeriod);
+            fd.append("periodMonths", editPeriodMonths);
+            fd.append("manualOnly", String(editManualOnly));
+            fd.append("downgradeProtection", editProtection);
+            fd.append("gracePeriodDays", editGraceDays);
+            fd.append("freeShipping", String(editFreeShipping));
+            fd.append("discountPercent", editDiscount);
+            fd.append("earlyAccessCollection", editEarlyAccess);
+            fd.append("birthdayBonus", editBirthdayBonus);
             fd.append("isActive", editTier.isActive ? "true" : "false");
             fetcher.submit(fd, { method: "post" });
             setEditTier(null);
@@ -375,7 +584,26 @@ export default function TierSettings() {
             <TextField label="Name" value={editName} onChange={setEditName} autoComplete="off" />
             <TextField label="Cashback %" value={editCashback} onChange={setEditCashback} type="number" step={0.1} min={0} max={100} autoComplete="off" />
             <TextField label="Min Spend" value={editMinSpend} onChange={setEditMinSpend} type="number" placeholder="None" min={0} step={0.01} autoComplete="off" />
-            <Select label="Period" value={editEvalPeriod} onChange={setEditEvalPeriod} options={[{ label: "12-month", value: "ANNUAL" }, { label: "Lifetime", value: "LIFETIME" }]} />
+            <TextField label="Min Orders" value={editMinOrders} onChange={setEditMinOrders} type="number" placeholder="None" min={0} step={1} autoComplete="off" />
+            <Select label="Combine" value={editOperator} onChange={setEditOperator} options={CRITERIA_OPERATOR_OPTIONS} />
+            <Select label="Period" value={editEvalPeriod} onChange={setEditEvalPeriod} options={EVALUATION_PERIOD_OPTIONS} />
+            {editEvalPeriod === "ROLLING_MONTHS" && (
+              <TextField label="Months" value={editPeriodMonths} onChange={setEditPeriodMonths} type="number" placeholder="12" min={1} step={1} autoComplete="off" />
+            )}
+            <Select label="Downgrade Protection" value={editProtection} onChange={setEditProtection} options={DOWNGRADE_PROTECTION_OPTIONS} />
+            {editProtection === "GRACE_DAYS" && (
+              <TextField label="Grace Days" value={editGraceDays} onChange={setEditGraceDays} type="number" placeholder="30" min={1} step={1} autoComplete="off" />
+            )}
+            <Checkbox
+              label="Invite only"
+              helpText="Customers are only added or removed by hand"
+              checked={editManualOnly}
+              onChange={setEditManualOnly}
+            />
+            <TextField label="Member Discount %" value={editDiscount} onChange={setEditDiscount} type="number" placeholder="None" min={0} max={100} step={1} autoComplete="off" />
+            <TextField label="Birthday Bonus" value={editBirthdayBonus} onChange={setEditBirthdayBonus} type="number" placeholder="None" min={0} step={0.01} autoComplete="off" />
+            <TextField label="Early Access Collection" value={editEarlyAccess} onChange={setEditEarlyAccess} placeholder="None" helpText="Collection handle" autoComplete="off" />
+            <Checkbox label="Free shipping" checked={editFreeShipping} onChange={setEditFreeShipping} />
           </FormLayout>
         </Modal.Section>
       </Modal>
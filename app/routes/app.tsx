@@ -6,12 +6,23 @@ import { boundary } from "@shopify/shopify-app-remix/server";
 import { AppProvider } from "@shopify/shopify-app-remix/react";
 import { NavMenu } from "@shopify/app-bridge-react";
 import polarisStyles from "@shopify/polaris/build/esm/styles.css?url";
+import { InstallationStatus } from "@prisma/client";
 import { authenticate } from "../shopify.server";
+import { getShopInstallation } from "../services/shop-installation.server";
 
 export const links = () => [{ rel: "stylesheet", href: polarisStyles }];
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, redirect } = await authenticate.admin(request);
+
+  // A reinstall with a previous program on file must be resolved first
+  const installation = await getShopInstallation(session.shop);
+  if (
+    installation?.status === InstallationStatus.PENDING_RESTORE &&
+    new URL(request.url).pathname !== "/app/restore"
+  ) {
+    throw redirect("/app/restore");
+  }
 
   return json({
     apiKey: process.env.SHOPIFY_API_KEY || ""
@@ -33,12 +44,30 @@ export default function App() {
         <Link to="/app/tiers">
           Tiers
         </Link>
+        <Link to="/app/cashback-rules">
+          Cashback Rules
+        </Link>
+        <Link to="/app/campaigns">
+          Campaigns
+        </Link>
         <Link to="/app/analytics">
           Analytics
         </Link>
         <Link to="/app/email/generator">
           Emails
         </Link>
+        <Link to="/app/settings">
+          Settings
+        </Link>
+        <Link to="/app/reconciliation">
+          Reconciliation
+        </Link>
+        <Link to="/app/webhook-events">
+          Webhooks
+        </Link>
+        <Link to="/app/privacy">
+          Privacy
+        </Link>
       </NavMenu>
       <Outlet />
     </AppProvider>
@@ -0,0 +1,128 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { authenticate } from "../shopify.server";
+import { getShopSettings } from "../services/shop-settings.server";
+import { getUnclaimedCashbackReport } from "../services/unclaimed-cashback.server";
+import { formatMoney } from "../utils/money";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  DataTable,
+  BlockStack,
+  Text,
+  EmptyState,
+} from "@shopify/polaris";
+import { HeroMetric } from "../components/HeroMetric";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const [report, settings] = await Promise.all([
+    getUnclaimedCashbackReport(session.shop),
+    getShopSettings(session.shop),
+  ]);
+
+  return json({
+    ...report,
+    currencyCode: settings.currencyCode,
+    claimDays: settings.guestClaimDays,
+  });
+}
+
+export default function UnclaimedCashback() {
+  const { rate, open, expiringSoon, claimed, expired, cancelled, records, currencyCode, claimDays } =
+    useLoaderData<typeof loader>();
+
+  return (
+    <Page title="Unclaimed Cashback" backAction={{ url: "/app/settings" }}>
+      <Layout>
+        <Layout.Section>
+          <HeroMetric
+            label="Unclaimed Cashback (estimated)"
+            value={formatMoney(open.estimatedCashback, currencyCode)}
+            aside={[
+              { label: "Guest Orders", value: String(open.count) },
+              { label: "Order Value", value: formatMoney(open.orderTotal, currencyCode) },
+              {
+                label: "Expiring in 7 Days",
+                value: formatMoney(expiringSoon.estimatedCashback, currencyCode),
+              },
+            ]}
+          />
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">Guest orders</Text>
+              <Text as="p" variant="bodySm" tone="subdued">
+                Estimated at the base tier rate ({rate}%) on the order total less refunds. Buyers have {claimDays} days
+                to claim by creating an account with a verified email; rules and campaigns apply then.
+              </Text>
+              <DataTable
+                columnContentTypes={["text", "numeric", "numeric"]}
+                headings={["Status", "Orders", "Order Value"]}
+                rows={[
+                  ["Unclaimed", open.count, formatMoney(open.orderTotal, currencyCode)],
+                  ["Claimed", claimed.count, formatMoney(claimed.orderTotal, currencyCode)],
+                  ["Expired", expired.count, formatMoney(expired.orderTotal, currencyCode)],
+                  ["Refunded or cancelled", cancelled.count, formatMoney(cancelled.orderTotal, currencyCode)],
+                ]}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          {records.length === 0 ? (
+            <Card>
+              <EmptyState
+                heading="No unclaimed cashback"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <p>Paid guest checkouts will appear here until the buyer signs up</p>
+              </EmptyState>
+            </Card>
+          ) : (
+            <Card padding="0">
+              <IndexTable
+                resourceName={{ singular: "order", plural: "orders" }}
+                itemCount={records.length}
+                headings={[
+                  { title: "Order" },
+                  { title: "Email" },
+                  { title: "Order Value", alignment: "end" },
+                  { title: "Est. Cashback", alignment: "end" },
+                  { title: "Paid" },
+                  { title: "Expires" },
+                ]}
+                selectable={false}
+              >
+                {records.map((record, i) => (
+                  <IndexTable.Row id={record.id} key={record.id} position={i}>
+                    <IndexTable.Cell>{record.orderName || record.shopifyOrderId}</IndexTable.Cell>
+                    <IndexTable.Cell>{record.email}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>
+                        {formatMoney(record.orderAmount, currencyCode)}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" alignment="end" numeric>
+                        {formatMoney(record.estimatedCashback, currencyCode)}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{new Date(record.createdAt).toLocaleDateString()}</IndexTable.Cell>
+                    <IndexTable.Cell>{new Date(record.expiresAt).toLocaleDateString()}</IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            </Card>
+          )}
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,256 @@
+import {
+  json,
+  type LoaderFunctionArgs,
+  type ActionFunctionArgs,
+} from "@remix-run/node";
+import {
+  useLoaderData,
+  useNavigation,
+  useSubmit,
+  useActionData,
+} from "@remix-run/react";
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { useState, useEffect } from "react";
+import { WebhookEventStatus } from "@prisma/client";
+import { replayWebhookEvent } from "../services/webhook-queue.server";
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Button,
+  BlockStack,
+  InlineStack,
+  Text,
+  Banner,
+  Badge,
+  EmptyState,
+} from "@shopify/polaris";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const [statusCounts, failedEvents] = await Promise.all([
+    prisma.webhookEvent.groupBy({
+      by: ["status"],
+      where: { shopDomain: session.shop },
+      _count: { _all: true },
+    }),
+    prisma.webhookEvent.findMany({
+      where: {
+        shopDomain: session.shop,
+        status: { in: [WebhookEventStatus.FAILED, WebhookEventStatus.DEAD_LETTER] },
+      },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+      select: {
+        id: true,
+        topic: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        lastError: true,
+        nextAttemptAt: true,
+        createdAt: true,
+      },
+    }),
+  ]);
+
+  const counts = Object.fromEntries(
+    Object.values(WebhookEventStatus).map((status) => [
+      status,
+      statusCounts.find((c) => c.status === status)?._count._all || 0,
+    ])
+  ) as Record<WebhookEventStatus, number>;
+
+  return json({ counts, failedEvents });
+}
+
+type ActionResponse =
+  | { success: true; message?: string }
+  | { success: false; error: string };
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const action = formData.get("_action");
+
+  try {
+    if (action === "replay") {
+      const eventId = formData.get("eventId") as string;
+      const status = await replayWebhookEvent(eventId, session.shop);
+
+      if (status === WebhookEventStatus.COMPLETED) {
+        return json<ActionResponse>({ success: true, message: "Event replayed successfully" });
+      }
+      return json<ActionResponse>({ success: false, error: "Replay failed, the event has been rescheduled" });
+    }
+
+    if (action === "replayDeadLetters") {
+      const deadLetters = await prisma.webhookEvent.findMany({
+        where: { shopDomain: session.shop, status: WebhookEventStatus.DEAD_LETTER },
+        orderBy: { createdAt: "asc" },
+        select: { id: true },
+      });
+
+      let completed = 0;
+      for (const { id } of deadLetters) {
+        const status = await replayWebhookEvent(id, session.shop);
+        if (status === WebhookEventStatus.COMPLETED) completed++;
+      }
+
+      return json<ActionResponse>({
+        success: true,
+        message: `Replayed ${deadLetters.length} events, ${completed} succeeded`,
+      });
+    }
+
+    return json<ActionResponse>({ success: false, error: "Unknown action" });
+  } catch (error) {
+    console.error("Webhook event action error:", error);
+    return json<ActionResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : "An error occurred",
+    });
+  }
+}
+
+const STATUS_TONES: Record<string, "success" | "attention" | "critical" | "info" | undefined> = {
+  PENDING: "info",
+  PROCESSING: "info",
+  COMPLETED: "success",
+  FAILED: "attention",
+  DEAD_LETTER: "critical",
+};
+
+const formatTopic = (topic: string) => topic.toLowerCase().replace(/_/g, "/");
+
+export default function WebhookEvents() {
+  const { counts, failedEvents } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [bannerVisible, setBannerVisible] = useState(false);
+
+  const isSubmitting = navigation.state === "submitting";
+
+  useEffect(() => {
+    if (actionData) {
+      setBannerVisible(true);
+      if (actionData.success) {
+        const t = setTimeout(() => setBannerVisible(false), 5000);
+        return () => clearTimeout(t);
+      }
+    }
+  }, [actionData]);
+
+  const replay = (eventId: string) => {
+    const fd = new FormData();
+    fd.append("_action", "replay");
+    fd.append("eventId", eventId);
+    submit(fd, { method: "post" });
+  };
+
+  return (
+    <Page
+      title="Webhook Events"
+      backAction={{ url: "/app" }}
+      primaryAction={{
+        content: "Replay Dead Letters",
+        disabled: counts.DEAD_LETTER === 0,
+        loading: isSubmitting,
+        onAction: () => {
+          const fd = new FormData();
+          fd.append("_action", "replayDeadLetters");
+          submit(fd, { method: "post" });
+        },
+      }}
+    >
+      <Layout>
+        {bannerVisible && actionData && (
+          <Layout.Section>
+            <Banner
+              tone={actionData.success ? "success" : "critical"}
+              onDismiss={() => setBannerVisible(false)}
+            >
+              {"message" in actionData ? actionData.message : "error" in actionData ? actionData.error : ""}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">Queue</Text>
+              <InlineStack gap="400">
+                {Object.entries(counts).map(([status, count]) => (
+                  <InlineStack key={status} gap="100" blockAlign="center">
+                    <Badge tone={STATUS_TONES[status]}>{status.replace("_", " ")}</Badge>
+                    <Text as="span" fontWeight="semibold">{count}</Text>
+                  </InlineStack>
+                ))}
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          {failedEvents.length === 0 ? (
+            <Card>
+              <EmptyState
+                heading="No failed webhooks"
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <p>Every webhook has been processed successfully</p>
+              </EmptyState>
+            </Card>
+          ) : (
+            <Card padding="0">
+              <IndexTable
+                resourceName={{ singular: "event", plural: "events" }}
+                itemCount={failedEvents.length}
+                headings={[
+                  { title: "Topic" },
+                  { title: "Status" },
+                  { title: "Attempts" },
+                  { title: "Last Error" },
+                  { title: "Next Retry" },
+                  { title: "Received" },
+                  { title: "", alignment: "end" },
+                ]}
+                selectable={false}
+              >
+                {failedEvents.map((event, i) => (
+                  <IndexTable.Row id={event.id} key={event.id} position={i}>
+                    <IndexTable.Cell>{formatTopic(event.topic)}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Badge tone={STATUS_TONES[event.status]}>{event.status.replace("_", " ")}</Badge>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{event.attempts}/{event.maxAttempts}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text as="span" tone="subdued" truncate>{event.lastError || "—"}</Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {event.status === WebhookEventStatus.FAILED
+                        ? new Date(event.nextAttemptAt).toLocaleString()
+                        : "—"}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{new Date(event.createdAt).toLocaleString()}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <InlineStack align="end">
+                        <Button size="slim" onClick={() => replay(event.id)} disabled={isSubmitting}>
+                          Replay
+                        </Button>
+                      </InlineStack>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            </Card>
+          )}
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
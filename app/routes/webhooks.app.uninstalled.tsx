@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import prisma from "../db.server";
+import { markShopUninstalled } from "../services/shop-installation.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { shop, session, topic } = await authenticate.webhook(request);
@@ -13,5 +14,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     await prisma.session.deleteMany({ where: { shop } });
   }
 
+  // Pauses the shop's jobs; its data is purged once the grace period ends
+  await markShopUninstalled(shop);
+
   return new Response();
 };
@@ -0,0 +1,18 @@
+// app/routes/webhooks.customers.create.tsx
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { enqueueWebhookEvent } from "../services/webhook-queue.server";
+
+/**
+ * New customer accounts claim cashback from their earlier guest checkouts.
+ * Processed by the webhook worker (see claimUnclaimedCashback).
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { topic, shop, payload, webhookId } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop} (customer ${payload.id})`);
+
+  await enqueueWebhookEvent({ shopDomain: shop, topic, webhookId, payload });
+
+  return new Response();
+};
@@ -0,0 +1,18 @@
+// app/routes/webhooks.customers.data_request.tsx
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { recordGdprRequest } from "../services/gdpr.server";
+
+/**
+ * Mandatory compliance webhook. The request is recorded and acknowledged;
+ * processDueGdprRequests carries it out on the next scheduled run.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { topic, shop, payload, webhookId } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  await recordGdprRequest({ shopDomain: shop, topic, webhookId, payload });
+
+  return new Response();
+};
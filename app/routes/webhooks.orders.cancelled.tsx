@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { enqueueWebhookEvent } from "../services/webhook-queue.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic, webhookId } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop} (order ${payload.id})`);
+
+  // Processed by the webhook worker; the reversal is idempotent per order
+  await enqueueWebhookEvent({ shopDomain: shop, topic, webhookId, payload });
+
+  return new Response();
+};
@@ -0,0 +1,18 @@
+// app/routes/webhooks.orders.edited.tsx
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { enqueueWebhookEvent } from "../services/webhook-queue.server";
+
+/**
+ * Orders edited after payment have their cashback recalculated by the
+ * webhook worker (see adjustCashbackForOrderEdit). Idempotent per edit.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { topic, shop, payload, webhookId } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop} (order ${payload.order_edit?.order_id})`);
+
+  await enqueueWebhookEvent({ shopDomain: shop, topic, webhookId, payload });
+
+  return new Response();
+};
@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { enqueueWebhookEvent } from "../services/webhook-queue.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic, webhookId } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop} (refund ${payload.id}, order ${payload.order_id})`);
+
+  // Processed by the webhook worker; the reversal is idempotent per refund
+  await enqueueWebhookEvent({ shopDomain: shop, topic, webhookId, payload });
+
+  return new Response();
+};
@@ -1,5 +1,6 @@
 import prisma from "../db.server";
-import { TransactionStatus } from "@prisma/client";
+import { TransactionStatus, LedgerEntryType } from "@prisma/client";
+import { moneyToNumber } from "../utils/money";
 
 const VALID_STATUSES = [
   TransactionStatus.COMPLETED,
@@ -143,10 +144,10 @@ export class AnalyticsService {
       }),
     ]);
 
-    const currentMonth = currentMonthRev._sum.orderAmount || 0;
-    const lastMonth = lastMonthRev._sum.orderAmount || 0;
+    const currentMonth = moneyToNumber(currentMonthRev._sum.orderAmount);
+    const lastMonth = moneyToNumber(lastMonthRev._sum.orderAmount);
     const mom = lastMonth > 0 ? ((currentMonth - lastMonth) / lastMonth) * 100 : 0;
-    const totalMemberRev = memberRevenue._sum.orderAmount || 0;
+    const totalMemberRev = moneyToNumber(memberRevenue._sum.orderAmount);
 
     return {
       memberRevenue: totalMemberRev,
@@ -157,9 +158,9 @@ export class AnalyticsService {
         memberCount > 0 ? (membersWithMultiple.length / memberCount) * 100 : 0,
       purchasesPerMemberPerYear:
         memberCount > 0 ? memberTx365 / memberCount : 0,
-      totalCreditEarned: totalEarned._sum.cashbackAmount || 0,
-      creditEarnedThisPeriod: currentPeriodEarned._sum.cashbackAmount || 0,
-      outstandingLiability: balanceAgg._sum.storeCredit || 0,
+      totalCreditEarned: moneyToNumber(totalEarned._sum.cashbackAmount),
+      creditEarnedThisPeriod: moneyToNumber(currentPeriodEarned._sum.cashbackAmount),
+      outstandingLiability: moneyToNumber(balanceAgg._sum.storeCredit),
     };
   }
 
@@ -247,7 +248,7 @@ export class AnalyticsService {
     for (const row of tierRevenueAgg) {
       const tierId = customerToTier[row.customerId];
       if (tierId && tierAgg[tierId]) {
-        tierAgg[tierId].revenue += row._sum.orderAmount || 0;
+        tierAgg[tierId].revenue += moneyToNumber(row._sum.orderAmount);
         tierAgg[tierId].orderCount += row._count;
       }
     }
@@ -332,34 +333,35 @@ export class AnalyticsService {
           _sum: { storeCredit: true },
           _count: true,
         }),
+        // Redemptions are store credit spent on orders, not reversals or corrections
         prisma.storeCreditLedger.aggregate({
-          where: { shopDomain: this.shopDomain, amount: { lt: 0 } },
+          where: { shopDomain: this.shopDomain, type: LedgerEntryType.ORDER_PAYMENT },
           _sum: { amount: true },
           _count: true,
         }),
         prisma.storeCreditLedger.aggregate({
           where: {
             shopDomain: this.shopDomain,
-            amount: { lt: 0 },
+            type: LedgerEntryType.ORDER_PAYMENT,
             createdAt: { gte: thirtyDaysAgo },
           },
           _count: true,
         }),
       ]);
 
-    const totalEarnedAmt = totalEarned._sum.cashbackAmount || 0;
-    const totalRedeemed = Math.abs(redemptions._sum.amount || 0);
+    const totalEarnedAmt = moneyToNumber(totalEarned._sum.cashbackAmount);
+    const totalRedeemed = Math.abs(moneyToNumber(redemptions._sum.amount));
 
     return {
       totalEarned: totalEarnedAmt,
-      currentPeriodEarned: currentPeriodEarned._sum.cashbackAmount || 0,
+      currentPeriodEarned: moneyToNumber(currentPeriodEarned._sum.cashbackAmount),
       avgPerTransaction:
         totalEarned._count > 0 ? totalEarnedAmt / totalEarned._count : 0,
       totalRedeemed,
       ordersUsingCredits: currentRedemptions._count,
       redemptionRate:
         totalEarnedAmt > 0 ? (totalRedeemed / totalEarnedAmt) * 100 : 0,
-      outstandingLiability: balanceAgg._sum.storeCredit || 0,
+      outstandingLiability: moneyToNumber(balanceAgg._sum.storeCredit),
       membersWithBalance: balanceAgg._count,
       percentMembersWithBalance:
         memberCount > 0 ? (balanceAgg._count / memberCount) * 100 : 0,
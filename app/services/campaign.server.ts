@@ -0,0 +1,165 @@
+// app/services/campaign.server.ts
+import prisma from "../db.server";
+import { TransactionStatus, type Campaign } from "@prisma/client";
+import {
+  lineInCollections,
+  weightedAmount,
+  type CashbackRuleBreakdown,
+} from "./cashback-rules.server";
+import {
+  maxMoney,
+  minMoney,
+  percentOf,
+  roundDownToCents,
+  sumMoney,
+  ZERO,
+  type Decimal,
+} from "../utils/money";
+
+export interface CampaignContext {
+  placedAt: Date;
+  tierId: string | null;
+  tierPercent: number;
+  customerTags: string[];
+  // Cashback base after the shop's rules, in shop currency
+  eligibleAmount: Decimal;
+  // Null when line items couldn't be fetched; collection campaigns then don't apply
+  breakdown: CashbackRuleBreakdown | null;
+}
+
+export interface CampaignBonus {
+  campaignId: string;
+  campaignName: string;
+  amount: Decimal;
+}
+
+/**
+ * Pick the most generous campaign running when the order was placed that
+ * the customer qualifies for. The bonus is capped at what is left of the
+ * campaign's budget.
+ */
+export async function getCampaignBonus(
+  shopDomain: string,
+  context: CampaignContext
+): Promise<CampaignBonus | null> {
+  const campaigns = await prisma.campaign.findMany({
+    where: {
+      shopDomain,
+      isActive: true,
+      startsAt: { lte: context.placedAt },
+      endsAt: { gt: context.placedAt },
+    },
+  });
+
+  const qualifying = campaigns.filter((campaign) => isTargeted(campaign, context));
+  if (qualifying.length === 0) return null;
+
+  const spent = await getCampaignSpend(qualifying.map((campaign) => campaign.id));
+
+  let best: CampaignBonus | null = null;
+  for (const campaign of qualifying) {
+    let amount = calculateBonus(campaign, context);
+    if (campaign.budget) {
+      amount = minMoney(amount, maxMoney(0, campaign.budget.minus(spent.get(campaign.id) ?? ZERO)));
+    }
+
+    if (amount.gt(0) && (!best || amount.gt(best.amount))) {
+      best = { campaignId: campaign.id, campaignName: campaign.name, amount };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Every campaign for a shop with what it has paid out, newest first.
+ * Reversed orders are left out, matching what counts against the budget.
+ */
+export async function getCampaignStats(shopDomain: string) {
+  const [campaigns, totals] = await Promise.all([
+    prisma.campaign.findMany({
+      where: { shopDomain },
+      orderBy: { startsAt: "desc" },
+    }),
+    prisma.cashbackTransaction.groupBy({
+      by: ["campaignId"],
+      where: {
+        shopDomain,
+        campaignId: { not: null },
+        status: { not: TransactionStatus.REVERSED },
+      },
+      _count: { _all: true },
+      _sum: { campaignBonus: true, cashbackAmount: true, orderAmount: true },
+    }),
+  ]);
+
+  const byCampaign = new Map(totals.map((row) => [row.campaignId, row]));
+
+  return campaigns.map((campaign) => {
+    const row = byCampaign.get(campaign.id);
+    const bonusPaid = row?._sum.campaignBonus ?? ZERO;
+
+    return {
+      ...campaign,
+      orders: row?._count._all ?? 0,
+      bonusPaid,
+      cashbackPaid: row?._sum.cashbackAmount ?? ZERO,
+      revenue: row?._sum.orderAmount ?? ZERO,
+      budgetRemaining: campaign.budget ? maxMoney(0, campaign.budget.minus(bonusPaid)) : null,
+    };
+  });
+}
+
+async function getCampaignSpend(campaignIds: string[]) {
+  const rows = await prisma.cashbackTransaction.groupBy({
+    by: ["campaignId"],
+    where: {
+      campaignId: { in: campaignIds },
+      status: { not: TransactionStatus.REVERSED },
+    },
+    _sum: { campaignBonus: true },
+  });
+
+  return new Map(rows.map((row) => [row.campaignId, row._sum.campaignBonus ?? ZERO]));
+}
+
+function isTargeted(campaign: Campaign, context: CampaignContext) {
+  if (campaign.tierIds.length > 0 && (!context.tierId || !campaign.tierIds.includes(context.tierId))) {
+    return false;
+  }
+
+  if (campaign.customerTags.length > 0) {
+    const tags = new Set(context.customerTags.map((tag) => tag.trim().toLowerCase()));
+    return campaign.customerTags.some((tag) => tags.has(tag.trim().toLowerCase()));
+  }
+
+  return true;
+}
+
+/**
+ * The extra cashback a campaign pays over the tier rate, before its budget
+ */
+function calculateBonus(campaign: Campaign, context: CampaignContext): Decimal {
+  const base = getCampaignBase(campaign, context);
+  if (base.lte(0)) return ZERO;
+
+  const extraPercent = context.tierPercent * (campaign.multiplier - 1) + campaign.bonusPercent;
+  const percentBonus = extraPercent > 0 ? percentOf(base, extraPercent) : ZERO;
+
+  return percentBonus.plus(campaign.flatBonus ?? ZERO);
+}
+
+// A campaign pays on the whole cashback base, or only the share of it that
+// came from its collections
+function getCampaignBase(campaign: Campaign, { eligibleAmount, breakdown }: CampaignContext) {
+  if (campaign.collectionIds.length === 0) return eligibleAmount;
+  if (!breakdown || breakdown.weightedOrderValue.lte(0)) return ZERO;
+
+  const inCollections = sumMoney(
+    breakdown.lines
+      .filter((line) => lineInCollections(line, campaign.collectionIds))
+      .map(weightedAmount)
+  );
+
+  return roundDownToCents(eligibleAmount.times(inCollections).dividedBy(breakdown.weightedOrderValue));
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TransactionStatus } from "@prisma/client";
+import { adjustCashbackForOrderEdit } from "./cashback-adjustment.server";
+import { getOrderEligibleAmount } from "./order-cashback.server";
+import { toMoney } from "../utils/money";
+
+const { prisma } = vi.hoisted(() => {
+  const prisma = {
+    cashbackTransaction: { findUnique: vi.fn(), updateMany: vi.fn() },
+    cashbackAdjustment: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  // Transactions run against the same mocks
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../db.server", () => ({ default: prisma }));
+vi.mock("./order-cashback.server", () => ({ getOrderEligibleAmount: vi.fn() }));
+vi.mock("./cashback-reversal.server", () => ({ isOrderPaidQueued: vi.fn() }));
+vi.mock("./customer-tier.server", () => ({ evaluateCustomerTier: vi.fn() }));
+vi.mock("./store-credit-ledger.server", () => ({ postLedgerEntry: vi.fn() }));
+
+const SHOP = "store.myshopify.com";
+const payload = { order_edit: { id: 9001, order_id: 5001 } };
+
+describe("adjustCashbackForOrderEdit", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    prisma.cashbackTransaction.findUnique.mockReset().mockResolvedValue({
+      id: "transaction-1",
+      customerId: "customer-1",
+      status: TransactionStatus.SYNCED_TO_SHOPIFY,
+      orderAmount: toMoney("200.00"),
+      cashbackAmount: toMoney("10.00"),
+      campaignBonus: toMoney(0),
+      reversedCashback: toMoney(0),
+      currency: "USD",
+      presentmentCurrency: null,
+      presentmentCashbackAmount: null,
+      exchangeRate: null,
+      customer: { shopifyCustomerId: "1001" },
+    });
+    prisma.cashbackTransaction.updateMany.mockReset().mockResolvedValue({ count: 1 });
+    prisma.cashbackAdjustment.findUnique.mockReset().mockResolvedValue(null);
+    prisma.cashbackAdjustment.create.mockReset().mockImplementation(({ data }) =>
+      Promise.resolve({ id: "adjustment-1", shopifyError: null, ...data })
+    );
+    prisma.cashbackAdjustment.update.mockReset().mockResolvedValue({});
+    // Half the order removed and refunded: the cashback halves
+    vi.mocked(getOrderEligibleAmount).mockResolvedValue(toMoney("100.00"));
+  });
+
+  it("never retries a debit whose outcome is unknown", async () => {
+    const admin = { graphql: vi.fn().mockRejectedValue(new Error("Request timed out")) };
+
+    const result = await adjustCashbackForOrderEdit(SHOP, payload, admin);
+
+    expect(result).toMatchObject({ adjusted: true, shopifySynced: false });
+    expect(result.amount.toFixed(2)).toBe("-5.00");
+    expect(prisma.cashbackAdjustment.update).toHaveBeenCalledWith({
+      where: { id: "adjustment-1" },
+      data: { shopifySynced: true, shopifyError: "Request timed out" },
+    });
+
+    // A redelivery finds the edit settled and debits nothing more
+    prisma.cashbackAdjustment.findUnique.mockResolvedValue({ id: "adjustment-1", shopifySynced: true });
+    const redelivery = await adjustCashbackForOrderEdit(SHOP, payload, admin);
+
+    expect(redelivery).toMatchObject({ adjusted: false, reason: "Already processed" });
+    expect(admin.graphql).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws a rejected debit so the webhook retries it", async () => {
+    const admin = {
+      graphql: vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            data: { storeCreditAccountDebit: { userErrors: [{ message: "Account not found" }] } },
+          })
+        )
+      ),
+    };
+
+    await expect(adjustCashbackForOrderEdit(SHOP, payload, admin)).rejects.toThrow("Account not found");
+    expect(prisma.cashbackAdjustment.update).toHaveBeenCalledWith({
+      where: { id: "adjustment-1" },
+      data: { shopifySynced: false, shopifyError: "Account not found" },
+    });
+  });
+});
@@ -0,0 +1,235 @@
+// app/services/cashback-adjustment.server.ts
+import prisma from "../db.server";
+import {
+  Prisma,
+  TransactionStatus,
+  LedgerEntryType,
+  LedgerSource,
+  type CashbackAdjustment,
+  type CashbackTransaction,
+  type Customer,
+} from "@prisma/client";
+import { getOrderEligibleAmount } from "./order-cashback.server";
+import { isOrderPaidQueued } from "./cashback-reversal.server";
+import { evaluateCustomerTier } from "./customer-tier.server";
+import { postLedgerEntry } from "./store-credit-ledger.server";
+import { getShopifyCredit } from "./cashback-sync.server";
+import {
+  debitStoreCredit,
+  issueStoreCredit,
+  type AdminGraphQLClient,
+} from "./store-credit.server";
+import { convertMoney, maxMoney, roundDownToCents, ZERO, type Decimal } from "../utils/money";
+
+// orders/edited payload, REST webhook format
+export interface OrderEditPayload {
+  order_edit: {
+    id: number | string;
+    order_id: number | string;
+    staff_note?: string | null;
+  };
+}
+
+export interface AdjustmentResult {
+  adjusted: boolean;
+  amount: Decimal;
+  reason?: string;
+  shopifySynced?: boolean;
+}
+
+// Shopify credit for these is still being issued; adjusting now could credit twice
+const UNSETTLED_STATUSES: TransactionStatus[] = [
+  TransactionStatus.PENDING,
+  TransactionStatus.SHOPIFY_SYNC_FAILED,
+];
+
+/**
+ * Recalculate cashback after an order is edited. Eligible payments are
+ * re-read from Shopify, so added items paid for raise the cashback; removed
+ * items only lower it once refunded, which refunds/create already reverses.
+ * The tier cashback is scaled at the rate the order earned when it was
+ * paid, so rules and tiers changed since then don't move it, and any
+ * campaign bonus stays as awarded.
+ */
+export async function adjustCashbackForOrderEdit(
+  shopDomain: string,
+  payload: OrderEditPayload,
+  admin: AdminGraphQLClient
+): Promise<AdjustmentResult> {
+  const orderId = payload.order_edit.order_id.toString();
+  const reference = `gid://shopify/OrderEdit/${payload.order_edit.id}`;
+
+  const transaction = await prisma.cashbackTransaction.findUnique({
+    where: { shopDomain_shopifyOrderId: { shopDomain, shopifyOrderId: orderId } },
+    include: { customer: true },
+  });
+
+  if (!transaction) {
+    // Thrown so the webhook is retried after the paid order is processed
+    if (await isOrderPaidQueued(prisma, shopDomain, orderId)) {
+      throw new Error(`Order ${orderId} is still waiting on its orders/paid event`);
+    }
+    return { adjusted: false, amount: ZERO, reason: "No cashback recorded for order" };
+  }
+
+  // A redelivery after a failed Shopify update retries just that
+  const existing = await prisma.cashbackAdjustment.findUnique({
+    where: { shopDomain_shopifyReference: { shopDomain, shopifyReference: reference } },
+  });
+  if (existing) {
+    if (existing.shopifySynced) {
+      console.log(`⏭️  Skipping adjustment for order ${orderId}: edit already processed`);
+      return { adjusted: false, amount: ZERO, reason: "Already processed" };
+    }
+    const shopifySynced = await syncAdjustmentToShopify(admin, existing, transaction);
+    return { adjusted: true, amount: existing.amount, shopifySynced };
+  }
+
+  if (transaction.status === TransactionStatus.REVERSED) {
+    return { adjusted: false, amount: ZERO, reason: "Cashback fully reversed" };
+  }
+  if (UNSETTLED_STATUSES.includes(transaction.status)) {
+    // Thrown so the webhook is retried once the cashback reconciler settles it
+    throw new Error(`Cashback for order ${orderId} is not yet credited in Shopify`);
+  }
+  if (transaction.orderAmount.lte(0)) {
+    return { adjusted: false, amount: ZERO, reason: "No eligible amount to scale from" };
+  }
+
+  const eligibleAmount = await getOrderEligibleAmount(admin, orderId);
+  if (!eligibleAmount) {
+    return { adjusted: false, amount: ZERO, reason: "Order payments unavailable" };
+  }
+
+  // Multiply before dividing so repeated edits scale without drifting
+  const tierCashback = roundDownToCents(
+    transaction.cashbackAmount
+      .minus(transaction.campaignBonus)
+      .times(eligibleAmount)
+      .dividedBy(transaction.orderAmount)
+  );
+  // Never below what refunds have already clawed back
+  const newCashback = maxMoney(
+    transaction.reversedCashback,
+    tierCashback.plus(transaction.campaignBonus)
+  );
+  const amount = newCashback.minus(transaction.cashbackAmount);
+  const held = transaction.status === TransactionStatus.HELD;
+
+  const adjustment = await prisma.$transaction(async (tx) => {
+    // Only apply against the amounts read above; a concurrent change retries the webhook
+    const updated = await tx.cashbackTransaction.updateMany({
+      where: {
+        id: transaction.id,
+        status: transaction.status,
+        cashbackAmount: transaction.cashbackAmount,
+      },
+      data: {
+        orderAmount: eligibleAmount,
+        cashbackAmount: newCashback,
+        ...(transaction.exchangeRate
+          ? { presentmentCashbackAmount: convertMoney(newCashback, transaction.exchangeRate) }
+          : {}),
+      },
+    });
+    if (updated.count === 0) {
+      throw new Error(`Cashback for order ${orderId} changed during the adjustment`);
+    }
+
+    // Held cashback has not been credited yet; the release posts the new amount
+    if (!held && !amount.isZero()) {
+      await postLedgerEntry(tx, {
+        customerId: transaction.customerId,
+        shopDomain,
+        amount,
+        type: LedgerEntryType.CASHBACK_ADJUSTMENT,
+        source: LedgerSource.SHOPIFY_ORDER,
+        shopifyReference: reference,
+        description: `Cashback adjusted after edit to order ${orderId}`,
+        countsAsEarned: amount.gt(0),
+        cashbackTransactionId: transaction.id,
+        currency: transaction.presentmentCurrency ?? transaction.currency,
+        exchangeRate: transaction.presentmentCurrency ? transaction.exchangeRate : null,
+      });
+    }
+
+    return tx.cashbackAdjustment.create({
+      data: {
+        shopDomain,
+        cashbackTransactionId: transaction.id,
+        shopifyReference: reference,
+        note: payload.order_edit.staff_note || null,
+        previousOrderAmount: transaction.orderAmount,
+        newOrderAmount: eligibleAmount,
+        previousCashback: transaction.cashbackAmount,
+        newCashback,
+        amount,
+        // Nothing to move in Shopify for held cashback or an unchanged amount
+        shopifySynced: held || amount.isZero(),
+      },
+    });
+  }).catch((error) => {
+    // A concurrent delivery recorded the edit first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return null;
+    }
+    throw error;
+  });
+
+  if (!adjustment) {
+    console.log(`⏭️  Skipping adjustment for order ${orderId}: edit already processed`);
+    return { adjusted: false, amount: ZERO, reason: "Already processed" };
+  }
+
+  console.log(
+    `✏️  Adjusted cashback for order ${orderId} by ${amount.toFixed(2)} ${transaction.currency}` +
+      (held ? " (held)" : "")
+  );
+
+  // The order's spend changed, which can move the customer's tier
+  if (!eligibleAmount.equals(transaction.orderAmount)) {
+    try {
+      await evaluateCustomerTier(transaction.customerId, shopDomain);
+    } catch (error) {
+      console.error("Tier re-evaluation after order edit failed:", error);
+    }
+  }
+
+  const shopifySynced = adjustment.shopifySynced ||
+    (await syncAdjustmentToShopify(admin, adjustment, transaction));
+
+  return { adjusted: true, amount, shopifySynced };
+}
+
+/**
+ * Move an adjustment's delta in the account the cashback was credited to.
+ * A rejected update is thrown so the webhook is retried; an unknown
+ * outcome is recorded and left for reconciliation rather than risk
+ * applying it twice.
+ */
+async function syncAdjustmentToShopify(
+  admin: AdminGraphQLClient,
+  adjustment: CashbackAdjustment,
+  transaction: CashbackTransaction & { customer: Customer }
+) {
+  const delta = getShopifyCredit(transaction, adjustment.amount.abs());
+  const result = adjustment.amount.gt(0)
+    ? await issueStoreCredit(admin, transaction.customer.shopifyCustomerId, delta.amount, delta.currency)
+    : await debitStoreCredit(admin, transaction.customer.shopifyCustomerId, delta.amount, delta.currency);
+
+  await prisma.cashbackAdjustment.update({
+    where: { id: adjustment.id },
+    data: {
+      shopifySynced: result.success || !!result.ambiguous,
+      shopifyError: result.success ? null : result.error ?? null,
+    },
+  });
+
+  if (result.ambiguous) {
+    console.warn(`⚠️  Shopify adjustment outcome unknown for ${adjustment.id}: ${result.error}`);
+  } else if (!result.success) {
+    throw new Error(`Shopify adjustment for ${adjustment.shopifyReference} failed: ${result.error}`);
+  }
+
+  return result.success;
+}
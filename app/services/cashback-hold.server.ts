@@ -0,0 +1,163 @@
+// app/services/cashback-hold.server.ts
+import prisma from "../db.server";
+import {
+  CashbackHold,
+  LedgerEntryType,
+  LedgerSource,
+  TransactionStatus,
+  type CashbackTransaction,
+  type Prisma,
+  type ShopSettings,
+} from "@prisma/client";
+import { addDays } from "date-fns";
+import { postLedgerEntry } from "./store-credit-ledger.server";
+import { syncCashbackToShopify } from "./cashback-sync.server";
+import type { AdminGraphQLClient } from "./store-credit.server";
+
+// Rows released per run, per kind of hold
+const RELEASE_BATCH_SIZE = 50;
+
+/**
+ * Whether new cashback waits out the shop's return window, and until when.
+ * A null releaseAt means it waits for the order to be fulfilled.
+ */
+export function getCashbackHold(
+  settings: Pick<ShopSettings, "cashbackHold" | "cashbackHoldDays">,
+  paidAt: Date
+): { releaseAt: Date | null } | null {
+  switch (settings.cashbackHold) {
+    case CashbackHold.DAYS:
+      return settings.cashbackHoldDays > 0
+        ? { releaseAt: addDays(paidAt, settings.cashbackHoldDays) }
+        : null;
+    case CashbackHold.UNTIL_FULFILLED:
+      return { releaseAt: null };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Add a transaction's cashback to the local balance. Runs when the order
+ * is paid, or when the hold ends for held cashback, less anything partial
+ * refunds took off during the hold.
+ */
+export async function postCashbackEarned(
+  tx: Prisma.TransactionClient,
+  transaction: CashbackTransaction
+) {
+  return postLedgerEntry(tx, {
+    customerId: transaction.customerId,
+    shopDomain: transaction.shopDomain,
+    amount: transaction.cashbackAmount.minus(transaction.reversedCashback),
+    type: LedgerEntryType.CASHBACK_EARNED,
+    source: LedgerSource.APP_CASHBACK,
+    shopifyReference: transaction.shopifyOrderId,
+    description: `Cashback earned from order ${transaction.shopifyOrderId}`,
+    countsAsEarned: true,
+    cashbackTransactionId: transaction.id,
+    // The lot lives in the store credit account the cashback is paid into;
+    // its amounts stay in shop currency like the balance
+    currency: transaction.presentmentCurrency ?? transaction.currency,
+    exchangeRate: transaction.presentmentCurrency ? transaction.exchangeRate : null,
+  });
+}
+
+/**
+ * Cron entry point: credit held cashback whose hold has ended. Refunds
+ * during the hold have already reduced it, and full refunds and
+ * cancellations moved it to REVERSED. Orders waiting for fulfilment are
+ * checked least recently checked first, so unfulfilled ones can't keep
+ * newer orders from ever being looked at.
+ */
+export async function releaseHeldCashback(shopDomain: string, admin: AdminGraphQLClient) {
+  const [due, awaitingFulfillment] = await Promise.all([
+    prisma.cashbackTransaction.findMany({
+      where: { shopDomain, status: TransactionStatus.HELD, releaseAt: { lte: new Date() } },
+      orderBy: { releaseAt: "asc" },
+      take: RELEASE_BATCH_SIZE,
+    }),
+    prisma.cashbackTransaction.findMany({
+      where: { shopDomain, status: TransactionStatus.HELD, releaseAt: null },
+      orderBy: [{ releaseCheckedAt: { sort: "asc", nulls: "first" } }, { createdAt: "asc" }],
+      take: RELEASE_BATCH_SIZE,
+    }),
+  ]);
+
+  const fulfilled = await getFulfilledOrderIds(
+    admin,
+    awaitingFulfillment.map((t) => t.shopifyOrderId)
+  );
+  await prisma.cashbackTransaction.updateMany({
+    where: { id: { in: awaitingFulfillment.map((t) => t.id) } },
+    data: { releaseCheckedAt: new Date() },
+  });
+  const releasable = [
+    ...due,
+    ...awaitingFulfillment.filter((t) => fulfilled.has(t.shopifyOrderId)),
+  ];
+
+  const results = { released: 0, failed: 0, waiting: awaitingFulfillment.length - fulfilled.size };
+
+  for (const transaction of releasable) {
+    try {
+      if (await releaseTransaction(transaction, admin)) results.released++;
+    } catch (error) {
+      console.error(`Releasing held cashback ${transaction.id} failed:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
+
+async function releaseTransaction(transaction: CashbackTransaction, admin: AdminGraphQLClient) {
+  const released = await prisma.$transaction(async (tx) => {
+    // Claim the row so a refund or an overlapping run can't act on it too
+    const claimed = await tx.cashbackTransaction.updateMany({
+      where: { id: transaction.id, status: TransactionStatus.HELD },
+      data: { status: TransactionStatus.PENDING, releaseAt: new Date() },
+    });
+    if (claimed.count === 0) return false;
+
+    // Re-read after claiming: an order edit may have changed the amount
+    await postCashbackEarned(
+      tx,
+      await tx.cashbackTransaction.findUniqueOrThrow({ where: { id: transaction.id } })
+    );
+    return true;
+  });
+  if (!released) return false;
+
+  // The order already counted towards the tier when it was paid
+  const status = await syncCashbackToShopify(admin, transaction.id);
+  console.log(`🔓 Released held cashback for order ${transaction.shopifyOrderId}: ${status}`);
+
+  return true;
+}
+
+async function getFulfilledOrderIds(admin: AdminGraphQLClient, orderIds: string[]) {
+  if (orderIds.length === 0) return new Set<string>();
+
+  const response = await admin.graphql(
+    `#graphql
+    query HeldOrderFulfillment($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on Order {
+          legacyResourceId
+          displayFulfillmentStatus
+        }
+      }
+    }`,
+    { variables: { ids: orderIds.map((id) => `gid://shopify/Order/${id}`) } }
+  );
+  const result = await response.json();
+  const nodes: Array<{ legacyResourceId?: string; displayFulfillmentStatus?: string } | null> =
+    result.data?.nodes ?? [];
+
+  return new Set(
+    nodes
+      .filter((node) => node?.displayFulfillmentStatus === "FULFILLED")
+      .map((node) => node!.legacyResourceId!)
+  );
+}
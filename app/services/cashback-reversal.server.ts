@@ -0,0 +1,449 @@
+// app/services/cashback-reversal.server.ts
+import prisma from "../db.server";
+import {
+  TransactionStatus,
+  LedgerEntryType,
+  LedgerSource,
+  UnclaimedCashbackStatus,
+  WebhookEventStatus,
+  type Prisma,
+} from "@prisma/client";
+import { evaluateCustomerTier } from "./customer-tier.server";
+import { postLedgerEntry } from "./store-credit-ledger.server";
+import type { AdminGraphQLClient } from "./store-credit.server";
+import { getShopifyCredit, syncLedgerDebit } from "./cashback-sync.server";
+import { applyUnclaimedRefund } from "./unclaimed-cashback.server";
+import { getShopSettings } from "./shop-settings.server";
+import {
+  maxMoney,
+  minMoney,
+  proRata,
+  roundToCents,
+  sumMoney,
+  ZERO,
+  type Decimal,
+} from "../utils/money";
+
+// Refund / order payloads arrive in REST webhook format
+interface RefundTransactionPayload {
+  id: number | string;
+  kind: string;
+  status: string;
+  gateway: string;
+  amount: string;
+  currency?: string;
+}
+
+export interface RefundPayload {
+  id: number | string;
+  order_id: number | string;
+  transactions?: RefundTransactionPayload[];
+}
+
+export interface CancelledOrderPayload {
+  id: number | string;
+  currency?: string;
+  cancel_reason?: string | null;
+}
+
+export interface ReversalResult {
+  reversed: boolean;
+  amount: Decimal;
+  reason?: string;
+  shopifySynced?: boolean;
+}
+
+/**
+ * Gift card and store credit payments never earn cashback,
+ * so refunds back to those gateways never claw any back either.
+ */
+function isCashbackEligibleGateway(gateway: string): boolean {
+  const normalized = gateway.toLowerCase();
+  return !normalized.includes("gift_card") && !normalized.includes("store_credit");
+}
+
+/**
+ * Whether the order's orders/paid event is still waiting in the queue.
+ * A retried event can be overtaken by a refund or cancellation for the
+ * same order, which then has to wait for the cashback to exist.
+ */
+export async function isOrderPaidQueued(
+  client: typeof prisma | Prisma.TransactionClient,
+  shopDomain: string,
+  orderId: string
+) {
+  const queued = await client.webhookEvent.findFirst({
+    where: {
+      shopDomain,
+      topic: "ORDERS_PAID",
+      status: {
+        in: [WebhookEventStatus.PENDING, WebhookEventStatus.PROCESSING, WebhookEventStatus.FAILED],
+      },
+      payload: { path: ["id"], equals: Number(orderId) },
+    },
+    select: { id: true },
+  });
+  return !!queued;
+}
+
+function isStoreCreditGateway(gateway: string): boolean {
+  return gateway.toLowerCase().includes("store_credit");
+}
+
+function getSuccessfulRefunds(refund: RefundPayload): RefundTransactionPayload[] {
+  return (refund.transactions || []).filter(tx => tx.kind === "refund" && tx.status === "success");
+}
+
+/**
+ * Sum the successful refund transactions that went back to cashback-eligible gateways
+ */
+function getEligibleRefundAmount(refund: RefundPayload): Decimal {
+  return sumMoney(
+    getSuccessfulRefunds(refund)
+      .filter(tx => isCashbackEligibleGateway(tx.gateway))
+      .map(tx => tx.amount || "0")
+  );
+}
+
+/**
+ * Store credit paid back by a refund. Shopify credits the customer's
+ * account as part of the refund, so the ledger only has to follow.
+ */
+async function recordStoreCreditRefund(shopDomain: string, refund: RefundPayload) {
+  const refunds = getSuccessfulRefunds(refund).filter(tx => isStoreCreditGateway(tx.gateway));
+  const refunded = sumMoney(refunds.map(tx => tx.amount || "0"));
+  if (refunded.lte(0)) return null;
+
+  const orderId = refund.order_id.toString();
+  const reference = `gid://shopify/Refund/${refund.id}`;
+  const refundCurrency = refunds.find(tx => tx.currency)?.currency;
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.storeCreditLedger.findFirst({
+      where: { shopDomain, type: LedgerEntryType.REFUND_CREDIT, shopifyReference: reference },
+    });
+    if (existing) return null;
+
+    // The store credit spent on the order, recorded in shop currency when it was paid
+    const payment = await tx.storeCreditLedger.findFirst({
+      where: {
+        shopDomain,
+        type: LedgerEntryType.ORDER_PAYMENT,
+        shopifyReference: `gid://shopify/Order/${orderId}`,
+      },
+    });
+    if (!payment) {
+      if (await isOrderPaidQueued(tx, shopDomain, orderId)) {
+        throw new Error(`Order ${orderId} is still waiting on its orders/paid event`);
+      }
+      console.warn(`Store credit refunded on order ${orderId} with no recorded redemption`);
+      return null;
+    }
+
+    const { currencyCode } = await getShopSettings(shopDomain, tx);
+    let amount = refunded;
+    if (refundCurrency && refundCurrency !== currencyCode) {
+      const transaction = await tx.cashbackTransaction.findUnique({
+        where: { shopDomain_shopifyOrderId: { shopDomain, shopifyOrderId: orderId } },
+        select: { presentmentCurrency: true, exchangeRate: true },
+      });
+      if (!transaction?.exchangeRate || transaction.presentmentCurrency !== refundCurrency) {
+        // No rate to convert at; reconciliation corrects the balance instead
+        console.warn(`Store credit refunded on order ${orderId} in ${refundCurrency} with no exchange rate`);
+        return null;
+      }
+      amount = roundToCents(refunded.dividedBy(transaction.exchangeRate));
+    }
+
+    const { entry } = await postLedgerEntry(tx, {
+      customerId: payment.customerId,
+      shopDomain,
+      amount: minMoney(amount, payment.amount.negated()),
+      type: LedgerEntryType.REFUND_CREDIT,
+      source: LedgerSource.SHOPIFY_ORDER,
+      shopifyReference: reference,
+      description: `Store credit refunded on order ${orderId}`,
+      reconciledAt: new Date(),
+    });
+
+    return entry;
+  });
+}
+
+/**
+ * Claw back cashback for a (partial) refund, pro rata against the original transaction
+ */
+export async function reverseCashbackForRefund(
+  shopDomain: string,
+  refund: RefundPayload,
+  admin?: AdminGraphQLClient
+): Promise<ReversalResult> {
+  const orderId = refund.order_id.toString();
+  const eligibleRefund = getEligibleRefundAmount(refund);
+
+  const storeCreditRefund = await recordStoreCreditRefund(shopDomain, refund);
+  if (storeCreditRefund) {
+    console.log(`💳 Mirrored ${storeCreditRefund.amount.toFixed(2)} store credit refunded on order ${orderId}`);
+  }
+
+  if (eligibleRefund.lte(0)) {
+    return { reversed: false, amount: ZERO, reason: "No cashback-eligible refund amount" };
+  }
+
+  const refundCurrency = refund.transactions?.find(tx => tx.currency)?.currency;
+
+  return reverseCashback({
+    shopDomain,
+    orderId,
+    reference: `gid://shopify/Refund/${refund.id}`,
+    refundCurrency,
+    admin,
+    refundAmount: eligibleRefund,
+    description: `Cashback reversed for refund on order ${orderId}`,
+  });
+}
+
+/**
+ * Claw back all remaining cashback for a cancelled order
+ */
+export async function reverseCashbackForCancellation(
+  shopDomain: string,
+  order: CancelledOrderPayload,
+  admin?: AdminGraphQLClient
+): Promise<ReversalResult> {
+  const orderId = order.id.toString();
+
+  return reverseCashback({
+    shopDomain,
+    orderId,
+    reference: `gid://shopify/Order/${orderId}`,
+    admin,
+    refundAmount: null,
+    description: `Cashback reversed for cancelled order ${orderId}${
+      order.cancel_reason ? ` (${order.cancel_reason})` : ""
+    }`,
+  });
+}
+
+/**
+ * Claw back cashback for refunds made while a guest order was unclaimed,
+ * once the buyer has claimed it. refundedAmount is in shop currency.
+ */
+export async function reverseCashbackForGuestRefunds(
+  shopDomain: string,
+  orderId: string,
+  refundedAmount: Decimal,
+  admin?: AdminGraphQLClient
+): Promise<ReversalResult> {
+  return reverseCashback({
+    shopDomain,
+    orderId,
+    reference: `gid://shopify/Order/${orderId}#unclaimed-refunds`,
+    admin,
+    refundAmount: refundedAmount,
+    description: `Cashback reversed for refunds on order ${orderId} before it was claimed`,
+  });
+}
+
+interface ReverseCashbackParams {
+  shopDomain: string;
+  orderId: string;
+  reference: string;
+  refundCurrency?: string; // Currency refundAmount was paid back in
+  admin?: AdminGraphQLClient;
+  refundAmount: Decimal | null; // null = reverse everything that is left
+  description: string;
+}
+
+async function reverseCashback(params: ReverseCashbackParams): Promise<ReversalResult> {
+  const { shopDomain, orderId, reference, refundCurrency, admin, refundAmount, description } = params;
+
+  // Reserve the reversal locally first so a redelivered webhook can never debit twice
+  const reversal = await prisma.$transaction(async (tx) => {
+    const alreadyReversed = await tx.storeCreditLedger.findFirst({
+      where: {
+        shopDomain,
+        type: LedgerEntryType.CASHBACK_REVERSAL,
+        shopifyReference: reference,
+      },
+    });
+
+    if (alreadyReversed) {
+      return { reversed: false as const, reason: "Already processed" };
+    }
+
+    const transaction = await tx.cashbackTransaction.findUnique({
+      where: {
+        shopDomain_shopifyOrderId: {
+          shopDomain,
+          shopifyOrderId: orderId,
+        },
+      },
+      include: { customer: true },
+    });
+
+    if (!transaction) {
+      // Thrown so the webhook is retried after the paid order is processed
+      if (await isOrderPaidQueued(tx, shopDomain, orderId)) {
+        throw new Error(`Order ${orderId} is still waiting on its orders/paid event`);
+      }
+
+      // Guest orders nobody has claimed yet: reduced when claimed, like held cashback
+      const unclaimed = await applyUnclaimedRefund(tx, shopDomain, orderId, {
+        reference,
+        amount: refundAmount,
+        currency: refundCurrency,
+      });
+      if (unclaimed) {
+        return {
+          reversed: false as const,
+          reason: unclaimed === UnclaimedCashbackStatus.CANCELLED
+            ? "Unclaimed guest cashback cancelled"
+            : "Unclaimed guest cashback reduced",
+        };
+      }
+      return { reversed: false as const, reason: "No cashback recorded for order" };
+    }
+
+    if (transaction.status === TransactionStatus.REVERSED) {
+      return { reversed: false as const, reason: "Cashback already fully reversed" };
+    }
+
+    const held = transaction.status === TransactionStatus.HELD;
+    if (held && transaction.heldRefunds.includes(reference)) {
+      return { reversed: false as const, reason: "Already processed" };
+    }
+
+    // The credit may have reached Shopify; retried once the reconciler settles it
+    if (transaction.status === TransactionStatus.PENDING) {
+      throw new Error(`Cashback for order ${orderId} is still being credited in Shopify`);
+    }
+    // Never credited in Shopify: reversed locally, and the reconciler only
+    // issues what is left
+    const creditedInShopify = transaction.status !== TransactionStatus.SHOPIFY_SYNC_FAILED;
+
+    const remainingCashback = transaction.cashbackAmount.minus(transaction.reversedCashback);
+    if (remainingCashback.lte(0)) {
+      return { reversed: false as const, reason: "Cashback already fully reversed" };
+    }
+
+    // Refunds go back in the currency the customer paid with, while order
+    // amounts are tracked in shop currency
+    const refundInShopCurrency =
+      refundAmount !== null &&
+      transaction.exchangeRate &&
+      refundCurrency === transaction.presentmentCurrency
+        ? roundToCents(refundAmount.dividedBy(transaction.exchangeRate))
+        : refundAmount;
+
+    // Work out the cumulative reversal target so rounding never drifts across partial refunds
+    const refundedAmount = refundInShopCurrency === null
+      ? transaction.orderAmount
+      : minMoney(transaction.orderAmount, transaction.refundedAmount.plus(refundInShopCurrency));
+    const fullyReversed = refundedAmount.gte(transaction.orderAmount);
+    const targetReversal = proRata(transaction.cashbackAmount, refundedAmount, transaction.orderAmount);
+    const amount = maxMoney(0, minMoney(
+      remainingCashback,
+      targetReversal.minus(transaction.reversedCashback)
+    ));
+
+    // Held cashback was never credited, so the refund only lowers what the
+    // release will credit; a full refund or cancellation drops it
+    if (held) {
+      const reduced = await tx.cashbackTransaction.updateMany({
+        where: {
+          id: transaction.id,
+          status: TransactionStatus.HELD,
+          reversedCashback: transaction.reversedCashback,
+        },
+        data: {
+          refundedAmount,
+          reversedCashback: { increment: amount },
+          heldRefunds: { push: reference },
+          ...(fullyReversed ? { status: TransactionStatus.REVERSED, releaseAt: null } : {}),
+        },
+      });
+      // Released or refunded in the meantime: the webhook retry starts over
+      if (reduced.count === 0) {
+        throw new Error(`Held cashback for order ${orderId} changed during the refund`);
+      }
+      return {
+        reversed: false as const,
+        reason: fullyReversed ? "Held cashback cancelled" : "Held cashback reduced",
+        customerId: transaction.customerId,
+      };
+    }
+
+    // Only against the status read above, so a retry the reconciler has
+    // just claimed is not credited in full after the reversal
+    const updated = await tx.cashbackTransaction.updateMany({
+      where: {
+        id: transaction.id,
+        status: transaction.status,
+        reversedCashback: transaction.reversedCashback,
+      },
+      data: {
+        refundedAmount,
+        reversedCashback: { increment: amount },
+        ...(fullyReversed ? { status: TransactionStatus.REVERSED } : {}),
+      },
+    });
+    if (updated.count === 0) {
+      throw new Error(`Cashback for order ${orderId} changed during the reversal`);
+    }
+
+    // Debited from the account the cashback was credited to; kept on the
+    // entry until Shopify confirms, so a failed debit is retried
+    const { entry } = await postLedgerEntry(tx, {
+      customerId: transaction.customerId,
+      shopDomain,
+      amount: amount.negated(),
+      type: LedgerEntryType.CASHBACK_REVERSAL,
+      source: LedgerSource.SHOPIFY_ORDER,
+      shopifyReference: reference,
+      description,
+      cashbackTransactionId: transaction.id,
+      shopifyDebit: creditedInShopify ? getShopifyCredit(transaction, amount) : undefined,
+    });
+
+    return {
+      reversed: true as const,
+      amount,
+      currency: transaction.currency,
+      ledgerEntryId: entry.id,
+      customerId: transaction.customerId,
+    };
+  });
+
+  if (!reversal.reversed) {
+    console.log(`⏭️  Skipping reversal for order ${orderId}: ${reversal.reason}`);
+    // A cancelled hold takes the order out of the customer's tier spend
+    if (reversal.customerId) await reevaluateTier(reversal.customerId, shopDomain);
+    return { reversed: false, amount: ZERO, reason: reversal.reason };
+  }
+
+  console.log(`↩️  Reversed ${reversal.amount.toFixed(2)} ${reversal.currency} cashback for order ${orderId}`);
+
+  // Failures stay scheduled on the ledger entry for the debit-sync job
+  let shopifySynced = false;
+  if (admin) {
+    try {
+      shopifySynced = await syncLedgerDebit(admin, reversal.ledgerEntryId);
+    } catch (error) {
+      console.error("Shopify debit after reversal failed:", error);
+    }
+  }
+
+  await reevaluateTier(reversal.customerId, shopDomain);
+
+  return { reversed: true, amount: reversal.amount, shopifySynced };
+}
+
+// Refunded spend no longer counts toward the customer's tier
+async function reevaluateTier(customerId: string, shopDomain: string) {
+  try {
+    await evaluateCustomerTier(customerId, shopDomain);
+  } catch (error) {
+    console.error("Tier re-evaluation after reversal failed:", error);
+  }
+}
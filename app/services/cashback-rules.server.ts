@@ -0,0 +1,275 @@
+// app/services/cashback-rules.server.ts
+import prisma from "../db.server";
+import { CashbackRuleTarget, type CashbackRule } from "@prisma/client";
+import { roundDownToCents, sumMoney, toMoney, ZERO, type Decimal } from "../utils/money";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface RuleLineItem {
+  title: string;
+  quantity: number;
+  amount: Decimal; // After line and order discounts, in shop currency
+  productId: string | null;
+  productType: string | null;
+  vendor: string | null;
+  collectionIds: string[];
+}
+
+export interface RulePayment {
+  gateway: string;
+  amount: Decimal;
+}
+
+export interface RuleOrder {
+  lineItems: RuleLineItem[];
+  shippingAmount: Decimal;
+  taxAmount: Decimal;
+  taxesIncluded: boolean;
+  // Payments that earn cashback at all, i.e. not gift cards or store credit
+  payments: RulePayment[];
+}
+
+export interface WeightedLine {
+  label: string;
+  amount: Decimal;
+  weightPercent: number;
+  ruleName: string | null;
+  collectionIds: string[]; // Line items only, for campaigns targeting collections
+}
+
+export interface CashbackRuleBreakdown {
+  lines: WeightedLine[];
+  payments: WeightedLine[];
+  orderValue: Decimal;
+  weightedOrderValue: Decimal;
+  paymentAmount: Decimal;
+  weightedPaymentAmount: Decimal;
+  eligibleAmount: Decimal;
+}
+
+/**
+ * Shape of an order's line items, shipping and taxes as fetched from the
+ * Admin API, shared by cashback issuance and the rules preview
+ */
+export const ORDER_RULE_FIELDS = `
+  taxesIncluded
+  totalShippingPriceSet {
+    shopMoney {
+      amount
+    }
+  }
+  totalTaxSet {
+    shopMoney {
+      amount
+    }
+  }
+  lineItems(first: 250) {
+    edges {
+      node {
+        title
+        quantity
+        originalTotalSet {
+          shopMoney {
+            amount
+          }
+        }
+        discountAllocations {
+          allocatedAmountSet {
+            shopMoney {
+              amount
+            }
+          }
+        }
+        product {
+          id
+          productType
+          vendor
+          collections(first: 25) {
+            edges {
+              node {
+                id
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export interface OrderRuleFields {
+  taxesIncluded: boolean;
+  totalShippingPriceSet?: { shopMoney: { amount: string } };
+  totalTaxSet?: { shopMoney: { amount: string } };
+  lineItems?: {
+    edges: Array<{
+      node: {
+        title: string;
+        quantity: number;
+        originalTotalSet: { shopMoney: { amount: string } };
+        discountAllocations: Array<{ allocatedAmountSet: { shopMoney: { amount: string } } }>;
+        product: {
+          id: string;
+          productType: string;
+          vendor: string;
+          collections: { edges: Array<{ node: { id: string } }> };
+        } | null;
+      };
+    }>;
+  };
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Active rules for a shop in the order they are matched
+ */
+export async function getActiveCashbackRules(shopDomain: string) {
+  return prisma.cashbackRule.findMany({
+    where: { shopDomain, isActive: true },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Turn the Admin API order fields into the input rules are evaluated against
+ */
+export function toRuleOrder(order: OrderRuleFields, payments: RulePayment[]): RuleOrder {
+  const lineItems = (order.lineItems?.edges || []).map(({ node }) => ({
+    title: node.title,
+    quantity: node.quantity,
+    amount: toMoney(node.originalTotalSet.shopMoney.amount).minus(
+      sumMoney(node.discountAllocations.map((d) => d.allocatedAmountSet.shopMoney.amount))
+    ),
+    productId: node.product?.id ?? null,
+    productType: node.product?.productType || null,
+    vendor: node.product?.vendor || null,
+    collectionIds: node.product?.collections.edges.map((e) => e.node.id) ?? [],
+  }));
+
+  return {
+    lineItems,
+    shippingAmount: toMoney(order.totalShippingPriceSet?.shopMoney.amount),
+    taxAmount: toMoney(order.totalTaxSet?.shopMoney.amount),
+    taxesIncluded: order.taxesIncluded,
+    payments,
+  };
+}
+
+/**
+ * Work out how much of an order earns cashback. Line items, shipping and
+ * taxes are weighted by the first matching rule and scale the eligible
+ * payments by the share of the order they make up; gateway rules weight
+ * the payments themselves. With no rules this is the eligible payments.
+ */
+export function applyCashbackRules(order: RuleOrder, rules: CashbackRule[]): CashbackRuleBreakdown {
+  const lines: WeightedLine[] = order.lineItems.map((item) => ({
+    ...weigh(item.quantity > 1 ? `${item.title} × ${item.quantity}` : item.title, item.amount, rules, (rule) =>
+      matchesLineItem(rule, item)
+    ),
+    collectionIds: item.collectionIds,
+  }));
+
+  if (order.shippingAmount.gt(0)) {
+    lines.push(weigh("Shipping", order.shippingAmount, rules, (rule) => rule.target === CashbackRuleTarget.SHIPPING));
+  }
+
+  let orderValue = sumMoney(lines.map((line) => line.amount));
+  let weightedOrderValue = sumMoney(lines.map(weightedAmount));
+
+  if (order.taxAmount.gt(0)) {
+    const taxLine = weigh("Taxes", order.taxAmount, rules, (rule) => rule.target === CashbackRuleTarget.TAX);
+    lines.push(taxLine);
+
+    // Included taxes are already inside the line amounts, so they only
+    // count as the difference their rule makes
+    if (order.taxesIncluded) {
+      weightedOrderValue = weightedOrderValue.plus(weightedAmount(taxLine)).minus(taxLine.amount);
+    } else {
+      orderValue = orderValue.plus(taxLine.amount);
+      weightedOrderValue = weightedOrderValue.plus(weightedAmount(taxLine));
+    }
+  }
+
+  const payments = order.payments.map((payment) =>
+    weigh(payment.gateway, payment.amount, rules, (rule) => matchesGateway(rule, payment.gateway))
+  );
+  const paymentAmount = sumMoney(payments.map((payment) => payment.amount));
+  const weightedPaymentAmount = sumMoney(payments.map(weightedAmount));
+
+  const eligibleAmount = orderValue.gt(0)
+    ? weightedPaymentAmount.times(weightedOrderValue).dividedBy(orderValue)
+    : weightedPaymentAmount;
+
+  return {
+    lines,
+    payments,
+    orderValue,
+    weightedOrderValue,
+    paymentAmount,
+    weightedPaymentAmount,
+    eligibleAmount: eligibleAmount.gt(0) ? roundDownToCents(eligibleAmount) : ZERO,
+  };
+}
+
+function weigh(
+  label: string,
+  amount: Decimal,
+  rules: CashbackRule[],
+  matches: (rule: CashbackRule) => boolean
+): WeightedLine {
+  const rule = rules.find(matches);
+
+  return {
+    label,
+    amount,
+    weightPercent: rule ? rule.weightPercent : 100,
+    ruleName: rule?.name ?? null,
+    collectionIds: [],
+  };
+}
+
+export function weightedAmount(line: WeightedLine) {
+  return line.amount.times(line.weightPercent).dividedBy(100);
+}
+
+function matchesLineItem(rule: CashbackRule, item: RuleLineItem) {
+  const value = rule.value?.trim().toLowerCase();
+  if (!value) return false;
+
+  switch (rule.target) {
+    case CashbackRuleTarget.COLLECTION:
+      return item.collectionIds.some((id) => sameId(id, value));
+    case CashbackRuleTarget.PRODUCT:
+      return !!item.productId && sameId(item.productId, value);
+    case CashbackRuleTarget.PRODUCT_TYPE:
+      return item.productType?.toLowerCase() === value;
+    case CashbackRuleTarget.VENDOR:
+      return item.vendor?.toLowerCase() === value;
+    default:
+      return false;
+  }
+}
+
+function matchesGateway(rule: CashbackRule, gateway: string) {
+  const value = rule.value?.trim().toLowerCase();
+  return rule.target === CashbackRuleTarget.GATEWAY && !!value && gateway.toLowerCase().includes(value);
+}
+
+/**
+ * Whether a line item belongs to any of the given collections
+ */
+export function lineInCollections(line: WeightedLine, collectionIds: string[]) {
+  return collectionIds.some((value) =>
+    line.collectionIds.some((id) => sameId(id, value.trim().toLowerCase()))
+  );
+}
+
+// Merchants paste either the numeric ID from the admin URL or the full GID
+function sameId(gid: string, value: string) {
+  return gid.toLowerCase() === value || gid.split("/").pop() === value;
+}
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { syncLedgerDebit } from "./cashback-sync.server";
+import { toMoney } from "../utils/money";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    storeCreditLedger: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../db.server", () => ({ default: prisma }));
+
+function pendingDebit() {
+  return {
+    id: "entry-1",
+    shopifyDebit: toMoney("4.50"),
+    shopifyCurrency: "USD",
+    shopifyReference: null,
+    reconciledAt: null,
+    debitAttempts: 0,
+    nextDebitAttemptAt: new Date(),
+    customer: { shopifyCustomerId: "1001" },
+  };
+}
+
+function jsonResponse(body: unknown) {
+  return new Response(JSON.stringify(body));
+}
+
+describe("syncLedgerDebit", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    prisma.storeCreditLedger.findUnique.mockReset().mockResolvedValue(pendingDebit());
+    prisma.storeCreditLedger.updateMany.mockReset().mockResolvedValue({ count: 1 });
+    prisma.storeCreditLedger.update.mockReset().mockResolvedValue({});
+  });
+
+  it("reconciles without retrying when the debit request throws", async () => {
+    const admin = { graphql: vi.fn().mockRejectedValue(new Error("Request timed out")) };
+
+    const synced = await syncLedgerDebit(admin, "entry-1");
+
+    expect(synced).toBe(false);
+    expect(prisma.storeCreditLedger.update).toHaveBeenCalledWith({
+      where: { id: "entry-1" },
+      data: expect.objectContaining({ reconciledAt: expect.any(Date), nextDebitAttemptAt: null }),
+    });
+  });
+
+  it("reconciles without retrying when Shopify returns no transaction", async () => {
+    const admin = {
+      graphql: vi.fn().mockResolvedValue(jsonResponse({ data: { storeCreditAccountDebit: { userErrors: [] } } })),
+    };
+
+    await syncLedgerDebit(admin, "entry-1");
+
+    expect(prisma.storeCreditLedger.update).toHaveBeenCalledWith({
+      where: { id: "entry-1" },
+      data: expect.objectContaining({ reconciledAt: expect.any(Date), nextDebitAttemptAt: null }),
+    });
+  });
+
+  it("leaves a rejected debit for the next attempt", async () => {
+    const admin = {
+      graphql: vi.fn().mockResolvedValue(
+        jsonResponse({
+          data: { storeCreditAccountDebit: { userErrors: [{ message: "Insufficient funds" }] } },
+        })
+      ),
+    };
+
+    await syncLedgerDebit(admin, "entry-1");
+
+    expect(prisma.storeCreditLedger.update).toHaveBeenCalledWith({
+      where: { id: "entry-1" },
+      data: { lastDebitError: "Insufficient funds" },
+    });
+  });
+});
@@ -0,0 +1,329 @@
+// app/services/cashback-sync.server.ts
+import prisma from "../db.server";
+import { TransactionStatus, type CashbackTransaction } from "@prisma/client";
+import { convertMoney, type Decimal } from "../utils/money";
+import {
+  issueStoreCredit,
+  debitStoreCredit,
+  findStoreCreditTransaction,
+  type AdminGraphQLClient,
+} from "./store-credit.server";
+
+// A PENDING row younger than this may still have a request in flight
+const PENDING_GRACE_MS = 5 * 60 * 1000;
+// Shopify and server clocks are not perfectly aligned when matching transactions
+const CLOCK_SKEW_MS = 60 * 1000;
+// Failed credits and debits are retried with backoff (5m, 10m, 20m ... capped at 12h)
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 12 * 60 * 60 * 1000;
+export const MAX_SYNC_ATTEMPTS = 10;
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+type CreditedTransaction = Pick<
+  CashbackTransaction,
+  | "cashbackAmount"
+  | "reversedCashback"
+  | "currency"
+  | "presentmentCurrency"
+  | "presentmentCashbackAmount"
+  | "exchangeRate"
+>;
+
+/**
+ * Where a cashback transaction's credit lives in Shopify. Customers who
+ * paid in another currency are credited in it, so shop-currency amounts
+ * (by default the cashback left after any reversals, or part of it for a
+ * reversal) are converted at the rate recorded with the order.
+ */
+export function getShopifyCredit(
+  transaction: CreditedTransaction,
+  amount?: Decimal
+): { amount: Decimal; currency: string } {
+  const { presentmentCurrency, presentmentCashbackAmount, exchangeRate, reversedCashback } = transaction;
+  // Refunds before the credit reached Shopify are taken off locally only
+  const outstanding = transaction.cashbackAmount.minus(reversedCashback);
+
+  if (presentmentCurrency && presentmentCashbackAmount && exchangeRate) {
+    const whole = reversedCashback.isZero() ? presentmentCashbackAmount : convertMoney(outstanding, exchangeRate);
+    return {
+      amount: amount === undefined ? whole : convertMoney(amount, exchangeRate),
+      currency: presentmentCurrency,
+    };
+  }
+
+  return { amount: amount ?? outstanding, currency: transaction.currency };
+}
+
+/**
+ * Phase two of cashback issuance: credit Shopify for a reserved (PENDING)
+ * cashback transaction and record the outcome.
+ *
+ * - success            → SYNCED_TO_SHOPIFY
+ * - rejected by Shopify → SHOPIFY_SYNC_FAILED (safe to retry)
+ * - unknown outcome     → stays PENDING for the reconciler to resolve
+ */
+export async function syncCashbackToShopify(
+  admin: AdminGraphQLClient,
+  transactionId: string
+): Promise<TransactionStatus> {
+  const attemptedAt = new Date();
+
+  const transaction = await prisma.cashbackTransaction.update({
+    where: { id: transactionId },
+    data: {
+      lastSyncAttemptAt: attemptedAt,
+      syncAttempts: { increment: 1 },
+    },
+    include: { customer: true },
+  });
+
+  const credit = getShopifyCredit(transaction);
+  const result = await issueStoreCredit(
+    admin,
+    transaction.customer.shopifyCustomerId,
+    credit.amount,
+    credit.currency
+  );
+
+  if (result.success) {
+    await prisma.cashbackTransaction.update({
+      where: { id: transactionId },
+      data: {
+        status: TransactionStatus.SYNCED_TO_SHOPIFY,
+        shopifyTransactionId: result.transactionId,
+        lastSyncError: null,
+      },
+    });
+    return TransactionStatus.SYNCED_TO_SHOPIFY;
+  }
+
+  if (result.ambiguous) {
+    console.warn(`⚠️  Store credit outcome unknown for ${transactionId}, left PENDING: ${result.error}`);
+    await prisma.cashbackTransaction.update({
+      where: { id: transactionId },
+      data: { lastSyncError: result.error },
+    });
+    return TransactionStatus.PENDING;
+  }
+
+  await prisma.cashbackTransaction.update({
+    where: { id: transactionId },
+    data: {
+      status: TransactionStatus.SHOPIFY_SYNC_FAILED,
+      lastSyncError: result.error,
+    },
+  });
+  return TransactionStatus.SHOPIFY_SYNC_FAILED;
+}
+
+/**
+ * Resolve cashback transactions whose Shopify credit never completed.
+ * PENDING rows are first matched against the customer's store credit
+ * history so an issuance that did land is never repeated. Failed rows are
+ * re-issued with backoff until MAX_SYNC_ATTEMPTS.
+ */
+export async function reconcileCashbackTransactions(
+  shopDomain: string,
+  admin: AdminGraphQLClient
+) {
+  const staleBefore = new Date(Date.now() - PENDING_GRACE_MS);
+
+  const candidates = await prisma.cashbackTransaction.findMany({
+    where: {
+      shopDomain,
+      cashbackAmount: { gt: 0 },
+      syncAttempts: { lt: MAX_SYNC_ATTEMPTS },
+      OR: [
+        { status: TransactionStatus.SHOPIFY_SYNC_FAILED },
+        {
+          status: TransactionStatus.PENDING,
+          OR: [
+            { lastSyncAttemptAt: { lt: staleBefore } },
+            { lastSyncAttemptAt: null, createdAt: { lt: staleBefore } },
+          ],
+        },
+      ],
+    },
+    include: { customer: true },
+    orderBy: { lastSyncAttemptAt: { sort: "asc", nulls: "first" } },
+    take: 50,
+  });
+
+  const now = Date.now();
+  const transactions = candidates.filter((t) =>
+    t.status !== TransactionStatus.SHOPIFY_SYNC_FAILED ||
+    !t.lastSyncAttemptAt ||
+    t.lastSyncAttemptAt.getTime() + getRetryDelay(t.syncAttempts) <= now
+  );
+
+  const results = { checked: transactions.length, matched: 0, synced: 0, failed: 0, pending: 0 };
+
+  for (const transaction of transactions) {
+    try {
+      // Claim the row so an overlapping run does not issue it too
+      const claimed = await prisma.cashbackTransaction.updateMany({
+        where: {
+          id: transaction.id,
+          status: transaction.status,
+          lastSyncAttemptAt: transaction.lastSyncAttemptAt,
+        },
+        data: {
+          status: TransactionStatus.PENDING,
+          lastSyncAttemptAt: new Date(),
+        },
+      });
+      if (claimed.count === 0) continue;
+
+      if (transaction.status === TransactionStatus.PENDING) {
+        const alreadyMatched = await prisma.cashbackTransaction.findMany({
+          where: {
+            shopDomain,
+            customerId: transaction.customerId,
+            shopifyTransactionId: { not: null },
+          },
+          select: { shopifyTransactionId: true },
+        });
+
+        const since = new Date(
+          (transaction.lastSyncAttemptAt || transaction.createdAt).getTime() - CLOCK_SKEW_MS
+        );
+        const credit = getShopifyCredit(transaction);
+        const shopifyTransactionId = await findStoreCreditTransaction(
+          admin,
+          transaction.customer.shopifyCustomerId,
+          credit.amount,
+          credit.currency,
+          since,
+          alreadyMatched.map((t) => t.shopifyTransactionId!)
+        );
+
+        if (shopifyTransactionId) {
+          await prisma.cashbackTransaction.update({
+            where: { id: transaction.id },
+            data: {
+              status: TransactionStatus.SYNCED_TO_SHOPIFY,
+              shopifyTransactionId,
+              lastSyncError: null,
+            },
+          });
+          results.matched++;
+          continue;
+        }
+      }
+
+      const status = await syncCashbackToShopify(admin, transaction.id);
+      if (status === TransactionStatus.SYNCED_TO_SHOPIFY) results.synced++;
+      if (status === TransactionStatus.SHOPIFY_SYNC_FAILED) results.failed++;
+      if (status === TransactionStatus.PENDING) results.pending++;
+    } catch (error) {
+      // Lookups that fail leave the row PENDING; it is picked up again next run
+      console.error(`Cashback reconciliation failed for ${transaction.id}:`, error);
+      results.pending++;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Push a ledger debit Shopify has not seen yet (a clawback or expired
+ * credit). The next attempt is scheduled before the call, so an
+ * overlapping run waits out the backoff instead of debiting twice.
+ *
+ * - success             → reconciled
+ * - rejected by Shopify → retried with backoff until MAX_SYNC_ATTEMPTS
+ * - unknown outcome     → reconciled without retrying; the next
+ *                         reconciliation run picks up any drift
+ *
+ * Returns whether Shopify confirmed the debit.
+ */
+export async function syncLedgerDebit(admin: AdminGraphQLClient, entryId: string): Promise<boolean> {
+  const entry = await prisma.storeCreditLedger.findUnique({
+    where: { id: entryId },
+    include: { customer: true },
+  });
+  if (!entry?.shopifyDebit || !entry.shopifyCurrency || entry.reconciledAt || !entry.nextDebitAttemptAt) {
+    return false;
+  }
+
+  const attempts = entry.debitAttempts + 1;
+  const claimed = await prisma.storeCreditLedger.updateMany({
+    where: { id: entry.id, reconciledAt: null, nextDebitAttemptAt: entry.nextDebitAttemptAt },
+    data: {
+      debitAttempts: attempts,
+      nextDebitAttemptAt: attempts >= MAX_SYNC_ATTEMPTS ? null : new Date(Date.now() + getRetryDelay(attempts)),
+    },
+  });
+  if (claimed.count === 0) return false;
+
+  const result = await debitStoreCredit(
+    admin,
+    entry.customer.shopifyCustomerId,
+    entry.shopifyDebit,
+    entry.shopifyCurrency
+  );
+
+  if (result.success) {
+    await prisma.storeCreditLedger.update({
+      where: { id: entry.id },
+      data: {
+        reconciledAt: new Date(),
+        nextDebitAttemptAt: null,
+        lastDebitError: null,
+        shopifyReference: entry.shopifyReference ?? result.transactionId,
+      },
+    });
+    return true;
+  }
+
+  if (result.ambiguous) {
+    // The debit may have landed; never risk debiting twice
+    console.warn(`⚠️  Store credit debit outcome unknown for ledger entry ${entry.id}: ${result.error}`);
+    await prisma.storeCreditLedger.update({
+      where: { id: entry.id },
+      data: { reconciledAt: new Date(), nextDebitAttemptAt: null, lastDebitError: result.error ?? null },
+    });
+    return false;
+  }
+
+  console.error(`   ❌ Shopify debit failed for ledger entry ${entry.id} (attempt ${attempts}): ${result.error}`);
+  await prisma.storeCreditLedger.update({
+    where: { id: entry.id },
+    data: { lastDebitError: result.error ?? null },
+  });
+  return false;
+}
+
+/**
+ * Retry ledger debits Shopify has not confirmed, soonest due first, so
+ * entries backing off never hold up newer ones.
+ */
+export async function syncPendingDebits(shopDomain: string, admin: AdminGraphQLClient) {
+  const entries = await prisma.storeCreditLedger.findMany({
+    where: { shopDomain, reconciledAt: null, nextDebitAttemptAt: { lte: new Date() } },
+    orderBy: { nextDebitAttemptAt: "asc" },
+    take: 50,
+    select: { id: true },
+  });
+
+  const results = { checked: entries.length, synced: 0, failed: 0 };
+
+  for (const { id } of entries) {
+    try {
+      if (await syncLedgerDebit(admin, id)) {
+        results.synced++;
+      } else {
+        results.failed++;
+      }
+    } catch (error) {
+      // Left scheduled; the claim above already pushed the next attempt back
+      console.error(`Shopify debit sync failed for ledger entry ${id}:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,188 @@
+// app/services/credit-expiry.server.ts
+import prisma from "../db.server";
+import { LedgerEntryType, LedgerSource, type CreditLot } from "@prisma/client";
+import { addDays } from "date-fns";
+import { postLedgerEntry } from "./store-credit-ledger.server";
+import { getShopSettings } from "./shop-settings.server";
+import { sendCreditExpiryWarning } from "./email.server";
+import type { AdminGraphQLClient } from "./store-credit.server";
+import { syncPendingDebits } from "./cashback-sync.server";
+import {
+  convertMoney,
+  maxMoney,
+  minMoney,
+  proRata,
+  roundDownToCents,
+  sumMoney,
+  ZERO,
+  type Decimal,
+} from "../utils/money";
+
+type HeldLot = Pick<CreditLot, "remaining" | "currency" | "exchangeRate">;
+
+/**
+ * What is left of a lot in the store credit account it is held in. Lot
+ * amounts are in shop currency; lots credited in another currency carry
+ * the rate recorded with their order.
+ */
+function getLotCredit(lot: HeldLot, shopCurrency: string) {
+  return lot.exchangeRate
+    ? { amount: convertMoney(lot.remaining, lot.exchangeRate), currency: lot.currency }
+    : { amount: lot.remaining, currency: shopCurrency };
+}
+
+/**
+ * Daily expiry job for a shop: warn customers about lots expiring soon,
+ * expire lots past their lifetime, and push expiry debits to Shopify.
+ */
+export async function processCreditExpiry(shopDomain: string, admin: AdminGraphQLClient) {
+  const warnings = await sendExpiryWarnings(shopDomain);
+  const expired = await expireCreditLots(shopDomain);
+  const debits = await syncPendingDebits(shopDomain, admin);
+
+  return { warnings, ...expired, debits };
+}
+
+/**
+ * Email each customer once about lots expiring within the shop's warning window
+ */
+export async function sendExpiryWarnings(shopDomain: string) {
+  const settings = await getShopSettings(shopDomain);
+  if (!settings.creditLifetimeMonths || settings.expiryWarningDays <= 0) return 0;
+
+  const now = new Date();
+  const lots = await prisma.creditLot.findMany({
+    where: {
+      shopDomain,
+      remaining: { gt: 0 },
+      expiredAt: null,
+      warningSentAt: null,
+      expiresAt: { gt: now, lte: addDays(now, settings.expiryWarningDays) },
+    },
+    orderBy: { expiresAt: "asc" },
+  });
+
+  const byCustomer = new Map<string, typeof lots>();
+  for (const lot of lots) {
+    byCustomer.set(lot.customerId, [...(byCustomer.get(lot.customerId) || []), lot]);
+  }
+
+  let sent = 0;
+  for (const [customerId, customerLots] of byCustomer) {
+    // Quoted in the account the credit is held in; lots spread over
+    // several accounts are quoted in shop currency
+    const credits = customerLots.map((lot) => getLotCredit(lot, settings.currencyCode));
+    const [currency, ...others] = [...new Set(credits.map((credit) => credit.currency))];
+    const expiring = others.length === 0
+      ? { amount: sumMoney(credits.map((credit) => credit.amount)), currency }
+      : { amount: sumMoney(customerLots.map((lot) => lot.remaining)), currency: settings.currencyCode };
+
+    const result = await sendCreditExpiryWarning(
+      customerId,
+      shopDomain,
+      expiring.amount,
+      customerLots[0].expiresAt!,
+      expiring.currency
+    );
+
+    // Opted-out and redacted customers count as warned so they aren't retried every day
+    if (result.success || result.error?.includes("opted out") || result.error?.includes("redacted")) {
+      await prisma.creditLot.updateMany({
+        where: { id: { in: customerLots.map((lot) => lot.id) } },
+        data: { warningSentAt: now },
+      });
+    }
+    if (result.success) sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Expire lots past their lifetime and debit the local balance. Lots are
+ * debited in Shopify from the account they were credited to, one ledger
+ * entry per account, and pushed by syncPendingDebits.
+ */
+export async function expireCreditLots(shopDomain: string) {
+  const now = new Date();
+  const { currencyCode } = await getShopSettings(shopDomain);
+  const lots = await prisma.creditLot.findMany({
+    where: {
+      shopDomain,
+      remaining: { gt: 0 },
+      expiredAt: null,
+      expiresAt: { lte: now },
+    },
+    select: { customerId: true },
+    distinct: ["customerId"],
+  });
+
+  let customersExpired = 0;
+  let amountExpired = ZERO;
+
+  for (const { customerId } of lots) {
+    try {
+      const expired = await prisma.$transaction(async (tx) => {
+        const dueLots = await tx.creditLot.findMany({
+          where: { customerId, remaining: { gt: 0 }, expiredAt: null, expiresAt: { lte: now } },
+          orderBy: { expiresAt: "asc" },
+        });
+        if (dueLots.length === 0) return ZERO;
+
+        const customer = await tx.customer.findUniqueOrThrow({ where: { id: customerId } });
+
+        // Shop-currency totals and the matching Shopify debit per account
+        const groups = new Map<string, { amount: Decimal; debit: Decimal; lots: number }>();
+        for (const lot of dueLots) {
+          const credit = getLotCredit(lot, currencyCode);
+          const group = groups.get(credit.currency) ?? { amount: ZERO, debit: ZERO, lots: 0 };
+          groups.set(credit.currency, {
+            amount: group.amount.plus(lot.remaining),
+            debit: group.debit.plus(credit.amount),
+            lots: group.lots + 1,
+          });
+        }
+
+        await tx.creditLot.updateMany({
+          where: { id: { in: dueLots.map((lot) => lot.id) } },
+          data: { remaining: 0, expiredAt: now },
+        });
+
+        // Never expire more than the customer actually holds
+        let available = maxMoney(0, customer.storeCredit);
+        let total = ZERO;
+
+        for (const [currency, group] of groups) {
+          const amount = roundDownToCents(minMoney(group.amount, available));
+          if (amount.lte(0)) continue;
+          available = available.minus(amount);
+          total = total.plus(amount);
+
+          const debit = proRata(group.debit, amount, group.amount);
+
+          await postLedgerEntry(tx, {
+            customerId,
+            shopDomain,
+            amount: amount.negated(),
+            type: LedgerEntryType.CREDIT_EXPIRED,
+            source: LedgerSource.APP_CASHBACK,
+            description: `${group.lots} cashback ${group.lots === 1 ? "credit" : "credits"} expired`,
+            consumeLots: false, // The expired lots were closed above
+            shopifyDebit: { amount: debit, currency },
+          });
+        }
+
+        return total;
+      });
+
+      if (expired.gt(0)) {
+        customersExpired++;
+        amountExpired = amountExpired.plus(expired);
+      }
+    } catch (error) {
+      console.error(`Credit expiry failed for customer ${customerId}:`, error);
+    }
+  }
+
+  return { customersExpired, amountExpired };
+}
@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Prisma } from "@prisma/client";
+
+// Runs against a migrated Postgres database given as TEST_DATABASE_URL;
+// skipped without one. Everything it writes is under its own shop.
+// Loaded only then, so the client never starts without a database.
+async function loadModules() {
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+  const [{ default: prisma }, tiers] = await Promise.all([
+    import("../db.server"),
+    import("./customer-tier.server"),
+  ]);
+  return { prisma, ...tiers };
+}
+
+const SHOP = `tier-test-${Date.now()}.myshopify.com`;
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)("membership history in the database", () => {
+  let modules: Awaited<ReturnType<typeof loadModules>>;
+  let customerId: string;
+  let goldId: string;
+
+  beforeAll(async () => {
+    modules = await loadModules();
+    const { prisma, assignInitialTier } = modules;
+    await prisma.tier.create({ data: { shopDomain: SHOP, name: "Bronze", cashbackPercent: 1 } });
+    await prisma.tier.create({
+      data: { shopDomain: SHOP, name: "Silver", cashbackPercent: 3, minSpend: 500 },
+    });
+    const gold = await prisma.tier.create({
+      data: { shopDomain: SHOP, name: "Gold", cashbackPercent: 5, minSpend: 2000 },
+    });
+    goldId = gold.id;
+
+    const customer = await prisma.customer.create({
+      data: { shopDomain: SHOP, shopifyCustomerId: "1001", email: "a@example.com" },
+    });
+    customerId = customer.id;
+    await assignInitialTier(customerId, SHOP);
+  });
+
+  afterAll(async () => {
+    const { prisma } = modules;
+    const where = { customer: { shopDomain: SHOP } };
+    await prisma.tierChangeLog.deleteMany({ where });
+    await prisma.customerAnalytics.deleteMany({ where: { shopDomain: SHOP } });
+    await prisma.customerMembership.deleteMany({ where });
+    await prisma.cashbackTransaction.deleteMany({ where: { shopDomain: SHOP } });
+    await prisma.customer.deleteMany({ where: { shopDomain: SHOP } });
+    await prisma.tier.deleteMany({ where: { shopDomain: SHOP } });
+  });
+
+  const activeCount = () => modules.prisma.customerMembership.count({ where: { customerId, isActive: true } });
+
+  it("rejects a second active membership", async () => {
+    const { prisma } = modules;
+    const error = await prisma.customerMembership
+      .create({ data: { customerId, tierId: goldId, isActive: true } })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(Prisma.PrismaClientKnownRequestError);
+    expect(error.code).toBe("P2002");
+    expect(await activeCount()).toBe(1);
+  });
+
+  it("keeps one active membership when evaluations race", async () => {
+    const { prisma, evaluateCustomerTier } = modules;
+    await prisma.cashbackTransaction.create({
+      data: {
+        shopDomain: SHOP,
+        customerId,
+        shopifyOrderId: "5001",
+        orderAmount: 650,
+        cashbackAmount: 6.5,
+        cashbackPercent: 1,
+      },
+    });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => evaluateCustomerTier(customerId, SHOP))
+    );
+
+    expect(results.every((result) => result.status === "fulfilled")).toBe(true);
+    expect(await activeCount()).toBe(1);
+  });
+
+  it("keeps unlimited inactive history", async () => {
+    const { prisma, assignTierManually } = modules;
+    await assignTierManually(customerId, goldId, SHOP, "admin@example.com");
+    const bronze = await prisma.tier.findFirstOrThrow({ where: { shopDomain: SHOP, name: "Bronze" } });
+    await assignTierManually(customerId, bronze.id, SHOP, "admin@example.com");
+
+    const history = await prisma.customerMembership.findMany({ where: { customerId } });
+    expect(history.filter((m) => !m.isActive).length).toBeGreaterThanOrEqual(3);
+    expect(await activeCount()).toBe(1);
+  });
+});
@@ -0,0 +1,437 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AssignmentType,
+  DowngradeProtection,
+  EvaluationPeriod,
+  TierChangeType,
+  TierCriteriaOperator,
+  TransactionStatus,
+} from "@prisma/client";
+import {
+  assignInitialTier,
+  assignTierManually,
+  enrollCustomer,
+  evaluateCustomerTier,
+  evaluateTierAfterOrder,
+} from "./customer-tier.server";
+import { toMoney } from "../utils/money";
+
+/**
+ * In-memory stand-in for the tables the tier service touches. Like the
+ * database, it allows one active membership per customer (the partial
+ * unique index) and holds `SELECT ... FOR UPDATE` locks until the
+ * transaction that took them ends.
+ */
+const fake = vi.hoisted(() => {
+  type Row = Record<string, any>;
+  let nextId = 0;
+  const tables: Record<string, Row[]> = {};
+  const locks = new Map<string, Promise<void>>();
+
+  const reset = () => {
+    nextId = 0;
+    locks.clear();
+    for (const name of ["tier", "customer", "customerMembership", "tierChangeLog", "cashbackTransaction", "customerAnalytics"]) {
+      tables[name] = [];
+    }
+  };
+
+  const matches = (row: Row, where: Row = {}) =>
+    Object.entries(where).every(([key, condition]) => {
+      if (condition !== null && typeof condition === "object" && !(condition instanceof Date)) {
+        if ("not" in condition) return row[key] !== condition.not;
+        if ("gt" in condition) return row[key] > condition.gt;
+        if ("in" in condition) return condition.in.includes(row[key]);
+        return true;
+      }
+      return (row[key] ?? null) === condition;
+    });
+
+  const sortBy = (rows: Row[], orderBy?: Row) => {
+    if (!orderBy) return rows;
+    const [[key, direction]] = Object.entries(orderBy);
+    const sign = direction === "desc" ? -1 : 1;
+    return [...rows].sort((a, b) => (a[key] > b[key] ? sign : a[key] < b[key] ? -sign : 0));
+  };
+
+  const applyData = (row: Row, data: Row) => {
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== null && typeof value === "object" && "increment" in value) {
+        row[key] = typeof row[key] === "number" ? row[key] + value.increment : row[key].plus(value.increment);
+      } else if (value !== undefined) {
+        row[key] = value;
+      }
+    }
+    row.updatedAt = new Date();
+    return row;
+  };
+
+  const withTier = (membership: Row | undefined, include?: Row) =>
+    membership && include?.tier
+      ? { ...membership, tier: tables.tier.find((t) => t.id === membership.tierId) }
+      : membership && { ...membership };
+
+  const model = (name: string) => ({
+    findUnique: async ({ where }: Row) => {
+      const row = tables[name].find((r) => matches(r, where));
+      return row ? { ...row } : null;
+    },
+    findFirst: async ({ where, orderBy }: Row) => {
+      const row = sortBy(tables[name].filter((r) => matches(r, where)), orderBy)[0];
+      return row ? { ...row } : null;
+    },
+    findMany: async ({ where, orderBy }: Row = {}) =>
+      sortBy(tables[name].filter((r) => matches(r, where)), orderBy).map((r) => ({ ...r })),
+    create: async ({ data }: Row) => {
+      const row = { id: `${name}-${++nextId}`, createdAt: new Date(), ...data };
+      tables[name].push(row);
+      return { ...row };
+    },
+    update: async ({ where, data }: Row) => {
+      const row = tables[name].find((r) => matches(r, where));
+      if (!row) throw new Error(`No ${name} matches the update`);
+      return { ...applyData(row, data) };
+    },
+    updateMany: async ({ where, data }: Row) => {
+      const rows = tables[name].filter((r) => matches(r, where));
+      rows.forEach((row) => applyData(row, data));
+      return { count: rows.length };
+    },
+  });
+
+  const customerMembership = {
+    ...model("customerMembership"),
+    findFirst: async ({ where, orderBy, include }: Row) =>
+      withTier(sortBy(tables.customerMembership.filter((r) => matches(r, where)), orderBy)[0], include) ?? null,
+    create: async ({ data, include }: Row) => {
+      if (tables.customerMembership.some((r) => r.customerId === data.customerId && r.isActive)) {
+        throw new Error('Unique constraint failed on "CustomerMembership_customerId_active_key"');
+      }
+      const row = {
+        id: `customerMembership-${++nextId}`,
+        startDate: new Date(),
+        endDate: null,
+        protectedUntil: null,
+        assignmentType: AssignmentType.AUTOMATIC,
+        ...data,
+      };
+      tables.customerMembership.push(row);
+      return withTier(row, include);
+    },
+    update: async ({ where, data, include }: Row) => {
+      const row = tables.customerMembership.find((r) => r.id === where.id);
+      if (!row) throw new Error("No membership matches the update");
+      return withTier(applyData(row, data), include);
+    },
+  };
+
+  const customer = {
+    ...model("customer"),
+    findUnique: async ({ where, include }: Row) => {
+      const row = tables.customer.find((r) => matches(r, where));
+      if (!row) return null;
+      if (!include) return { ...row };
+      return {
+        ...row,
+        membershipHistory: tables.customerMembership
+          .filter((m) => m.customerId === row.id && m.isActive)
+          .map((m) => withTier(m, { tier: true })),
+        transactions: sortBy(
+          tables.cashbackTransaction.filter((t) => t.customerId === row.id && matches(t, include.transactions.where)),
+          { createdAt: "desc" }
+        ),
+      };
+    },
+  };
+
+  const customerAnalytics = {
+    ...model("customerAnalytics"),
+    upsert: async ({ where, update, create }: Row) => {
+      const row = tables.customerAnalytics.find((r) => matches(r, where));
+      if (row) return { ...applyData(row, update) };
+      return customerAnalytics.create({ data: create });
+    },
+  };
+
+  const prisma: Row = {
+    tier: model("tier"),
+    customer,
+    customerMembership,
+    tierChangeLog: model("tierChangeLog"),
+    cashbackTransaction: model("cashbackTransaction"),
+    customerAnalytics,
+    // The lock is taken through tx.$queryRaw; outside a transaction there is nothing to hold it
+    $queryRaw: async () => [],
+    $transaction: async (fn: (tx: Row) => Promise<unknown>) => {
+      const releases: Array<() => void> = [];
+      const tx = {
+        ...prisma,
+        $queryRaw: async (_sql: TemplateStringsArray, customerId: string) => {
+          const previous = locks.get(customerId) ?? Promise.resolve();
+          let release!: () => void;
+          const held = new Promise<void>((resolve) => (release = resolve));
+          locks.set(customerId, previous.then(() => held));
+          await previous;
+          releases.push(release);
+          return [{ id: customerId }];
+        },
+      };
+      try {
+        return await fn(tx);
+      } finally {
+        releases.forEach((release) => release());
+      }
+    },
+  };
+
+  return { prisma, tables, reset };
+});
+
+vi.mock("../db.server", () => ({ default: fake.prisma }));
+
+const SHOP = "store.myshopify.com";
+
+function addTier(id: string, data: Record<string, unknown>) {
+  fake.tables.tier.push({
+    id,
+    shopDomain: SHOP,
+    name: id,
+    minSpend: null,
+    minOrders: null,
+    criteriaOperator: TierCriteriaOperator.AND,
+    evaluationPeriod: EvaluationPeriod.LIFETIME,
+    periodMonths: null,
+    manualOnly: false,
+    downgradeProtection: DowngradeProtection.NONE,
+    gracePeriodDays: null,
+    isActive: true,
+    ...data,
+  });
+}
+
+function addCustomer(id = "customer-1") {
+  fake.tables.customer.push({ id, shopDomain: SHOP, shopifyCustomerId: "1001", email: "a@example.com", tags: [] });
+  return id;
+}
+
+function addMembership(customerId: string, tierId: string, data: Record<string, unknown> = {}) {
+  fake.tables.customerMembership.push({
+    id: `membership-${tierId}`,
+    customerId,
+    tierId,
+    isActive: true,
+    startDate: new Date("2026-01-01"),
+    endDate: null,
+    protectedUntil: null,
+    assignmentType: AssignmentType.AUTOMATIC,
+    ...data,
+  });
+}
+
+function addOrder(customerId: string, amount: string, refunded = "0") {
+  fake.tables.cashbackTransaction.push({
+    id: `order-${fake.tables.cashbackTransaction.length + 1}`,
+    customerId,
+    shopDomain: SHOP,
+    orderAmount: toMoney(amount),
+    refundedAmount: toMoney(refunded),
+    status: TransactionStatus.COMPLETED,
+    createdAt: new Date(),
+  });
+}
+
+function activeMemberships(customerId: string) {
+  return fake.tables.customerMembership.filter((m) => m.customerId === customerId && m.isActive);
+}
+
+describe("customer tier service", () => {
+  beforeEach(() => {
+    fake.reset();
+    addTier("bronze", { cashbackPercent: 1 });
+    addTier("silver", { cashbackPercent: 3, minSpend: toMoney(500) });
+    addTier("gold", { cashbackPercent: 5, minSpend: toMoney(2000) });
+  });
+
+  it("upgrades once spend reaches a higher tier", async () => {
+    const customerId = addCustomer();
+    addMembership(customerId, "bronze");
+    addOrder(customerId, "650.00");
+
+    const membership = await evaluateCustomerTier(customerId, SHOP);
+
+    expect(membership?.tierId).toBe("silver");
+    expect(activeMemberships(customerId)).toHaveLength(1);
+    expect(fake.tables.customerMembership.find((m) => m.tierId === "bronze")).toMatchObject({
+      isActive: false,
+      endDate: expect.any(Date),
+    });
+    expect(fake.tables.tierChangeLog).toEqual([
+      expect.objectContaining({ fromTierId: "bronze", toTierId: "silver", changeType: TierChangeType.AUTOMATIC_UPGRADE }),
+    ]);
+  });
+
+  it("downgrades when refunds take spend below the tier", async () => {
+    const customerId = addCustomer();
+    addMembership(customerId, "silver");
+    addOrder(customerId, "650.00", "300.00");
+
+    const membership = await evaluateCustomerTier(customerId, SHOP);
+
+    expect(membership?.tierId).toBe("bronze");
+    expect(activeMemberships(customerId)).toHaveLength(1);
+    expect(fake.tables.tierChangeLog).toEqual([
+      expect.objectContaining({ fromTierId: "silver", toTierId: "bronze", changeType: TierChangeType.AUTOMATIC_DOWNGRADE }),
+    ]);
+  });
+
+  it("keeps a protected tier through its grace period", async () => {
+    fake.tables.tier.find((t) => t.id === "silver")!.downgradeProtection = DowngradeProtection.GRACE_DAYS;
+    fake.tables.tier.find((t) => t.id === "silver")!.gracePeriodDays = 30;
+    const customerId = addCustomer();
+    addMembership(customerId, "silver");
+    addOrder(customerId, "100.00");
+
+    const membership = await evaluateCustomerTier(customerId, SHOP);
+
+    expect(membership?.tierId).toBe("silver");
+    expect(membership?.protectedUntil?.getTime()).toBeGreaterThan(Date.now());
+    expect(fake.tables.tierChangeLog).toHaveLength(0);
+  });
+
+  it("leaves manual assignments alone until they end", async () => {
+    const customerId = addCustomer();
+    addMembership(customerId, "gold", { assignmentType: AssignmentType.MANUAL });
+
+    const membership = await evaluateCustomerTier(customerId, SHOP);
+
+    expect(membership?.tierId).toBe("gold");
+    expect(fake.tables.tierChangeLog).toHaveLength(0);
+  });
+
+  it("folds a paid order into the analytics before evaluating", async () => {
+    const customerId = addCustomer();
+    addMembership(customerId, "bronze");
+    addOrder(customerId, "400.00");
+    fake.tables.customerAnalytics.push({
+      id: "analytics-1",
+      customerId,
+      shopDomain: SHOP,
+      lifetimeSpending: toMoney(400),
+      yearlySpending: toMoney(400),
+      quarterlySpending: toMoney(400),
+      monthlySpending: toMoney(400),
+      avgOrderValue: toMoney(400),
+      orderCount: 1,
+    });
+
+    // The webhook's order, as recorded by processPaidOrder
+    addOrder(customerId, "200.00");
+    const membership = await evaluateTierAfterOrder(customerId, SHOP, {
+      orderAmount: toMoney(200),
+      createdAt: new Date(),
+    });
+
+    expect(membership?.tierId).toBe("silver");
+    const analytics = fake.tables.customerAnalytics[0];
+    expect(analytics.lifetimeSpending.toFixed(2)).toBe("600.00");
+    expect(analytics.orderCount).toBe(2);
+  });
+
+  it("replaces the active membership on a manual assignment", async () => {
+    const customerId = addCustomer();
+    addMembership(customerId, "bronze");
+
+    const membership = await assignTierManually(customerId, "gold", SHOP, "admin@example.com", "VIP");
+
+    expect(membership).toMatchObject({ tierId: "gold", assignmentType: AssignmentType.MANUAL, previousTierId: "bronze" });
+    expect(activeMemberships(customerId)).toHaveLength(1);
+    expect(fake.tables.tierChangeLog).toEqual([
+      expect.objectContaining({ toTierId: "gold", changeType: TierChangeType.MANUAL_OVERRIDE, triggeredBy: "admin@example.com" }),
+    ]);
+  });
+
+  it("places customers enrolled through the proxy in the base tier", async () => {
+    const admin = {
+      graphql: vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ data: { customer: { id: "gid://shopify/Customer/2002", email: "b@example.com" } } }))
+      ),
+    };
+
+    const customer = await enrollCustomer(SHOP, "2002", admin);
+
+    expect(customer).toMatchObject({ shopifyCustomerId: "2002", email: "b@example.com" });
+    expect(activeMemberships(customer!.id)).toEqual([expect.objectContaining({ tierId: "bronze" })]);
+    expect(fake.tables.tierChangeLog).toEqual([
+      expect.objectContaining({ toTierId: "bronze", changeType: TierChangeType.INITIAL_ASSIGNMENT }),
+    ]);
+  });
+});
+
+describe("concurrent tier changes", () => {
+  beforeEach(() => {
+    fake.reset();
+    addTier("bronze", { cashbackPercent: 1 });
+    addTier("silver", { cashbackPercent: 3, minSpend: toMoney(500) });
+    addTier("gold", { cashbackPercent: 5, minSpend: toMoney(2000) });
+  });
+
+  it("keeps one active membership when webhooks for a customer evaluate at once", async () => {
+    const customerId = addCustomer();
+    addMembership(customerId, "bronze");
+    addOrder(customerId, "650.00");
+
+    const results = await Promise.all([
+      evaluateCustomerTier(customerId, SHOP),
+      evaluateCustomerTier(customerId, SHOP),
+      evaluateCustomerTier(customerId, SHOP),
+    ]);
+
+    expect(results.map((membership) => membership?.tierId)).toEqual(["silver", "silver", "silver"]);
+    expect(activeMemberships(customerId)).toEqual([expect.objectContaining({ tierId: "silver" })]);
+    expect(fake.tables.tierChangeLog).toHaveLength(1);
+  });
+
+  it("keeps one active membership when an admin assigns a tier during an evaluation", async () => {
+    const customerId = addCustomer();
+    addMembership(customerId, "bronze");
+    addOrder(customerId, "650.00");
+
+    await Promise.all([
+      evaluateCustomerTier(customerId, SHOP),
+      assignTierManually(customerId, "gold", SHOP, "admin@example.com"),
+    ]);
+
+    expect(activeMemberships(customerId)).toHaveLength(1);
+  });
+
+  it("assigns a single initial tier to concurrent first orders", async () => {
+    const customerId = addCustomer();
+
+    const [first, second] = await Promise.all([
+      fake.prisma.$transaction((tx: never) => assignInitialTier(customerId, SHOP, tx)),
+      fake.prisma.$transaction((tx: never) => assignInitialTier(customerId, SHOP, tx)),
+    ]);
+
+    expect(first.id).toBe(second.id);
+    expect(activeMemberships(customerId)).toHaveLength(1);
+  });
+
+  it("keeps every past membership across repeated tier changes", async () => {
+    const customerId = addCustomer();
+    addMembership(customerId, "bronze");
+
+    addOrder(customerId, "650.00");
+    await evaluateCustomerTier(customerId, SHOP);
+    addOrder(customerId, "1500.00");
+    await evaluateCustomerTier(customerId, SHOP);
+    await assignTierManually(customerId, "bronze", SHOP, "admin@example.com");
+
+    const history = fake.tables.customerMembership.filter((m) => m.customerId === customerId);
+    expect(history.map((m) => [m.tierId, m.isActive])).toEqual([
+      ["bronze", false],
+      ["silver", false],
+      ["gold", false],
+      ["bronze", true],
+    ]);
+  });
+});
@@ -1,98 +1,300 @@
 // app/services/customer-tier.server.ts
 import prisma from "../db.server";
-import { TransactionStatus, EvaluationPeriod, AssignmentType, TierChangeType } from "@prisma/client";
-import type { Customer, Tier, CustomerMembership } from "@prisma/client";
-import { subMonths } from "date-fns";
-
-// Assign initial tier to new customer
-export async function assignInitialTier(customerId: string, shopDomain: string) {
-  // Get the tier with no minimum spend (base tier)
-  const defaultTier = await prisma.tier.findFirst({
-    where: { 
+import {
+  Prisma,
+  TransactionStatus,
+  EvaluationPeriod,
+  AssignmentType,
+  TierChangeType,
+  TierCriteriaOperator,
+  DowngradeProtection,
+  TierEvaluationStatus
+} from "@prisma/client";
+import type { Customer, Tier, CustomerMembership, CashbackTransaction } from "@prisma/client";
+import { addDays, addYears, differenceInYears, startOfYear, subMonths } from "date-fns";
+import type { AdminGraphQLClient } from "./store-credit.server";
+import { sumMoney, roundToCents, maxMoney, ZERO, type Decimal } from "../utils/money";
+
+type TierCriteria = Pick<
+  Tier,
+  "minSpend" | "minOrders" | "criteriaOperator" | "evaluationPeriod" | "periodMonths"
+>;
+type QualifyingTransaction = Pick<CashbackTransaction, "createdAt" | "orderAmount" | "refundedAmount">;
+
+export interface TierMeasurement {
+  spending: Decimal;
+  orders: number;
+}
+
+// The root client or the client inside prisma.$transaction
+type Db = typeof prisma | Prisma.TransactionClient;
+
+/**
+ * Lock the customer row until the transaction ends, so tier changes for
+ * the same customer (e.g. two order webhooks at once) run one at a time.
+ */
+async function lockCustomer(tx: Prisma.TransactionClient, customerId: string) {
+  await tx.$queryRaw`SELECT id FROM "Customer" WHERE id = ${customerId} FOR UPDATE`;
+}
+
+// Orders count towards tiers from when they are paid, whether or not their
+// cashback is held or has reached Shopify yet; only reversed orders drop out
+export const COUNTED_TRANSACTIONS: Prisma.CashbackTransactionWhereInput = {
+  status: { not: TransactionStatus.REVERSED }
+};
+
+// Tiers with no criteria that automation can place anyone in
+const BASE_TIER_WHERE = { minSpend: null, minOrders: null, manualOnly: false } as const;
+
+// Start of the window a tier's criteria are measured over; null for lifetime
+export function getPeriodStart(tier: Pick<Tier, "evaluationPeriod" | "periodMonths">, now = new Date()) {
+  switch (tier.evaluationPeriod) {
+    case EvaluationPeriod.LIFETIME:
+      return null;
+    case EvaluationPeriod.ROLLING_MONTHS:
+      return subMonths(now, tier.periodMonths || 12);
+    case EvaluationPeriod.CALENDAR_YEAR:
+      return startOfYear(now);
+    default:
+      return subMonths(now, 12);
+  }
+}
+
+/**
+ * Net spend and order count inside a tier's evaluation period. Fully
+ * refunded orders don't count towards the order total.
+ */
+export function measureTierCriteria(
+  tier: TierCriteria,
+  transactions: QualifyingTransaction[],
+  now = new Date()
+): TierMeasurement {
+  const since = getPeriodStart(tier, now);
+  const inPeriod = transactions.filter(t => !since || t.createdAt >= since);
+
+  return {
+    spending: sumMoney(inPeriod.map(t => t.orderAmount.minus(t.refundedAmount))),
+    orders: inPeriod.filter(t => t.orderAmount.gt(t.refundedAmount)).length
+  };
+}
+
+// A tier without a spend or order minimum is open to everyone
+export function qualifiesForTier(tier: TierCriteria, measured: TierMeasurement) {
+  const checks: boolean[] = [];
+  if (tier.minSpend !== null) checks.push(measured.spending.gte(tier.minSpend));
+  if (tier.minOrders !== null) checks.push(measured.orders >= tier.minOrders);
+
+  if (checks.length === 0) return true;
+  return tier.criteriaOperator === TierCriteriaOperator.OR
+    ? checks.some(Boolean)
+    : checks.every(Boolean);
+}
+
+/**
+ * How close a customer is to a tier, 0-100. With AND the furthest
+ * criterion sets the pace; with OR the closest one does.
+ */
+export function getTierProgress(tier: TierCriteria, measured: TierMeasurement) {
+  const ratios: number[] = [];
+  if (tier.minSpend !== null) {
+    ratios.push(tier.minSpend.lte(0) ? 100 : measured.spending.dividedBy(tier.minSpend).times(100).toNumber());
+  }
+  if (tier.minOrders !== null) {
+    ratios.push(tier.minOrders <= 0 ? 100 : (measured.orders / tier.minOrders) * 100);
+  }
+
+  if (ratios.length === 0) return 100;
+  const progress = tier.criteriaOperator === TierCriteriaOperator.OR
+    ? Math.max(...ratios)
+    : Math.min(...ratios);
+  return Math.min(100, Math.max(0, progress));
+}
+
+// The next tier automation can move a customer up to
+function getNextTier(shopDomain: string, currentTier: Tier) {
+  return prisma.tier.findFirst({
+    where: {
       shopDomain,
+      cashbackPercent: { gt: currentTier.cashbackPercent },
       isActive: true,
-      minSpend: null
+      manualOnly: false
     },
     orderBy: { cashbackPercent: 'asc' }
   });
+}
 
-  if (!defaultTier) {
-    // If no base tier exists, get the tier with lowest minimum spend
-    const lowestTier = await prisma.tier.findFirst({
-      where: { 
-        shopDomain,
-        isActive: true
-      },
-      orderBy: { minSpend: 'asc' }
-    });
-    
-    if (!lowestTier) {
-      throw new Error("No active tiers found for shop");
-    }
-    
-    // Create membership record and log the change
-    const membership = await prisma.$transaction(async (tx) => {
-      const membership = await tx.customerMembership.create({
-        data: {
-          customerId,
-          tierId: lowestTier.id,
-          isActive: true,
-          assignmentType: AssignmentType.AUTOMATIC,
-        }
-      });
-
-      await tx.tierChangeLog.create({
-        data: {
-          customerId,
-          toTierId: lowestTier.id,
-          changeType: TierChangeType.INITIAL_ASSIGNMENT,
-          changeReason: "New customer initial tier assignment",
-          triggeredBy: "System",
-          metadata: {
-            tierName: lowestTier.name,
-            cashbackPercent: lowestTier.cashbackPercent
-          }
-        }
-      });
+// A manual assignment past its end date
+function hasEnded(membership: Pick<CustomerMembership, "endDate">, now: Date) {
+  return !!membership.endDate && membership.endDate <= now;
+}
 
-      return membership;
-    });
+// Manual assignments, and manual-only tiers, hold their members until the
+// assignment is changed or expires
+function isHeldManually(membership: (CustomerMembership & { tier: Tier }) | undefined, now: Date) {
+  if (!membership) return false;
+  if (membership.assignmentType !== AssignmentType.MANUAL && !membership.tier.manualOnly) return false;
+  return !hasEnded(membership, now);
+}
 
-    return membership;
+/**
+ * When a member who has fallen below their tier's criteria loses it, counted
+ * from now. Null when the tier has no downgrade protection.
+ */
+export function getProtectionEnd(
+  membership: Pick<CustomerMembership, "startDate"> & {
+    tier: Pick<Tier, "downgradeProtection" | "gracePeriodDays">;
+  },
+  now = new Date()
+) {
+  switch (membership.tier.downgradeProtection) {
+    case DowngradeProtection.GRACE_DAYS:
+      return membership.tier.gracePeriodDays ? addDays(now, membership.tier.gracePeriodDays) : null;
+    case DowngradeProtection.MEMBERSHIP_YEAR:
+      // Next anniversary of joining the tier
+      return addYears(membership.startDate, differenceInYears(now, membership.startDate) + 1);
+    default:
+      return null;
   }
+}
 
-  // Create membership record and log the change
-  const membership = await prisma.$transaction(async (tx) => {
-    const membership = await tx.customerMembership.create({
-      data: {
-        customerId,
-        tierId: defaultTier.id,
-        isActive: true,
-        assignmentType: AssignmentType.AUTOMATIC,
+// The tier new customers start in: no criteria, else the lowest threshold
+export async function getBaseTier(shopDomain: string, db: Db = prisma) {
+  const baseTier = await db.tier.findFirst({
+    where: {
+      shopDomain,
+      isActive: true,
+      ...BASE_TIER_WHERE
+    },
+    orderBy: { cashbackPercent: 'asc' }
+  });
+
+  if (baseTier) return baseTier;
+
+  return db.tier.findFirst({
+    where: {
+      shopDomain,
+      isActive: true,
+      manualOnly: false
+    },
+    orderBy: { cashbackPercent: 'asc' }
+  });
+}
+
+// Create a customer from their Shopify record and place them in the base tier
+export async function enrollCustomer(
+  shopDomain: string,
+  shopifyCustomerId: string,
+  admin: AdminGraphQLClient
+) {
+  // Nothing to enrol into until the merchant has set up tiers
+  if (!(await getBaseTier(shopDomain))) return null;
+
+  const response = await admin.graphql(
+    `#graphql
+    query EnrollCustomer($id: ID!) {
+      customer(id: $id) {
+        id
+        email
       }
-    });
+    }`,
+    { variables: { id: `gid://shopify/Customer/${shopifyCustomerId}` } }
+  );
+  const result = await response.json();
+  const email = result.data?.customer?.email;
 
-    await tx.tierChangeLog.create({
+  // Customers without an email (e.g. phone-only accounts) are not enrolled
+  if (!email) return null;
+
+  let customer;
+  try {
+    customer = await prisma.customer.create({
       data: {
-        customerId,
-        toTierId: defaultTier.id,
-        changeType: TierChangeType.INITIAL_ASSIGNMENT,
-        changeReason: "New customer default tier assignment",
-        triggeredBy: "System",
-        metadata: {
-          tierName: defaultTier.name,
-          cashbackPercent: defaultTier.cashbackPercent
-        }
+        shopDomain,
+        shopifyCustomerId,
+        email
       }
     });
+  } catch (error) {
+    // Enrolled concurrently by another request or a webhook
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return prisma.customer.findUnique({
+        where: { shopDomain_shopifyCustomerId: { shopDomain, shopifyCustomerId } }
+      });
+    }
+    throw error;
+  }
+
+  await assignInitialTier(customer.id, shopDomain);
+
+  return customer;
+}
+
+/**
+ * Place a new customer in the base tier. Pass `tx` to write alongside the
+ * customer record so no customer is ever left without a membership.
+ */
+export async function assignInitialTier(
+  customerId: string,
+  shopDomain: string,
+  tx?: Prisma.TransactionClient,
+  reason = "New customer initial tier assignment"
+): Promise<CustomerMembership> {
+  if (!tx) {
+    return prisma.$transaction((inner) => assignInitialTier(customerId, shopDomain, inner, reason));
+  }
 
-    return membership;
+  await lockCustomer(tx, customerId);
+
+  const existing = await tx.customerMembership.findFirst({
+    where: { customerId, isActive: true }
+  });
+  if (existing) return existing;
+
+  const tier = await getBaseTier(shopDomain, tx);
+  if (!tier) {
+    throw new Error("No active tiers found for shop");
+  }
+
+  const membership = await tx.customerMembership.create({
+    data: {
+      customerId,
+      tierId: tier.id,
+      isActive: true,
+      assignmentType: AssignmentType.AUTOMATIC,
+    }
+  });
+
+  await tx.tierChangeLog.create({
+    data: {
+      customerId,
+      toTierId: tier.id,
+      changeType: TierChangeType.INITIAL_ASSIGNMENT,
+      changeReason: reason,
+      triggeredBy: "System",
+      metadata: {
+        tierName: tier.name,
+        cashbackPercent: tier.cashbackPercent
+      }
+    }
   });
 
   return membership;
 }
 
-// Evaluate customer's tier based on spending
+/**
+ * Re-evaluate a customer's tier after a paid order. The order is folded
+ * into their analytics first so nothing waits on the nightly run.
+ */
+export async function evaluateTierAfterOrder(
+  customerId: string,
+  shopDomain: string,
+  order: { orderAmount: Decimal; createdAt: Date }
+) {
+  await recordOrderInAnalytics(customerId, shopDomain, order);
+  return evaluateCustomerTier(customerId, shopDomain);
+}
+
+// Evaluate customer's tier against each tier's spend and order criteria
 export async function evaluateCustomerTier(customerId: string, shopDomain: string) {
   // Get customer with current membership
   const customer = await prisma.customer.findUnique({
@@ -103,9 +305,7 @@ export async function evaluateCustomerTier(customerId: string, shopDomain: strin
         include: { tier: true }
       },
       transactions: {
-        where: { 
-          status: { in: [TransactionStatus.COMPLETED, TransactionStatus.SYNCED_TO_SHOPIFY] }
-        },
+        where: COUNTED_TRANSACTIONS,
         orderBy: { createdAt: 'desc' }
       }
     }
@@ -114,66 +314,80 @@ export async function evaluateCustomerTier(customerId: string, shopDomain: strin
   if (!customer || customer.shopDomain !== shopDomain) return null;
 
   const currentMembership = customer.membershipHistory[0];
-
-  // Get all active tiers for this shop
   const now = new Date();
+
+  // Admin assignments and invite-only tiers are never changed automatically
+  if (isHeldManually(currentMembership, now)) return currentMembership;
+
+  // Get all tiers automation can assign for this shop
   const tiers = await prisma.tier.findMany({
     where: { 
       shopDomain,
-      isActive: true
+      isActive: true,
+      manualOnly: false
     },
     orderBy: { cashbackPercent: 'desc' }
   });
 
-  // Calculate spending based on evaluation periods
-  const twelveMonthsAgo = subMonths(now, 12);
-  
-  // Calculate spending amounts that will be used for evaluation
-  const lifetimeSpending = customer.transactions.reduce(
-    (sum, t) => sum + t.orderAmount, 
-    0
-  );
-  const annualSpending = customer.transactions
-    .filter(t => t.createdAt >= twelveMonthsAgo)
-    .reduce((sum, t) => sum + t.orderAmount, 0);
-  
+  if (tiers.length === 0) return currentMembership ?? null;
+
   // Find the highest tier the customer qualifies for
   let qualifiedTier: Tier | null = null;
-  let qualifiedTierSpending = 0;
+  let qualifiedMeasurement: TierMeasurement | null = null;
 
   for (const tier of tiers) {
-    // Get spending amount based on tier's evaluation period
-    const tierQualifyingSpending = tier.evaluationPeriod === EvaluationPeriod.LIFETIME 
-      ? lifetimeSpending 
-      : annualSpending;
-    
-    // If tier has no minimum spend, it's always qualified
-    if (tier.minSpend === null) {
+    const measured = measureTierCriteria(tier, customer.transactions, now);
+    if (qualifiesForTier(tier, measured)) {
       qualifiedTier = tier;
-      qualifiedTierSpending = tierQualifyingSpending;
-      continue;
+      qualifiedMeasurement = measured;
+      break;
     }
+  }
 
-    // Check if customer qualifies for this tier
-    if (tierQualifyingSpending >= tier.minSpend) {
-      qualifiedTier = tier;
-      qualifiedTierSpending = tierQualifyingSpending;
-      break; // Found highest qualifying tier
-    }
+  // If no tier qualified, fall back to the lowest one
+  if (!qualifiedTier || !qualifiedMeasurement) {
+    qualifiedTier = tiers[tiers.length - 1];
+    qualifiedMeasurement = measureTierCriteria(qualifiedTier, customer.transactions, now);
   }
 
-  // If no tier qualified, use the base tier (no minSpend)
-  if (!qualifiedTier) {
-    qualifiedTier = tiers.find(t => t.minSpend === null) || tiers[tiers.length - 1];
-    qualifiedTierSpending = qualifiedTier.evaluationPeriod === EvaluationPeriod.LIFETIME 
-      ? lifetimeSpending 
-      : annualSpending;
+  const isDowngrade = !!currentMembership &&
+    qualifiedTier.cashbackPercent < currentMembership.tier.cashbackPercent;
+
+  if (currentMembership && isDowngrade && !hasEnded(currentMembership, now)) {
+    // The protection window starts the first time they fall below the tier
+    const protectedUntil = currentMembership.protectedUntil ?? getProtectionEnd(currentMembership, now);
+
+    if (protectedUntil && protectedUntil > now) {
+      if (currentMembership.protectedUntil) return currentMembership;
+
+      return prisma.customerMembership.update({
+        where: { id: currentMembership.id },
+        data: { protectedUntil },
+        include: { tier: true }
+      });
+    }
+  } else if (currentMembership?.protectedUntil && !isDowngrade) {
+    // Back within the criteria, so a later drop gets a fresh window
+    currentMembership.protectedUntil = null;
+    await prisma.customerMembership.update({
+      where: { id: currentMembership.id },
+      data: { protectedUntil: null }
+    });
   }
 
   // Update if tier changed
   if (!currentMembership || currentMembership.tierId !== qualifiedTier.id) {
     // Use a transaction to ensure atomicity
     const result = await prisma.$transaction(async (tx) => {
+      await lockCustomer(tx, customerId);
+
+      // Another evaluation may have changed the tier while we waited
+      const active = await tx.customerMembership.findFirst({
+        where: { customerId, isActive: true },
+        include: { tier: true }
+      });
+      if (active?.id !== currentMembership?.id) return active;
+
       // Deactivate current membership
       await tx.customerMembership.updateMany({
         where: {
@@ -209,7 +423,7 @@ export async function evaluateCustomerTier(customerId: string, shopDomain: strin
                 ? TierChangeType.AUTOMATIC_UPGRADE 
                 : TierChangeType.AUTOMATIC_DOWNGRADE)
             : TierChangeType.INITIAL_ASSIGNMENT,
-          changeReason: "Automatic tier evaluation based on spending",
+          changeReason: "Automatic tier evaluation based on spending and orders",
           triggeredBy: "System",
           metadata: {
             previousTier: currentMembership ? {
@@ -220,27 +434,67 @@ export async function evaluateCustomerTier(customerId: string, shopDomain: strin
               name: qualifiedTier.name,
               cashbackPercent: qualifiedTier.cashbackPercent
             },
-            qualifyingSpending: qualifiedTierSpending,
-            lifetimeSpending,
-            annualSpending
+            evaluationPeriod: qualifiedTier.evaluationPeriod,
+            qualifyingSpending: qualifiedMeasurement.spending.toNumber(),
+            qualifyingOrders: qualifiedMeasurement.orders,
+            protectedUntil: currentMembership?.protectedUntil ?? null
           }
         }
       });
 
-      // Update customer analytics
-      await updateCustomerAnalytics(customerId, shopDomain);
-
       return newMembership;
     });
 
+    // Refreshed once committed so it reads the new membership
+    await updateCustomerAnalytics(customerId, shopDomain);
+
     return result;
   }
 
   return currentMembership;
 }
 
-// Update customer analytics
-async function updateCustomerAnalytics(customerId: string, shopDomain: string) {
+/**
+ * Add one order to the customer's analytics without rescanning their
+ * history. Windowed totals only grow here; orders ageing out of a window
+ * are dropped by the next full refresh.
+ */
+async function recordOrderInAnalytics(
+  customerId: string,
+  shopDomain: string,
+  order: { orderAmount: Decimal; createdAt: Date }
+) {
+  const existing = await prisma.customerAnalytics.findUnique({ where: { customerId } });
+  if (!existing) {
+    await updateCustomerAnalytics(customerId, shopDomain);
+    return;
+  }
+
+  // Increments keep concurrent webhooks for the same customer from losing an order
+  const analytics = await prisma.customerAnalytics.update({
+    where: { customerId },
+    data: {
+      lifetimeSpending: { increment: order.orderAmount },
+      yearlySpending: { increment: order.orderAmount },
+      quarterlySpending: { increment: order.orderAmount },
+      monthlySpending: { increment: order.orderAmount },
+      orderCount: { increment: 1 },
+      lastOrderDate: order.createdAt,
+      daysSinceLastOrder: 0,
+      calculatedAt: new Date()
+    }
+  });
+
+  await prisma.customerAnalytics.update({
+    where: { customerId },
+    data: {
+      avgOrderValue: roundToCents(analytics.lifetimeSpending.dividedBy(analytics.orderCount))
+    }
+  });
+}
+
+// Rebuild customer analytics from their full transaction history
+export async function updateCustomerAnalytics(customerId: string, shopDomain: string) {
   const now = new Date();
   const twelveMonthsAgo = subMonths(now, 12);
   const threeMonthsAgo = subMonths(now, 3);
@@ -251,25 +505,24 @@ async function updateCustomerAnalytics(customerId: string, shopDomain: string) {
     where: {
       customerId,
       shopDomain,
-      status: { in: [TransactionStatus.COMPLETED, TransactionStatus.SYNCED_TO_SHOPIFY] }
+      ...COUNTED_TRANSACTIONS
     },
     orderBy: { createdAt: 'desc' }
   });
 
   // Calculate metrics
-  const lifetimeSpending = transactions.reduce((sum, t) => sum + t.orderAmount, 0);
-  const yearlySpending = transactions
-    .filter(t => t.createdAt >= twelveMonthsAgo)
-    .reduce((sum, t) => sum + t.orderAmount, 0);
-  const quarterlySpending = transactions
-    .filter(t => t.createdAt >= threeMonthsAgo)
-    .reduce((sum, t) => sum + t.orderAmount, 0);
-  const monthlySpending = transactions
-    .filter(t => t.createdAt >= oneMonthAgo)
-    .reduce((sum, t) => sum + t.orderAmount, 0);
+  const netSpend = (since?: Date) => sumMoney(
+    transactions
+      .filter(t => !since || t.createdAt >= since)
+      .map(t => t.orderAmount.minus(t.refundedAmount))
+  );
+  const lifetimeSpending = netSpend();
+  const yearlySpending = netSpend(twelveMonthsAgo);
+  const quarterlySpending = netSpend(threeMonthsAgo);
+  const monthlySpending = netSpend(oneMonthAgo);
   
   const orderCount = transactions.length;
-  const avgOrderValue = orderCount > 0 ? lifetimeSpending / orderCount : 0;
+  const avgOrderValue = orderCount > 0 ? roundToCents(lifetimeSpending.dividedBy(orderCount)) : ZERO;
   const lastOrderDate = transactions[0]?.createdAt || null;
   const daysSinceLastOrder = lastOrderDate 
     ? Math.floor((now.getTime() - lastOrderDate.getTime()) / (1000 * 60 * 60 * 24))
@@ -295,21 +548,10 @@ async function updateCustomerAnalytics(customerId: string, shopDomain: string) {
   // Calculate progress to next tier
   let nextTierProgress = 0;
   if (membership) {
-    const nextTier = await prisma.tier.findFirst({
-      where: {
-        shopDomain,
-        cashbackPercent: { gt: membership.tier.cashbackPercent },
-        isActive: true,
-        minSpend: { not: null }
-      },
-      orderBy: { cashbackPercent: 'asc' }
-    });
+    const nextTier = await getNextTier(shopDomain, membership.tier);
 
-    if (nextTier && nextTier.minSpend) {
-      const relevantSpending = nextTier.evaluationPeriod === EvaluationPeriod.LIFETIME
-        ? lifetimeSpending
-        : yearlySpending;
-      nextTierProgress = Math.min(100, (relevantSpending / nextTier.minSpend) * 100);
+    if (nextTier) {
+      nextTierProgress = getTierProgress(nextTier, measureTierCriteria(nextTier, transactions, now));
     }
   }
 
@@ -363,9 +605,7 @@ export async function getCustomerTierInfo(customerId: string, shopDomain: string
         include: {
           analytics: true,
           transactions: {
-            where: {
-              status: { in: [TransactionStatus.COMPLETED, TransactionStatus.SYNCED_TO_SHOPIFY] }
-            }
+            where: COUNTED_TRANSACTIONS
           }
         }
       }
@@ -374,53 +614,27 @@ export async function getCustomerTierInfo(customerId: string, shopDomain: string
 
   if (!membership || membership.customer.shopDomain !== shopDomain) return null;
 
-  // Get next tier info
-  const currentTierCashback = membership.tier.cashbackPercent;
-  
-  const nextTier = await prisma.tier.findFirst({
-    where: {
-      shopDomain,
-      cashbackPercent: { gt: currentTierCashback },
-      isActive: true
-    },
-    orderBy: { cashbackPercent: 'asc' }
-  });
+  // Get next tier info; invite-only tiers can't be worked towards
+  const nextTier = await getNextTier(shopDomain, membership.tier);
 
   let progressInfo = null;
-  if (nextTier && nextTier.minSpend !== null) {
-    let relevantSpending = 0;
-    
-    // Use analytics if available, otherwise calculate from transactions
-    if (membership.customer.analytics) {
-      relevantSpending = nextTier.evaluationPeriod === EvaluationPeriod.LIFETIME
-        ? membership.customer.analytics.lifetimeSpending
-        : membership.customer.analytics.yearlySpending;
-    } else {
-      // Fallback: calculate from transactions if analytics are missing
-      const now = new Date();
-      const twelveMonthsAgo = subMonths(now, 12);
-      
-      if (nextTier.evaluationPeriod === EvaluationPeriod.LIFETIME) {
-        relevantSpending = membership.customer.transactions.reduce(
-          (sum, t) => sum + t.orderAmount, 
-          0
-        );
-      } else {
-        relevantSpending = membership.customer.transactions
-          .filter(t => t.createdAt >= twelveMonthsAgo)
-          .reduce((sum, t) => sum + t.orderAmount, 0);
-      }
-    }
-    
-    // Calculate progress percentage directly
-    const progressPercentage = Math.min(100, (relevantSpending / nextTier.minSpend) * 100);
-    
+  if (nextTier && (nextTier.minSpend !== null || nextTier.minOrders !== null)) {
+    // Measured from transactions so every evaluation period is covered
+    const measured = measureTierCriteria(nextTier, membership.customer.transactions);
+
     progressInfo = {
       nextTier,
-      currentSpending: relevantSpending,
+      currentSpending: measured.spending,
       requiredSpending: nextTier.minSpend,
-      remainingSpending: Math.max(0, nextTier.minSpend - relevantSpending),
-      progressPercentage: progressPercentage
+      remainingSpending: nextTier.minSpend !== null
+        ? maxMoney(0, nextTier.minSpend.minus(measured.spending))
+        : null,
+      currentOrders: measured.orders,
+      requiredOrders: nextTier.minOrders,
+      remainingOrders: nextTier.minOrders !== null
+        ? Math.max(0, nextTier.minOrders - measured.orders)
+        : null,
+      progressPercentage: getTierProgress(nextTier, measured)
     };
   }
 
@@ -473,16 +687,18 @@ export async function assignTierManually(
     throw new Error("Tier not found or belongs to different shop");
   }
 
-  // Get current membership
-  const currentMembership = await prisma.customerMembership.findFirst({
-    where: { customerId, isActive: true },
-    include: { tier: true }
-  });
-
   const now = new Date();
 
   // Use a transaction to ensure atomicity
   const membership = await prisma.$transaction(async (tx) => {
+    await lockCustomer(tx, customerId);
+
+    // Get current membership
+    const currentMembership = await tx.customerMembership.findFirst({
+      where: { customerId, isActive: true },
+      include: { tier: true }
+    });
+
     // Deactivate current memberships
     await tx.customerMembership.updateMany({
       where: {
@@ -533,64 +749,136 @@ export async function assignTierManually(
       }
     });
 
-    // Update analytics
-    await updateCustomerAnalytics(customerId, shopDomain);
-
     return newMembership;
   });
 
+  // Update analytics
+  await updateCustomerAnalytics(customerId, shopDomain);
+
   return membership;
 }
 
-// Batch evaluate tiers for all customers in a shop
+// Batch evaluate tiers for all customers in a shop, paging by id
 export async function batchEvaluateCustomerTiers(shopDomain: string, batchSize = 100) {
-  const totalCustomers = await prisma.customer.count({
-    where: { shopDomain }
-  });
-
-  const results = [];
+  const failures: Array<{ customerId: string; error: string }> = [];
   let processed = 0;
-  
-  while (processed < totalCustomers) {
+  let changed = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
     const customers = await prisma.customer.findMany({
-      where: { shopDomain },
-      skip: processed,
+      where: {
+        shopDomain,
+        ...(cursor ? { id: { gt: cursor } } : {})
+      },
+      orderBy: { id: 'asc' },
       take: batchSize,
-      include: {
+      select: {
+        id: true,
         membershipHistory: {
-          where: { isActive: true }
+          where: { isActive: true },
+          select: { tierId: true }
         }
       }
     });
 
+    if (customers.length === 0) break;
+
     for (const customer of customers) {
       try {
         const result = await evaluateCustomerTier(customer.id, shopDomain);
-        results.push({
-          customerId: customer.id,
-          success: true,
-          membership: result
-        });
+        if (result && result.tierId !== customer.membershipHistory[0]?.tierId) changed++;
       } catch (error) {
-        results.push({
+        failures.push({
           customerId: customer.id,
-          success: false,
           error: error instanceof Error ? error.message : 'Unknown error'
         });
       }
     }
 
     processed += customers.length;
+    cursor = customers[customers.length - 1].id;
   }
 
   return {
     totalProcessed: processed,
-    successful: results.filter(r => r.success).length,
-    failed: results.filter(r => !r.success).length,
-    results
+    successful: processed - failures.length,
+    failed: failures.length,
+    changed,
+    failures
   };
 }
 
+// A run still RUNNING after this long is assumed to have crashed
+const STALE_RUN_MS = 60 * 60 * 1000;
+const MAX_RECORDED_ERRORS = 100;
+
+/**
+ * Revert expired manual assignments, then re-evaluate every customer.
+ * Runs nightly from the cron and on demand from the tiers page; each run
+ * is recorded in TierEvaluationRun.
+ */
+export async function runTierEvaluation(shopDomain: string, triggeredBy = "System") {
+  const active = await prisma.tierEvaluationRun.findFirst({
+    where: {
+      shopDomain,
+      status: TierEvaluationStatus.RUNNING,
+      startedAt: { gt: new Date(Date.now() - STALE_RUN_MS) }
+    }
+  });
+  if (active) return active;
+
+  const run = await prisma.tierEvaluationRun.create({
+    data: { shopDomain, triggeredBy }
+  });
+
+  try {
+    const expired = await handleExpiredMemberships(shopDomain);
+    const evaluation = await batchEvaluateCustomerTiers(shopDomain);
+
+    const errors = [
+      ...expired.flatMap(r => 'error' in r ? [{ customerId: r.customerId, error: r.error }] : []),
+      ...evaluation.failures
+    ];
+
+    console.log(
+      `Tier evaluation ${run.id} for ${shopDomain}: ${evaluation.changed}/${evaluation.totalProcessed} changed, ${errors.length} failed`
+    );
+
+    return await prisma.tierEvaluationRun.update({
+      where: { id: run.id },
+      data: {
+        status: TierEvaluationStatus.COMPLETED,
+        customersEvaluated: evaluation.totalProcessed,
+        tiersChanged: evaluation.changed,
+        expiredReverted: expired.filter(r => r.success).length,
+        failures: errors.length,
+        errors: errors.length > 0 ? errors.slice(0, MAX_RECORDED_ERRORS) : undefined,
+        completedAt: new Date()
+      }
+    });
+  } catch (error) {
+    console.error(`Tier evaluation ${run.id} failed:`, error);
+
+    return prisma.tierEvaluationRun.update({
+      where: { id: run.id },
+      data: {
+        status: TierEvaluationStatus.FAILED,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date()
+      }
+    });
+  }
+}
+
+// Most recent tier evaluation run for the admin
+export function getLastTierEvaluationRun(shopDomain: string) {
+  return prisma.tierEvaluationRun.findFirst({
+    where: { shopDomain },
+    orderBy: { startedAt: 'desc' }
+  });
+}
+
 // Get tier distribution with analytics — single round-trip
 export async function getTierDistribution(shopDomain: string) {
   const [tiers, totalCustomers, membershipCounts, spendingByTier] = await Promise.all([
@@ -659,6 +947,15 @@ export async function handleExpiredMemberships(shopDomain: string) {
     try {
       // Re-evaluate the customer's tier
       const result = await evaluateCustomerTier(membership.customerId, shopDomain);
+
+      // Kept on merit: the membership carries on as an automatic one, so
+      // it isn't picked up as expired again on the next run
+      if (result?.id === membership.id) {
+        await prisma.customerMembership.update({
+          where: { id: membership.id },
+          data: { endDate: null, assignmentType: AssignmentType.AUTOMATIC }
+        });
+      }
       
       // Log the expiration
       await prisma.tierChangeLog.create({
@@ -1,5 +1,7 @@
 // app/services/email.server.ts
 import prisma from "../db.server";
+import { formatMoney, getCurrencySymbol, toMoney, type MoneyInput } from "../utils/money";
+import { getShopSettings } from "./shop-settings.server";
 import type { 
   Customer,
   EmailTemplate,
@@ -62,6 +64,10 @@ export class EmailService {
         throw new Error("Customer not found");
       }
       
+      if (customer.redactedAt) {
+        return { success: false, error: "Customer data has been redacted" };
+      }
+      
       // Check email preferences
       if (!this.shouldSendEmail(customer, templateType)) {
         return { success: false, error: "Customer has opted out of this email type" };
@@ -210,6 +216,7 @@ export class EmailService {
     const shop = await prisma.onboarding.findFirst({
       where: { shopDomain: template.shopDomain }
     });
+    const { currencyCode } = await getShopSettings(template.shopDomain);
     
     // Build store URL - this would be the actual Shopify domain
     const storeUrl = `https://${shopDomain || template.shopDomain}`;
@@ -219,12 +226,12 @@ export class EmailService {
       "{{email}}": customer.email,
       "{{store_name}}": shop?.businessName || template.shopDomain.replace('.myshopify.com', ''),
       "{{store_url}}": storeUrl,
-      "{{current_balance}}": this.formatCurrency(customer.storeCredit, shop?.currency),
-      "{{total_earned}}": this.formatCurrency(customer.totalEarned, shop?.currency),
+      "{{current_balance}}": this.formatCurrency(customer.storeCredit, currencyCode),
+      "{{total_earned}}": this.formatCurrency(customer.totalEarned, currencyCode),
       "{{tier_name}}": customer.membershipHistory[0]?.tier.name || "Member",
       "{{tier_cashback}}": `${customer.membershipHistory[0]?.tier.cashbackPercent || 0}%`,
-      "{{currency}}": shop?.currency || "USD",
-      "{{currency_symbol}}": this.getCurrencySymbol(shop?.currency || "USD"),
+      "{{currency}}": currencyCode,
+      "{{currency_symbol}}": getCurrencySymbol(currencyCode),
       ...customData
     };
     
@@ -396,40 +403,8 @@ export class EmailService {
   /**
    * Format currency with proper symbol and formatting
    */
-  static formatCurrency(amount: number, currency?: string): string {
-    const curr = currency || "USD";
-    const symbol = this.getCurrencySymbol(curr);
-    
-    // Format based on currency
-    switch (curr) {
-      case "EUR":
-        return `${amount.toFixed(2)}${symbol}`;
-      case "GBP":
-      case "USD":
-      case "CAD":
-      case "AUD":
-      default:
-        return `${symbol}${amount.toFixed(2)}`;
-    }
-  }
-  
-  /**
-   * Get currency symbol
-   */
-  private static getCurrencySymbol(currency: string): string {
-    const symbols: Record<string, string> = {
-      USD: "$",
-      EUR: "€",
-      GBP: "£",
-      CAD: "$",
-      AUD: "$",
-      JPY: "¥",
-      CNY: "¥",
-      INR: "₹",
-      // Add more as needed
-    };
-    
-    return symbols[currency] || currency;
+  static formatCurrency(amount: MoneyInput, currency?: string): string {
+    return formatMoney(amount, currency || "USD");
   }
   
   /**
@@ -639,12 +614,15 @@ export class EmailService {
         shopDomain,
         shopifyCustomerId: "test-123",
         email: recipientEmail,
-        storeCredit: 150.00,
-        totalEarned: 500.00,
+        storeCredit: toMoney(150),
+        totalEarned: toMoney(500),
         notes: null,
         tags: [],
         preferences: null,
         lastSyncedAt: null,
+        redactedAt: null,
+        birthday: null,
+        lastBirthdayBonusAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         emailPreferences: {
@@ -675,17 +653,29 @@ export class EmailService {
           assignedBy: null,
           reason: null,
           previousTierId: null,
+          shopifySyncedAt: null,
+          protectedUntil: null,
           createdAt: new Date(),
           updatedAt: new Date(),
           tier: {
             id: "test-tier",
             shopDomain,
             name: "Gold",
-            minSpend: 1000,
+            minSpend: toMoney(1000),
             cashbackPercent: 5,
+            minOrders: null,
+            criteriaOperator: "AND",
             evaluationPeriod: "ANNUAL",
+            periodMonths: null,
+            manualOnly: false,
+            downgradeProtection: "NONE",
+            gracePeriodDays: null,
             isActive: true,
-            benefits: { list: ["Free shipping", "Early access"] },
+            benefits: { freeShipping: true, earlyAccessCollection: "new-releases" },
+            shopifySegmentId: null,
+            shopifyDiscountId: null,
+            shopifyShippingDiscountId: null,
+            benefitsSyncedAt: null,
             createdAt: new Date()
           }
         }]
@@ -732,15 +722,18 @@ export async function sendWelcomeEmail(customerId: string, shopDomain: string):
 export async function sendCreditEarnedEmail(
   customerId: string, 
   shopDomain: string,
-  creditAmount: number,
-  orderId: string
+  creditAmount: MoneyInput,
+  orderId: string,
+  currency?: string // The store credit account credited; defaults to the shop currency
 ): Promise<{ success: boolean; error?: string }> {
+  const { currencyCode } = await getShopSettings(shopDomain);
+
   return EmailService.sendEmail({
     customerId,
     shopDomain,
     templateType: "CREDIT_EARNED",
     customData: {
-      "{{credit_amount}}": EmailService.formatCurrency(creditAmount),
+      "{{credit_amount}}": EmailService.formatCurrency(creditAmount, currency || currencyCode),
       "{{order_id}}": orderId
     }
   });
@@ -800,15 +793,18 @@ export async function sendBalanceReminderEmail(
 export async function sendCreditExpiryWarning(
   customerId: string,
   shopDomain: string,
-  expiringAmount: number,
-  expiryDate: Date
+  expiringAmount: MoneyInput,
+  expiryDate: Date,
+  currency?: string // Store credit account the amount is held in; defaults to shop currency
 ): Promise<{ success: boolean; error?: string }> {
+  const currencyCode = currency ?? (await getShopSettings(shopDomain)).currencyCode;
+
   return EmailService.sendEmail({
     customerId,
     shopDomain,
     templateType: "CREDIT_EXPIRY_WARNING",
     customData: {
-      "{{expiring_amount}}": EmailService.formatCurrency(expiringAmount),
+      "{{expiring_amount}}": EmailService.formatCurrency(expiringAmount, currencyCode),
       "{{expiry_date}}": expiryDate.toLocaleDateString('en-US', { 
         month: 'long', 
         day: 'numeric', 
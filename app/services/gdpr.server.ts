@@ -0,0 +1,366 @@
+// app/services/gdpr.server.ts
+import prisma from "../db.server";
+import {
+  GdprRequestStatus,
+  GdprTopic,
+  InstallationStatus,
+  Prisma,
+  WebhookEventStatus,
+} from "@prisma/client";
+
+// Shopify expects requests to be actioned within 30 days; retries stop well before
+const MAX_ATTEMPTS = 10;
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Replaces the email of a redacted customer. Customer.email is required.
+const REDACTED_EMAIL = "redacted";
+
+// authenticate.webhook reports compliance topics in this form
+const TOPICS: Record<string, GdprTopic> = {
+  CUSTOMERS_DATA_REQUEST: GdprTopic.CUSTOMERS_DATA_REQUEST,
+  CUSTOMERS_REDACT: GdprTopic.CUSTOMERS_REDACT,
+  SHOP_REDACT: GdprTopic.SHOP_REDACT,
+};
+
+/**
+ * Record a compliance webhook. The work itself happens in
+ * processDueGdprRequests so the webhook can be acknowledged immediately.
+ * Only identifiers are kept from the payload.
+ */
+export async function recordGdprRequest(params: {
+  shopDomain: string;
+  topic: string;
+  webhookId: string;
+  payload: Record<string, any>;
+}) {
+  const { shopDomain, topic, webhookId, payload } = params;
+
+  const gdprTopic = TOPICS[topic];
+  if (!gdprTopic) {
+    throw new Error(`Unsupported compliance topic ${topic}`);
+  }
+
+  // shop/redact waits out the uninstall grace period in case the merchant returns
+  const installation = gdprTopic === GdprTopic.SHOP_REDACT
+    ? await prisma.shopInstallation.findUnique({ where: { shopDomain } })
+    : null;
+
+  return prisma.gdprRequest.upsert({
+    where: { webhookId },
+    update: {},
+    create: {
+      shopDomain,
+      topic: gdprTopic,
+      webhookId,
+      scheduledFor: installation?.purgeAfter ?? new Date(),
+      shopifyCustomerId: payload.customer?.id ? String(payload.customer.id) : null,
+      ordersRequested: (payload.orders_requested || payload.orders_to_redact || []).map(String),
+      dataRequestId: payload.data_request?.id ? String(payload.data_request.id) : null,
+    },
+  });
+}
+
+/**
+ * Cron entry point: work through pending and failed requests that are due
+ */
+export async function processDueGdprRequests() {
+  const due = await prisma.gdprRequest.findMany({
+    where: {
+      status: { in: [GdprRequestStatus.PENDING, GdprRequestStatus.FAILED] },
+      scheduledFor: { lte: new Date() },
+      attempts: { lt: MAX_ATTEMPTS },
+    },
+    orderBy: { createdAt: "asc" },
+    take: 50,
+  });
+
+  const results = { completed: 0, failed: 0 };
+
+  for (const request of due) {
+    try {
+      const outcome = await handleRequest(request);
+      await prisma.gdprRequest.update({
+        where: { id: request.id },
+        data: {
+          status: GdprRequestStatus.COMPLETED,
+          attempts: { increment: 1 },
+          exportData: outcome.exportData,
+          summary: outcome.summary,
+          error: null,
+          processedAt: new Date(),
+        },
+      });
+      results.completed++;
+    } catch (error) {
+      console.error(`GDPR request ${request.id} (${request.topic}) failed:`, error);
+      await prisma.gdprRequest.update({
+        where: { id: request.id },
+        data: {
+          status: GdprRequestStatus.FAILED,
+          attempts: { increment: 1 },
+          error: error instanceof Error ? error.message : "Unknown error",
+          scheduledFor: new Date(Date.now() + RETRY_DELAY_MS),
+        },
+      });
+      results.failed++;
+    }
+  }
+
+  return results;
+}
+
+async function handleRequest(request: Prisma.GdprRequestGetPayload<true>): Promise<{
+  exportData?: Prisma.InputJsonValue;
+  summary: Prisma.InputJsonValue;
+}> {
+  switch (request.topic) {
+    case GdprTopic.CUSTOMERS_DATA_REQUEST: {
+      const exportData = await buildCustomerExport(request.shopDomain, request.shopifyCustomerId!);
+      if (!exportData) return { summary: { customers: 0 } };
+      return { exportData, summary: { customers: 1, ...exportData.counts } };
+    }
+    case GdprTopic.CUSTOMERS_REDACT:
+      return {
+        summary: await redactCustomer(
+          request.shopDomain,
+          request.shopifyCustomerId!,
+          request.ordersRequested
+        ),
+      };
+    case GdprTopic.SHOP_REDACT:
+      return { summary: await purgeShopData(request.shopDomain) };
+  }
+}
+
+/**
+ * Everything held for one customer, for customers/data_request.
+ * Returns null when the app never stored the customer.
+ */
+export async function buildCustomerExport(shopDomain: string, shopifyCustomerId: string) {
+  const customer = await prisma.customer.findUnique({
+    where: { shopDomain_shopifyCustomerId: { shopDomain, shopifyCustomerId } },
+    include: {
+      transactions: {
+        include: { adjustments: { orderBy: { createdAt: "asc" } } },
+        orderBy: { createdAt: "asc" },
+      },
+      creditLedger: { orderBy: { createdAt: "asc" } },
+      creditLots: { orderBy: { earnedAt: "asc" } },
+      membershipHistory: {
+        include: { tier: { select: { name: true, cashbackPercent: true } } },
+        orderBy: { startDate: "asc" },
+      },
+      tierChangeLogs: { orderBy: { createdAt: "asc" } },
+      analytics: true,
+      emailLogs: { orderBy: { createdAt: "asc" } },
+      emailPreferences: true,
+    },
+  });
+
+  if (!customer) return null;
+
+  const {
+    transactions,
+    creditLedger,
+    creditLots,
+    membershipHistory,
+    tierChangeLogs,
+    analytics,
+    emailLogs,
+    emailPreferences,
+    ...profile
+  } = customer;
+
+  const data = {
+    generatedAt: new Date().toISOString(),
+    shopDomain,
+    shopifyCustomerId,
+    counts: {
+      cashbackTransactions: transactions.length,
+      storeCreditLedger: creditLedger.length,
+      creditLots: creditLots.length,
+      memberships: membershipHistory.length,
+      tierChanges: tierChangeLogs.length,
+      emailLogs: emailLogs.length,
+    },
+    customer: profile,
+    cashbackTransactions: transactions,
+    storeCreditLedger: creditLedger,
+    creditLots,
+    memberships: membershipHistory,
+    tierChanges: tierChangeLogs,
+    analytics,
+    emailLogs,
+    emailPreferences,
+  };
+
+  // Dates become ISO strings so the export is plain JSON
+  return JSON.parse(JSON.stringify(data)) as typeof data & Prisma.InputJsonObject;
+}
+
+/**
+ * customers/redact: remove personal data for one customer. Cashback,
+ * ledger and membership records are kept, without personal data, because
+ * the merchant still owes or has paid out that store credit.
+ */
+export async function redactCustomer(
+  shopDomain: string,
+  shopifyCustomerId: string,
+  orderIds: string[] = []
+) {
+  const customer = await prisma.customer.findUnique({
+    where: { shopDomain_shopifyCustomerId: { shopDomain, shopifyCustomerId } },
+    select: { id: true },
+  });
+
+  // Raw order payloads carry names, emails and addresses
+  const webhookEvents = await prisma.webhookEvent.deleteMany({
+    where: {
+      shopDomain,
+      status: { in: [WebhookEventStatus.COMPLETED, WebhookEventStatus.DEAD_LETTER] },
+      OR: [
+        { payload: { path: ["customer", "id"], equals: Number(shopifyCustomerId) } },
+        { payload: { path: ["id"], equals: Number(shopifyCustomerId) }, topic: "CUSTOMERS_CREATE" },
+        ...orderIds.flatMap((orderId) => [
+          { payload: { path: ["id"], equals: Number(orderId) }, topic: { notIn: ["REFUNDS_CREATE", "CUSTOMERS_CREATE"] } },
+          { payload: { path: ["order_id"], equals: Number(orderId) } },
+          { payload: { path: ["order_edit", "order_id"], equals: Number(orderId) } },
+        ]),
+      ],
+    },
+  });
+
+  // Guest checkouts waiting to be claimed keep the whole order payload
+  const unclaimedCashback = await prisma.unclaimedCashback.deleteMany({
+    where: { shopDomain, shopifyOrderId: { in: orderIds } },
+  });
+
+  if (!customer) {
+    return {
+      customers: 0,
+      webhookEvents: webhookEvents.count,
+      unclaimedCashback: unclaimedCashback.count,
+    };
+  }
+
+  const [, emailLogs, emailPreferences, analytics] = await prisma.$transaction([
+    prisma.customer.update({
+      where: { id: customer.id },
+      data: {
+        email: REDACTED_EMAIL,
+        notes: null,
+        tags: [],
+        preferences: Prisma.DbNull,
+        birthday: null,
+        redactedAt: new Date(),
+      },
+    }),
+    prisma.emailLog.deleteMany({ where: { customerId: customer.id } }),
+    prisma.customerEmailPreferences.deleteMany({ where: { customerId: customer.id } }),
+    prisma.customerAnalytics.deleteMany({ where: { customerId: customer.id } }),
+    prisma.tierChangeLog.updateMany({
+      where: { customerId: customer.id },
+      data: { metadata: Prisma.DbNull },
+    }),
+  ]);
+
+  console.log(`Redacted customer ${customer.id} for ${shopDomain}`);
+
+  return {
+    customers: 1,
+    emailLogs: emailLogs.count,
+    emailPreferences: emailPreferences.count,
+    analytics: analytics.count,
+    webhookEvents: webhookEvents.count,
+    unclaimedCashback: unclaimedCashback.count,
+  };
+}
+
+/**
+ * shop/redact: delete everything stored for a shop. Shopify sends this
+ * 48 hours after uninstall; a shop that has since reinstalled is left alone.
+ * GdprRequest rows are kept as the audit trail, minus any exported data.
+ */
+export async function purgeShopData(shopDomain: string) {
+  const session = await prisma.session.findFirst({
+    where: { shop: shopDomain, isOnline: false },
+    select: { id: true },
+  });
+  if (session) {
+    console.warn(`Skipping data purge for ${shopDomain}: the app is installed`);
+    return { skipped: "App is installed" };
+  }
+
+  const counts = await runDeletes({
+    ...programDataDeletes(shopDomain),
+    webhookEvents: prisma.webhookEvent.deleteMany({ where: { shopDomain } }),
+    sessions: prisma.session.deleteMany({ where: { shop: shopDomain } }),
+    exportsCleared: prisma.gdprRequest.updateMany({
+      where: { shopDomain, exportData: { not: Prisma.DbNull } },
+      data: { exportData: Prisma.DbNull },
+    }),
+  });
+
+  await prisma.shopInstallation.updateMany({
+    where: { shopDomain },
+    data: { status: InstallationStatus.PURGED, purgeAfter: null, purgedAt: new Date() },
+  });
+
+  console.log(`Purged all data for ${shopDomain} (${counts.customers} customers)`);
+
+  return counts;
+}
+
+/**
+ * Delete the shop's loyalty program (customers, balances, tiers, templates,
+ * settings and job history) while keeping its sessions, e.g. when a
+ * reinstalling merchant chooses to start fresh. Webhooks queued since the
+ * reinstall belong to the new program and are kept.
+ */
+export async function deleteProgramData(shopDomain: string, reinstalledAt: Date) {
+  return runDeletes({
+    ...programDataDeletes(shopDomain),
+    webhookEvents: prisma.webhookEvent.deleteMany({
+      where: { shopDomain, createdAt: { lt: reinstalledAt } },
+    }),
+  });
+}
+
+// Children before parents so foreign keys never block a delete
+function programDataDeletes(shopDomain: string) {
+  const byCustomer = { customer: { shopDomain } };
+  const byShop = { shopDomain };
+
+  return {
+    memberships: prisma.customerMembership.deleteMany({ where: byCustomer }),
+    tierChanges: prisma.tierChangeLog.deleteMany({ where: byCustomer }),
+    cashbackAdjustments: prisma.cashbackAdjustment.deleteMany({ where: byShop }),
+    cashbackTransactions: prisma.cashbackTransaction.deleteMany({ where: byShop }),
+    ledgerEntries: prisma.storeCreditLedger.deleteMany({ where: byShop }),
+    creditLots: prisma.creditLot.deleteMany({ where: byShop }),
+    emailLogs: prisma.emailLog.deleteMany({ where: byShop }),
+    emailPreferences: prisma.customerEmailPreferences.deleteMany({ where: byShop }),
+    analytics: prisma.customerAnalytics.deleteMany({ where: byShop }),
+    customers: prisma.customer.deleteMany({ where: byShop }),
+    tiers: prisma.tier.deleteMany({ where: byShop }),
+    emailTemplates: prisma.emailTemplate.deleteMany({ where: byShop }),
+    onboarding: prisma.onboarding.deleteMany({ where: byShop }),
+    migrations: prisma.migrationHistory.deleteMany({ where: byShop }),
+    settings: prisma.shopSettings.deleteMany({ where: byShop }),
+    reconciliationRuns: prisma.reconciliationRun.deleteMany({ where: byShop }),
+    tierEvaluationRuns: prisma.tierEvaluationRun.deleteMany({ where: byShop }),
+    unclaimedCashback: prisma.unclaimedCashback.deleteMany({ where: byShop }),
+    cashbackRules: prisma.cashbackRule.deleteMany({ where: byShop }),
+    campaigns: prisma.campaign.deleteMany({ where: byShop }),
+  };
+}
+
+/**
+ * Run named deletes in one transaction and report the rows removed by each
+ */
+async function runDeletes(deletes: Record<string, Prisma.PrismaPromise<Prisma.BatchPayload>>) {
+  const names = Object.keys(deletes);
+  const results = await prisma.$transaction(Object.values(deletes));
+
+  return Object.fromEntries(names.map((name, i) => [name, results[i].count]));
+}
@@ -0,0 +1,78 @@
+// app/services/jobs.server.ts
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { processDueWebhookEvents } from "./webhook-queue.server";
+import { reconcileCashbackTransactions, syncPendingDebits } from "./cashback-sync.server";
+import { releaseHeldCashback } from "./cashback-hold.server";
+import { runScheduledReconciliation } from "./reconciliation.server";
+import { processCreditExpiry } from "./credit-expiry.server";
+import { processTierBenefits } from "./tier-benefits.server";
+import { runTierEvaluation } from "./customer-tier.server";
+import { processDueGdprRequests } from "./gdpr.server";
+import { expireUnclaimedCashback } from "./unclaimed-cashback.server";
+import { getPausedShops, purgeExpiredShops } from "./shop-installation.server";
+import type { AdminGraphQLClient } from "./store-credit.server";
+
+type JobRunner = () => Promise<unknown>;
+
+/**
+ * Run a job for every active shop with an offline session. A failing
+ * shop is reported in the results and does not stop the others.
+ */
+async function forEachShop<T>(
+  run: (shopDomain: string, admin: AdminGraphQLClient) => Promise<T>
+) {
+  const paused = await getPausedShops();
+  const sessions = await prisma.session.findMany({
+    where: { isOnline: false, shop: { notIn: paused } },
+    distinct: ["shop"],
+    select: { shop: true },
+  });
+
+  const results: Record<string, T | { error: string }> = {};
+
+  for (const { shop } of sessions) {
+    try {
+      const { admin } = await unauthenticated.admin(shop);
+      results[shop] = await run(shop, admin);
+    } catch (error) {
+      console.error(`Job failed for ${shop}:`, error);
+      results[shop] = { error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  return results;
+}
+
+// Background jobs triggered by the cron endpoint (/api/cron/:job)
+const JOBS: Record<string, JobRunner> = {
+  "webhook-events": () => processDueWebhookEvents(),
+  "cashback-sync": () => forEachShop(reconcileCashbackTransactions),
+  "debit-sync": () => forEachShop(syncPendingDebits),
+  "cashback-release": () => forEachShop(releaseHeldCashback),
+  "reconciliation": () => forEachShop(runScheduledReconciliation),
+  "credit-expiry": () => forEachShop(processCreditExpiry),
+  "tier-benefits": () => forEachShop(processTierBenefits),
+  "tier-evaluation": () => forEachShop((shopDomain) => runTierEvaluation(shopDomain)),
+  // Not per shop: shop/redact arrives after the offline session is gone
+  "gdpr-requests": () => processDueGdprRequests(),
+  "unclaimed-cashback": () => expireUnclaimedCashback(),
+  "shop-purge": () => purgeExpiredShops(),
+};
+
+export function isKnownJob(name: string): boolean {
+  return name in JOBS;
+}
+
+export async function runJob(name: string) {
+  const runner = JOBS[name];
+  if (!runner) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+
+  const startedAt = Date.now();
+  const result = await runner();
+  console.log(`Job ${name} finished in ${Date.now() - startedAt}ms`);
+
+  return result;
+}
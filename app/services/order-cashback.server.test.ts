@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TransactionStatus } from "@prisma/client";
+import { processPaidOrder } from "./order-cashback.server";
+import { assignInitialTier, evaluateTierAfterOrder } from "./customer-tier.server";
+import { getCashbackHold, postCashbackEarned } from "./cashback-hold.server";
+import { toMoney } from "../utils/money";
+
+const { prisma } = vi.hoisted(() => {
+  const prisma = {
+    cashbackTransaction: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    customer: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn(),
+    },
+    customerMembership: { findFirst: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  // Transactions run against the same mocks
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../db.server", () => ({ default: prisma }));
+vi.mock("./customer-tier.server", () => ({
+  assignInitialTier: vi.fn(),
+  evaluateTierAfterOrder: vi.fn(),
+}));
+vi.mock("./cashback-hold.server", () => ({
+  getCashbackHold: vi.fn(),
+  postCashbackEarned: vi.fn(),
+}));
+vi.mock("./campaign.server", () => ({ getCampaignBonus: vi.fn().mockResolvedValue(null) }));
+vi.mock("./shop-settings.server", () => ({ getShopSettings: vi.fn().mockResolvedValue({}) }));
+vi.mock("./cashback-sync.server", () => ({ syncCashbackToShopify: vi.fn() }));
+vi.mock("./unclaimed-cashback.server", () => ({ recordUnclaimedCashback: vi.fn() }));
+vi.mock("./store-credit-ledger.server", () => ({ postLedgerEntry: vi.fn() }));
+
+const SHOP = "store.myshopify.com";
+
+const order = {
+  id: 5001,
+  currency: "USD",
+  total_price: "200.00",
+  financial_status: "paid",
+  created_at: "2026-10-01T10:00:00Z",
+  customer: { id: 1001, email: "a@example.com" },
+};
+
+describe("orders/paid tier handling", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(assignInitialTier).mockReset();
+    vi.mocked(evaluateTierAfterOrder).mockReset();
+    vi.mocked(getCashbackHold).mockReturnValue(null);
+
+    prisma.cashbackTransaction.findUnique.mockResolvedValue(null);
+    prisma.customer.findUnique.mockResolvedValue(null);
+    prisma.customer.create.mockResolvedValue({ id: "customer-1", tags: [] });
+    prisma.customer.findUniqueOrThrow.mockResolvedValue({
+      id: "customer-1",
+      storeCredit: toMoney(0),
+      totalEarned: toMoney(0),
+    });
+    prisma.customerMembership.findFirst.mockResolvedValue({
+      tierId: "bronze",
+      tier: { name: "Bronze", cashbackPercent: 2 },
+    });
+    vi.mocked(postCashbackEarned).mockResolvedValue({
+      customer: { storeCredit: toMoney(4), totalEarned: toMoney(4) },
+    } as Awaited<ReturnType<typeof postCashbackEarned>>);
+    prisma.cashbackTransaction.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: "transaction-1", createdAt: new Date(), ...data })
+    );
+  });
+
+  it("places a new customer in the base tier alongside the customer record", async () => {
+    await processPaidOrder(SHOP, order);
+
+    expect(assignInitialTier).toHaveBeenCalledWith("customer-1", SHOP, prisma, "New customer - first order");
+  });
+
+  it("re-evaluates the tier with the order's spend", async () => {
+    const result = await processPaidOrder(SHOP, order);
+
+    expect(result.processed).toBe(true);
+    expect(evaluateTierAfterOrder).toHaveBeenCalledWith(
+      "customer-1",
+      SHOP,
+      expect.objectContaining({ id: "transaction-1", orderAmount: toMoney("200.00") })
+    );
+  });
+
+  it("counts held orders towards the tier when paid", async () => {
+    vi.mocked(getCashbackHold).mockReturnValue({ releaseAt: null });
+
+    const result = await processPaidOrder(SHOP, order);
+
+    expect(result).toMatchObject({ processed: true, held: true });
+    expect(evaluateTierAfterOrder).toHaveBeenCalledWith(
+      "customer-1",
+      SHOP,
+      expect.objectContaining({ status: TransactionStatus.HELD })
+    );
+  });
+
+  it("leaves existing customers' memberships to the evaluation", async () => {
+    prisma.customer.findUnique.mockResolvedValue({ id: "customer-1", tags: [] });
+
+    await processPaidOrder(SHOP, order);
+
+    expect(assignInitialTier).not.toHaveBeenCalled();
+    expect(evaluateTierAfterOrder).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,792 @@
+// app/services/order-cashback.server.ts
+import prisma from "../db.server";
+import {
+  Prisma,
+  TransactionStatus,
+  LedgerEntryType,
+  LedgerSource,
+} from "@prisma/client";
+import type { AdminGraphQLClient } from "./store-credit.server";
+import { syncCashbackToShopify } from "./cashback-sync.server";
+import { postLedgerEntry } from "./store-credit-ledger.server";
+import {
+  applyCashbackRules,
+  getActiveCashbackRules,
+  toRuleOrder,
+  ORDER_RULE_FIELDS,
+  type CashbackRuleBreakdown,
+  type OrderRuleFields,
+  type RulePayment,
+} from "./cashback-rules.server";
+import { getCampaignBonus, type CampaignBonus } from "./campaign.server";
+import { assignInitialTier, evaluateTierAfterOrder } from "./customer-tier.server";
+import { getCashbackHold, postCashbackEarned } from "./cashback-hold.server";
+import { getShopSettings } from "./shop-settings.server";
+import { recordUnclaimedCashback } from "./unclaimed-cashback.server";
+import {
+  convertMoney,
+  percentOf,
+  roundToCents,
+  toMoney,
+  ZERO,
+  type Decimal,
+} from "../utils/money";
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface Transaction {
+  id: string;
+  gateway: string;
+  status: string;
+  kind: string;
+  amountSet: {
+    shopMoney: {
+      amount: string;
+      currencyCode: string;
+    };
+    presentmentMoney: {
+      amount: string;
+      currencyCode: string;
+    };
+  };
+  parentTransaction?: {
+    id: string;
+  };
+}
+
+interface OrderDetails extends OrderRuleFields {
+  id: string;
+  totalReceivedSet: {
+    shopMoney: {
+      amount: string;
+      currencyCode: string;
+    };
+  };
+  transactions: Transaction[];
+}
+
+export interface OrderCashbackPreview {
+  orderId: string;
+  orderName: string;
+  breakdown: CashbackRuleBreakdown;
+  // Null when the order's customer isn't in the program yet
+  cashbackPercent: number | null;
+  cashbackAmount: Decimal | null;
+}
+
+// orders/paid payload, REST webhook format; only the fields read here
+export interface PaidOrderPayload {
+  id: number | string;
+  name?: string;
+  email?: string | null;
+  contact_email?: string | null;
+  currency?: string;
+  presentment_currency?: string;
+  total_price?: string;
+  total_price_set?: {
+    shop_money?: { amount: string };
+    presentment_money?: { amount: string };
+  };
+  financial_status?: string;
+  cancelled_at?: string | null;
+  created_at?: string;
+  customer?: {
+    id: number | string;
+    email?: string | null;
+    tags?: string;
+  } | null;
+}
+
+export interface PaidOrderResult {
+  processed: boolean;
+  reason?: string;
+  cashbackAmount?: Decimal;
+  transactionId?: string;
+  held?: boolean; // Cashback waits out the shop's return window
+}
+
+interface PaymentBreakdown {
+  giftCardAmount: Decimal;
+  storeCreditAmount: Decimal;
+  externalPaymentAmount: Decimal;
+  cashbackEligibleAmount: Decimal;
+  externalPayments: RulePayment[];
+  // The same eligible payments in the currency the customer paid with
+  presentmentEligibleAmount: Decimal;
+}
+
+// Cashback as credited to the customer's store credit account when they
+// paid in a currency other than the shop's
+interface PresentmentCredit {
+  currency: string;
+  cashbackAmount: Decimal;
+  exchangeRate: Decimal;
+}
+
+// ============================================================================
+// STEP 3: FETCH TRANSACTION DETAILS
+// ============================================================================
+
+async function fetchOrderTransactions(
+  admin: AdminGraphQLClient, 
+  orderId: string
+): Promise<OrderDetails | null> {
+  const query = `#graphql
+    query GetOrderPaymentDetails($id: ID!) {
+      order(id: $id) {
+        id
+        totalReceivedSet {
+          shopMoney {
+            amount
+            currencyCode
+          }
+        }
+        transactions(first: 250) {
+          id
+          gateway
+          status
+          kind
+          amountSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+            presentmentMoney {
+              amount
+              currencyCode
+            }
+          }
+          parentTransaction {
+            id
+          }
+        }
+        ${ORDER_RULE_FIELDS}
+      }
+    }
+  `;
+
+  const gid = orderId.startsWith('gid://') 
+    ? orderId 
+    : `gid://shopify/Order/${orderId}`;
+  
+  // Transport and GraphQL errors propagate so the event is retried
+  const response = await admin.graphql(query, { 
+    variables: { id: gid } 
+  });
+  const result = await response.json();
+  
+  if (result.errors) {
+    console.error("Failed to fetch order details:", result.errors);
+    throw new Error(`Failed to fetch order ${orderId}: ${result.errors[0]?.message || "GraphQL error"}`);
+  }
+  
+  return result.data?.order || null;
+}
+
+// ============================================================================
+// STEP 4: ANALYZE TRANSACTIONS
+// ============================================================================
+
+function analyzeTransactions(transactions: Transaction[]): PaymentBreakdown {
+  let giftCardAmount = ZERO;
+  let storeCreditAmount = ZERO;
+  let externalPaymentAmount = ZERO;
+  let presentmentEligibleAmount = ZERO;
+  const externalPayments: RulePayment[] = [];
+  
+  // Only process successful SALE or CAPTURE transactions
+  const validTransactions = transactions.filter(tx => {
+    const isSuccessful = tx.status === 'SUCCESS';
+    const isPayment = ['SALE', 'CAPTURE'].includes(tx.kind);
+    return isSuccessful && isPayment;
+  });
+  
+  // Deduplicate CAPTURE/AUTHORIZATION pairs
+  const processedIds = new Set<string>();
+  
+  validTransactions.forEach(tx => {
+    // Skip if we've already processed this transaction
+    if (processedIds.has(tx.id)) return;
+    
+    // Skip CAPTURE if we already processed its AUTHORIZATION
+    if (tx.kind === 'CAPTURE' && tx.parentTransaction) {
+      const parentAuth = transactions.find(
+        t => t.id === tx.parentTransaction!.id && t.kind === 'AUTHORIZATION'
+      );
+      if (parentAuth && processedIds.has(parentAuth.id)) {
+        return;
+      }
+    }
+    
+    processedIds.add(tx.id);
+    const amount = toMoney(tx.amountSet.shopMoney.amount);
+    const gateway = tx.gateway.toLowerCase();
+    
+    // Categorize payment by gateway
+    if (gateway.includes('gift_card')) {
+      giftCardAmount = giftCardAmount.plus(amount);
+      console.log(`  Gift card: ${amount} (excluded)`);
+    } else if (gateway.includes('store_credit')) {
+      storeCreditAmount = storeCreditAmount.plus(amount);
+      console.log(`  Store credit: ${amount} (excluded)`);
+    } else {
+      externalPaymentAmount = externalPaymentAmount.plus(amount);
+      externalPayments.push({ gateway: tx.gateway, amount });
+      presentmentEligibleAmount = presentmentEligibleAmount.plus(
+        toMoney(tx.amountSet.presentmentMoney?.amount ?? tx.amountSet.shopMoney.amount)
+      );
+      console.log(`  External payment (${tx.gateway}): ${amount} (eligible)`);
+    }
+  });
+  
+  return {
+    giftCardAmount,
+    storeCreditAmount,
+    externalPaymentAmount,
+    cashbackEligibleAmount: externalPaymentAmount,
+    externalPayments,
+    presentmentEligibleAmount
+  };
+}
+
+/**
+ * Work out what to credit in the presentment currency, at the rate Shopify
+ * applied to the order's own payments. Null when the order was paid in the
+ * shop currency.
+ */
+function getPresentmentCredit(
+  presentmentCurrency: string,
+  shopCurrency: string,
+  eligibleAmount: Decimal,
+  presentmentEligibleAmount: Decimal,
+  cashbackAmount: Decimal
+): PresentmentCredit | null {
+  if (presentmentCurrency === shopCurrency || eligibleAmount.lte(0) || presentmentEligibleAmount.lte(0)) {
+    return null;
+  }
+
+  const exchangeRate = presentmentEligibleAmount.dividedBy(eligibleAmount).toDecimalPlaces(8);
+
+  return {
+    currency: presentmentCurrency,
+    cashbackAmount: convertMoney(cashbackAmount, exchangeRate),
+    exchangeRate
+  };
+}
+
+/**
+ * Cashback-eligible payments of an order as it stands in Shopify now,
+ * e.g. after an edit. Null when it has no payments.
+ */
+export async function getOrderEligibleAmount(admin: AdminGraphQLClient, orderId: string) {
+  const orderDetails = await fetchOrderTransactions(admin, orderId);
+  if (!orderDetails || orderDetails.transactions.length === 0) return null;
+
+  return analyzeTransactions(orderDetails.transactions).cashbackEligibleAmount;
+}
+
+// ============================================================================
+// STEP 5: CALCULATE CASHBACK
+// ============================================================================
+
+async function calculateCashback(
+  customerId: string,
+  shopDomain: string,
+  eligibleAmount: Decimal
+): Promise<{ amount: Decimal; percentage: number; tierId: string | null; tierName: string | null }> {
+  // Get customer's tier information
+  const membership = await prisma.customerMembership.findFirst({
+    where: {
+      customerId,
+      isActive: true
+    },
+    include: {
+      tier: true
+    }
+  });
+  
+  const cashbackPercent = membership?.tier.cashbackPercent || 1; // Default 1%
+  const cashbackAmount = percentOf(eligibleAmount, cashbackPercent);
+  
+  return {
+    amount: cashbackAmount,
+    percentage: cashbackPercent,
+    tierId: membership?.tierId || null,
+    tierName: membership?.tier.name || null
+  };
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Phase one of cashback issuance: reserve the transaction as PENDING and
+ * credit the local balance through the ledger. The unique (shopDomain, shopifyOrderId) row
+ * exists before Shopify is called, so a redelivery can never credit twice.
+ */
+async function reserveCashbackTransaction(
+  shopDomain: string,
+  customerId: string,
+  orderId: string,
+  orderAmount: Decimal,
+  cashbackAmount: Decimal,
+  cashbackPercent: number,
+  currency: string,
+  presentment: PresentmentCredit | null,
+  campaign: CampaignBonus | null,
+  hold: { releaseAt: Date | null } | null
+) {
+  // Zero cashback has nothing to hold back
+  const held = hold !== null && cashbackAmount.gt(0);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const transaction = await tx.cashbackTransaction.create({
+        data: {
+          shopDomain,
+          customerId,
+          shopifyOrderId: orderId,
+          orderAmount,
+          cashbackAmount,
+          cashbackPercent,
+          currency,
+          presentmentCurrency: presentment?.currency,
+          presentmentCashbackAmount: presentment?.cashbackAmount,
+          exchangeRate: presentment?.exchangeRate,
+          campaignId: campaign?.campaignId,
+          campaignBonus: campaign?.amount ?? ZERO,
+          status: held ? TransactionStatus.HELD : TransactionStatus.PENDING,
+          releaseAt: held ? hold.releaseAt : null
+        }
+      });
+      
+      // Held cashback is posted to the ledger when the hold ends
+      if (held || cashbackAmount.lte(0)) {
+        const updatedCustomer = await tx.customer.findUniqueOrThrow({
+          where: { id: customerId }
+        });
+        return { transaction, updatedCustomer };
+      }
+      
+      const { customer: updatedCustomer } = await postCashbackEarned(tx, transaction);
+      
+      return { transaction, updatedCustomer };
+    });
+  } catch (error) {
+    // A concurrent delivery reserved the order first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Debit the local balance for store credit spent on the order. Shopify has
+ * already debited its own account at checkout, so this only mirrors it.
+ * Idempotent per order.
+ */
+async function recordStoreCreditRedemption(
+  shopDomain: string,
+  customerId: string,
+  orderId: string,
+  amount: Decimal
+) {
+  const reference = `gid://shopify/Order/${orderId}`;
+  const debit = roundToCents(amount);
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.storeCreditLedger.findFirst({
+      where: {
+        shopDomain,
+        type: LedgerEntryType.ORDER_PAYMENT,
+        shopifyReference: reference
+      }
+    });
+    
+    if (existing) return null;
+    
+    const { entry } = await postLedgerEntry(tx, {
+      customerId,
+      shopDomain,
+      amount: debit.negated(),
+      type: LedgerEntryType.ORDER_PAYMENT,
+      source: LedgerSource.SHOPIFY_ORDER,
+      shopifyReference: reference,
+      description: `Store credit used on order ${orderId}`,
+      reconciledAt: new Date()
+    });
+    
+    return entry;
+  });
+}
+
+// ============================================================================
+// MAIN ORDER PROCESSOR
+// ============================================================================
+
+/**
+ * Award cashback for a paid order. Throws on any failure so the
+ * webhook queue can retry the event.
+ */
+export async function processPaidOrder(
+  shop: string,
+  payload: PaidOrderPayload,
+  admin?: AdminGraphQLClient
+): Promise<PaidOrderResult> {
+  console.log("\n" + "=".repeat(60));
+  console.log("CASHBACK - ORDER PAID");
+  console.log("=".repeat(60));
+
+  // ========================================================================
+  // STEP 1 & 2: RECEIVE ORDER & EXTRACT BASIC INFO
+  // ========================================================================
+  
+  const order = payload;
+  
+  // Extract essential information
+  const orderId = order.id?.toString();
+  const customerId = order.customer?.id?.toString();
+  const customerEmail = order.customer?.email;
+  // Amounts are taken in shop currency so spend and balances stay comparable
+  // across markets; the customer is credited in the currency they paid with
+  const currency = order.currency || "USD";
+  const presentmentCurrency = order.presentment_currency || currency;
+  const webhookTotalPrice = toMoney(order.total_price_set?.shop_money?.amount ?? order.total_price ?? "0");
+  const webhookPresentmentTotal = toMoney(
+    order.total_price_set?.presentment_money?.amount ?? webhookTotalPrice
+  );
+  
+  console.log("\n📦 Order Information:");
+  console.log(`   Order ID: ${orderId}`);
+  console.log(`   Customer: ${customerEmail} (ID: ${customerId})`);
+  console.log(`   Total Price: ${webhookTotalPrice} ${currency}`);
+  if (presentmentCurrency !== currency) {
+    console.log(`   Paid In: ${webhookPresentmentTotal} ${presentmentCurrency}`);
+  }
+  console.log(`   Financial Status: ${order.financial_status}`);
+  
+  // Validation checks
+  if (order.financial_status === 'voided' || order.cancelled_at) {
+    console.log("⏭️  Skipping: Order cancelled or voided");
+    return { processed: false, reason: "Order cancelled or voided" };
+  }
+  
+  if (!customerId) {
+    // Credited later if the buyer signs up with the same email
+    const unclaimed = await recordUnclaimedCashback(shop, order);
+    console.log(`⏭️  Skipping: Guest checkout (no customer ID)${unclaimed ? ", recorded as unclaimed" : ""}`);
+    return { processed: false, reason: "Guest checkout" };
+  }
+  
+  // Check for duplicate processing
+  const existingTransaction = await prisma.cashbackTransaction.findUnique({
+    where: { 
+      shopDomain_shopifyOrderId: {
+        shopDomain: shop,
+        shopifyOrderId: orderId
+      }
+    }
+  });
+  
+  if (existingTransaction) {
+    console.log("⏭️  Skipping: Order already processed");
+    return { processed: false, reason: "Order already processed" };
+  }
+  
+  // Find or create customer
+  let customer = await prisma.customer.findUnique({
+    where: { 
+      shopDomain_shopifyCustomerId: {
+        shopDomain: shop,
+        shopifyCustomerId: customerId
+      }
+    }
+  });
+  
+  if (!customer) {
+    console.log("👤 Creating new customer record");
+    
+    // Customer, initial tier and log are written together so a retry never
+    // finds a customer without a membership
+    customer = await prisma.$transaction(async (tx) => {
+      const created = await tx.customer.create({
+        data: {
+          shopDomain: shop,
+          shopifyCustomerId: customerId,
+          email: customerEmail ?? "",
+          storeCredit: 0,
+          totalEarned: 0
+        }
+      });
+      
+      await assignInitialTier(created.id, shop, tx, "New customer - first order");
+      
+      return created;
+    });
+  }
+  
+  // ========================================================================
+  // STEP 3: FETCH TRANSACTION DETAILS
+  // ========================================================================
+  
+  console.log("\n💳 Fetching payment details...");
+  
+  let cashbackEligibleAmount = webhookTotalPrice; // Fallback
+  let presentmentEligibleAmount = webhookPresentmentTotal;
+  // What cashback is calculated on once the shop's rules are applied
+  let cashbackBase = webhookTotalPrice;
+  let ruleBreakdown: CashbackRuleBreakdown | null = null;
+  
+  if (admin) {
+    const orderDetails = await fetchOrderTransactions(admin, orderId);
+    
+    if (orderDetails && orderDetails.transactions.length > 0) {
+      // ====================================================================
+      // STEP 4: ANALYZE TRANSACTIONS
+      // ====================================================================
+      
+      console.log(`\n📊 Analyzing ${orderDetails.transactions.length} transactions:`);
+      const breakdown = analyzeTransactions(orderDetails.transactions);
+      
+      console.log("\n💰 Payment Breakdown:");
+      console.log(`   Gift Cards: ${breakdown.giftCardAmount.toFixed(2)} ${currency}`);
+      console.log(`   Store Credit: ${breakdown.storeCreditAmount.toFixed(2)} ${currency}`);
+      console.log(`   External Payments: ${breakdown.externalPaymentAmount.toFixed(2)} ${currency}`);
+      console.log(`   ✅ Cashback Eligible: ${breakdown.cashbackEligibleAmount.toFixed(2)} ${currency}`);
+      
+      cashbackEligibleAmount = breakdown.cashbackEligibleAmount;
+      presentmentEligibleAmount = breakdown.presentmentEligibleAmount;
+      
+      const rules = await getActiveCashbackRules(shop);
+      ruleBreakdown = applyCashbackRules(
+        toRuleOrder(orderDetails, breakdown.externalPayments),
+        rules
+      );
+      cashbackBase = ruleBreakdown.eligibleAmount;
+      if (rules.length > 0) {
+        console.log(`   📏 After ${rules.length} rules: ${cashbackBase.toFixed(2)} ${currency}`);
+      }
+      
+      // Mirror store credit redeemed at checkout, even when nothing is eligible for cashback
+      if (breakdown.storeCreditAmount.gt(0)) {
+        const redemption = await recordStoreCreditRedemption(
+          shop,
+          customer.id,
+          orderId,
+          breakdown.storeCreditAmount
+        );
+        if (redemption) {
+          console.log(`   💳 Debited ${breakdown.storeCreditAmount.toFixed(2)} ${currency} store credit (balance ${redemption.balance.toFixed(2)})`);
+        }
+      }
+    } else {
+      console.warn("⚠️  Could not fetch transactions, using webhook total");
+    }
+  } else {
+    console.warn("⚠️  Admin API not available");
+  }
+  
+  // Skip if no eligible amount
+  if (cashbackEligibleAmount.lte(0)) {
+    console.log("⏭️  Skipping: No cashback eligible amount");
+    return { processed: false, reason: "No cashback eligible amount" };
+  }
+  
+  // ========================================================================
+  // STEP 5: CALCULATE CASHBACK
+  // ========================================================================
+  
+  console.log("\n🎯 Calculating cashback:");
+  const cashback = await calculateCashback(
+    customer.id, 
+    shop, 
+    cashbackBase
+  );
+  
+  console.log(`   Tier: ${cashback.tierName || 'Default'}`);
+  console.log(`   Rate: ${cashback.percentage}%`);
+  console.log(`   Amount: ${cashback.amount.toFixed(2)} ${currency}`);
+  
+  // Customer tags from Shopify plus any the merchant added in the app
+  const customerTags = [
+    ...(order.customer?.tags ? String(order.customer.tags).split(",") : []),
+    ...customer.tags
+  ];
+  const campaign = await getCampaignBonus(shop, {
+    placedAt: new Date(order.created_at ?? Date.now()),
+    tierId: cashback.tierId,
+    tierPercent: cashback.percentage,
+    customerTags,
+    eligibleAmount: cashbackBase,
+    breakdown: ruleBreakdown
+  });
+  const cashbackAmount = cashback.amount.plus(campaign?.amount ?? ZERO);
+  if (campaign) {
+    console.log(`   Campaign: ${campaign.campaignName} +${campaign.amount.toFixed(2)} ${currency}`);
+  }
+  
+  const presentment = getPresentmentCredit(
+    presentmentCurrency,
+    currency,
+    cashbackEligibleAmount,
+    presentmentEligibleAmount,
+    cashbackAmount
+  );
+  if (presentment) {
+    console.log(`   Credited As: ${presentment.cashbackAmount.toFixed(2)} ${presentment.currency} (rate ${presentment.exchangeRate})`);
+  }
+  
+  // ========================================================================
+  // STEP 6: RESERVE IN DATABASE
+  // ========================================================================
+  
+  const settings = await getShopSettings(shop);
+  const hold = getCashbackHold(settings, new Date());
+  
+  console.log("\n💾 Reserving transaction in database:");
+  const reservation = await reserveCashbackTransaction(
+    shop,
+    customer.id,
+    orderId,
+    cashbackEligibleAmount,
+    cashbackAmount,
+    cashback.percentage,
+    currency,
+    presentment,
+    campaign,
+    hold
+  );
+  
+  if (!reservation) {
+    console.log("⏭️  Skipping: Order already processed");
+    return { processed: false, reason: "Order already processed" };
+  }
+  
+  const { transaction, updatedCustomer } = reservation;
+  
+  console.log(`   Transaction ID: ${transaction.id}`);
+  console.log(`   Previous Balance: ${updatedCustomer.storeCredit.minus(cashbackAmount).toFixed(2)}`);
+  console.log(`   New Balance: ${updatedCustomer.storeCredit.toFixed(2)}`);
+  console.log(`   Total Earned: ${updatedCustomer.totalEarned.toFixed(2)}`);
+  
+  // ========================================================================
+  // STEP 7: ISSUE STORE CREDIT
+  // ========================================================================
+  
+  if (transaction.status === TransactionStatus.HELD) {
+    console.log(
+      `\n⏳ Cashback held ${transaction.releaseAt ? `until ${transaction.releaseAt.toISOString()}` : "until fulfilled"}`
+    );
+    
+    // Counted towards the tier now; the cashback-release job credits it later
+    await evaluateTierAfterOrder(customer.id, shop, transaction);
+    console.log("=".repeat(60) + "\n");
+    
+    return {
+      processed: true,
+      held: true,
+      cashbackAmount,
+      transactionId: transaction.id
+    };
+  }
+  
+  if (admin && cashbackAmount.gt(0)) {
+    console.log("\n💸 Issuing store credit in Shopify:");
+    
+    // Failures are left for the cashback reconciler rather than retried here
+    const status = await syncCashbackToShopify(admin, transaction.id);
+    console.log(`   Status: ${status}`);
+  } else {
+    await prisma.cashbackTransaction.update({
+      where: { id: transaction.id },
+      data: { status: TransactionStatus.COMPLETED }
+    });
+  }
+  
+  // ========================================================================
+  // RE-EVALUATE TIER
+  // ========================================================================
+  
+  await evaluateTierAfterOrder(customer.id, shop, transaction);
+  
+  console.log("\n✅ Order processing complete!");
+  console.log("=".repeat(60) + "\n");
+  
+  return {
+    processed: true,
+    cashbackAmount,
+    transactionId: transaction.id
+  };
+}
+
+// ============================================================================
+// RULES PREVIEW
+// ============================================================================
+
+/**
+ * Show how the shop's active rules would treat a past order, by order
+ * name (e.g. #1001). Read-only: nothing is credited or recorded.
+ */
+export async function previewOrderCashback(
+  admin: AdminGraphQLClient,
+  shopDomain: string,
+  orderName: string
+): Promise<OrderCashbackPreview | null> {
+  const name = orderName.trim().startsWith("#") ? orderName.trim() : `#${orderName.trim()}`;
+  const response = await admin.graphql(
+    `#graphql
+      query FindOrderByName($query: String!) {
+        orders(first: 1, query: $query) {
+          edges {
+            node {
+              id
+              name
+              customer {
+                id
+              }
+            }
+          }
+        }
+      }
+    `,
+    { variables: { query: `name:${name}` } }
+  );
+  const result = await response.json();
+  const found = result.data?.orders?.edges?.[0]?.node;
+  if (!found) return null;
+
+  const orderDetails = await fetchOrderTransactions(admin, found.id);
+  if (!orderDetails) return null;
+
+  const payments = analyzeTransactions(orderDetails.transactions);
+  const breakdown = applyCashbackRules(
+    toRuleOrder(orderDetails, payments.externalPayments),
+    await getActiveCashbackRules(shopDomain)
+  );
+
+  const customer = found.customer
+    ? await prisma.customer.findUnique({
+        where: {
+          shopDomain_shopifyCustomerId: {
+            shopDomain,
+            shopifyCustomerId: found.customer.id.split("/").pop()
+          }
+        }
+      })
+    : null;
+  const cashback = customer
+    ? await calculateCashback(customer.id, shopDomain, breakdown.eligibleAmount)
+    : null;
+
+  return {
+    orderId: found.id,
+    orderName: found.name,
+    breakdown,
+    cashbackPercent: cashback?.percentage ?? null,
+    cashbackAmount: cashback?.amount ?? null
+  };
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { processOrdersImport } from "./order-import.server";
+import {
+  assignInitialTier,
+  evaluateCustomerTier,
+  updateCustomerAnalytics,
+} from "./customer-tier.server";
+
+const { prisma } = vi.hoisted(() => {
+  const prisma = {
+    tier: { findMany: vi.fn() },
+    migrationHistory: { create: vi.fn(), update: vi.fn() },
+    customer: { findUnique: vi.fn(), create: vi.fn(), findMany: vi.fn() },
+    cashbackTransaction: { findUnique: vi.fn(), create: vi.fn() },
+    customerMembership: { findFirst: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  // Transactions run against the same mocks
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+vi.mock("../db.server", () => ({ default: prisma }));
+vi.mock("./customer-tier.server", () => ({
+  assignInitialTier: vi.fn(),
+  evaluateCustomerTier: vi.fn(),
+  updateCustomerAnalytics: vi.fn(),
+}));
+vi.mock("./store-credit-ledger.server", () => ({
+  postLedgerEntry: vi.fn(),
+  postBalanceCorrection: vi.fn(),
+}));
+
+const SHOP = "store.myshopify.com";
+
+function ordersPage() {
+  return new Response(
+    JSON.stringify({
+      data: {
+        orders: {
+          edges: [
+            {
+              cursor: "c1",
+              node: {
+                id: "gid://shopify/Order/5001",
+                name: "#1001",
+                createdAt: "2026-06-01T10:00:00Z",
+                totalPriceSet: { shopMoney: { amount: "120.00", currencyCode: "USD" } },
+                displayFinancialStatus: "PAID",
+                customer: { id: "gid://shopify/Customer/1001", email: "a@example.com" },
+              },
+            },
+          ],
+          pageInfo: { hasNextPage: false, endCursor: "c1" },
+        },
+      },
+    })
+  );
+}
+
+describe("order import tier handling", () => {
+  beforeEach(() => {
+    vi.mocked(assignInitialTier).mockReset();
+    vi.mocked(evaluateCustomerTier).mockReset().mockResolvedValue(null);
+    vi.mocked(updateCustomerAnalytics).mockReset();
+
+    prisma.tier.findMany.mockResolvedValue([{ id: "bronze", cashbackPercent: 1 }]);
+    prisma.migrationHistory.create.mockResolvedValue({ id: "migration-1" });
+    prisma.customer.findUnique.mockResolvedValue(null);
+    prisma.customer.create.mockResolvedValue({ id: "customer-1", email: "a@example.com" });
+    prisma.customer.findMany.mockResolvedValue([{ id: "customer-1", email: "a@example.com" }]);
+    prisma.cashbackTransaction.findUnique.mockResolvedValue(null);
+    prisma.cashbackTransaction.create.mockResolvedValue({ id: "transaction-1" });
+    prisma.customerMembership.findFirst.mockResolvedValue({ tier: { cashbackPercent: 1 } });
+  });
+
+  function runImport(updateTiers: boolean) {
+    return processOrdersImport({
+      shopDomain: SHOP,
+      admin: { graphql: vi.fn().mockResolvedValue(ordersPage()) },
+      startDate: new Date("2026-01-01"),
+      endDate: new Date("2026-12-31"),
+      importType: "new",
+      updateTiers,
+    });
+  }
+
+  it("places imported customers in the base tier inside the import transaction", async () => {
+    const result = await runImport(false);
+
+    expect(result.newCustomers).toBe(1);
+    expect(assignInitialTier).toHaveBeenCalledWith("customer-1", SHOP, prisma);
+    expect(evaluateCustomerTier).not.toHaveBeenCalled();
+  });
+
+  it("refreshes analytics and evaluates tiers through the service", async () => {
+    vi.mocked(evaluateCustomerTier).mockResolvedValue({ tierId: "silver" } as Awaited<
+      ReturnType<typeof evaluateCustomerTier>
+    >);
+
+    const result = await runImport(true);
+
+    expect(updateCustomerAnalytics).toHaveBeenCalledWith("customer-1", SHOP);
+    expect(evaluateCustomerTier).toHaveBeenCalledWith("customer-1", SHOP);
+    expect(vi.mocked(updateCustomerAnalytics).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(evaluateCustomerTier).mock.invocationCallOrder[0]
+    );
+    expect(result.tiersUpdated).toBe(1);
+  });
+});
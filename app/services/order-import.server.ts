@@ -3,17 +3,20 @@ import prisma from "../db.server";
 import { 
   TransactionStatus, 
   MigrationStatus, 
-  AssignmentType,
-  TierChangeType,
   LedgerEntryType,
   LedgerSource
 } from "@prisma/client";
-import { assignInitialTier, evaluateCustomerTier } from "./customer-tier.server";
+import {
+  assignInitialTier,
+  evaluateCustomerTier,
+  updateCustomerAnalytics
+} from "./customer-tier.server";
+import { postLedgerEntry, postBalanceCorrection } from "./store-credit-ledger.server";
+import { percentOf, toMoney } from "../utils/money";
 // Type for the admin API client from authenticate.admin
 type AdminGraphQLClient = {
   graphql: (query: string, options?: { variables?: any }) => Promise<Response>;
 };
-import { subMonths } from "date-fns";
 
 interface OrderNode {
   id: string;
@@ -197,7 +200,9 @@ export async function processOrdersImport(options: ImportOptions): Promise<Impor
           // Extract IDs
           const shopifyOrderId = order.id.split('/').pop()!;
           const shopifyCustomerId = order.customer.id.split('/').pop()!;
-          const orderAmount = parseFloat(order.totalPriceSet.shopMoney.amount);
+          // Shop currency, so tier spend is comparable across markets
+          const orderAmount = toMoney(order.totalPriceSet.shopMoney.amount);
+          const currency = order.totalPriceSet.shopMoney.currencyCode;
           
           // Store customer data to avoid TS null checks
           const customerData = order.customer;
@@ -232,7 +237,7 @@ export async function processOrdersImport(options: ImportOptions): Promise<Impor
               isNewCustomer = true;
               
               // Assign initial tier
-              await assignInitialTierInTransaction(tx, customer.id, shopDomain);
+              await assignInitialTier(customer.id, shopDomain, tx);
             } else {
               customer = existingCustomer;
               processedCustomerIds.add(customer.id);
@@ -263,7 +268,7 @@ export async function processOrdersImport(options: ImportOptions): Promise<Impor
             });
             
             const cashbackPercent = membership?.tier.cashbackPercent || 0;
-            const cashbackAmount = orderAmount * (cashbackPercent / 100);
+            const cashbackAmount = percentOf(orderAmount, cashbackPercent);
             
             if (existingTransaction) {
               // Update existing transaction
@@ -278,7 +283,7 @@ export async function processOrdersImport(options: ImportOptions): Promise<Impor
               });
             } else {
               // Create new transaction
-              await tx.cashbackTransaction.create({
+              const transaction = await tx.cashbackTransaction.create({
                 data: {
                   shopDomain,
                   customerId: customer.id,
@@ -286,41 +291,28 @@ export async function processOrdersImport(options: ImportOptions): Promise<Impor
                   orderAmount,
                   cashbackAmount,
                   cashbackPercent,
+                  currency,
                   status: TransactionStatus.COMPLETED,
                   createdAt: orderDate
                 }
               });
               
-              // Update customer's total earned
-              await tx.customer.update({
-                where: { id: customer.id },
-                data: {
-                  totalEarned: {
-                    increment: cashbackAmount
-                  },
-                  storeCredit: {
-                    increment: cashbackAmount
-                  }
-                }
-              });
-              
-              // Create ledger entry for cashback earned
-              const updatedCustomer = await tx.customer.findUnique({
-                where: { id: customer.id }
-              });
-              
-              await tx.storeCreditLedger.create({
-                data: {
+              // Credit the balance and record the ledger entry
+              if (cashbackAmount.gt(0)) {
+                await postLedgerEntry(tx, {
                   customerId: customer.id,
                   shopDomain,
                   amount: cashbackAmount,
-                  balance: updatedCustomer!.storeCredit,
                   type: LedgerEntryType.CASHBACK_EARNED,
                   source: LedgerSource.APP_CASHBACK,
                   shopifyReference: shopifyOrderId,
-                  description: `Cashback earned from order ${order.name}`
-                }
-              });
+                  description: `Cashback earned from order ${order.name}`,
+                  countsAsEarned: true,
+                  cashbackTransactionId: transaction.id,
+                  currency,
+                  earnedAt: orderDate
+                });
+              }
               
               result.newTransactions++;
             }
@@ -399,7 +391,7 @@ export async function processOrdersImport(options: ImportOptions): Promise<Impor
       for (const customer of customersToUpdate) {
         try {
           // Update analytics
-          await updateCustomerAnalyticsInDb(customer.id, shopDomain);
+          await updateCustomerAnalytics(customer.id, shopDomain);
           
           // Evaluate tier
           const tierResult = await evaluateCustomerTier(customer.id, shopDomain);
@@ -460,167 +452,6 @@ export async function processOrdersImport(options: ImportOptions): Promise<Impor
   }
 }
 
-// Helper function to assign initial tier within a transaction
-async function assignInitialTierInTransaction(tx: any, customerId: string, shopDomain: string) {
-  // Get the tier with no minimum spend (base tier)
-  const defaultTier = await tx.tier.findFirst({
-    where: { 
-      shopDomain,
-      isActive: true,
-      minSpend: null
-    },
-    orderBy: { cashbackPercent: 'asc' }
-  });
-
-  const tierToAssign = defaultTier || await tx.tier.findFirst({
-    where: { 
-      shopDomain,
-      isActive: true
-    },
-    orderBy: { minSpend: 'asc' }
-  });
-  
-  if (!tierToAssign) {
-    throw new Error("No active tiers found for shop");
-  }
-  
-  // Create membership record
-  await tx.customerMembership.create({
-    data: {
-      customerId,
-      tierId: tierToAssign.id,
-      isActive: true,
-      assignmentType: AssignmentType.AUTOMATIC,
-    }
-  });
-
-  // Log the change
-  await tx.tierChangeLog.create({
-    data: {
-      customerId,
-      toTierId: tierToAssign.id,
-      changeType: TierChangeType.INITIAL_ASSIGNMENT,
-      changeReason: "New customer initial tier assignment",
-      triggeredBy: "System",
-      metadata: {
-        tierName: tierToAssign.name,
-        cashbackPercent: tierToAssign.cashbackPercent
-      }
-    }
-  });
-}
-
-// Update customer analytics (following pattern from tier service)
-async function updateCustomerAnalyticsInDb(customerId: string, shopDomain: string) {
-  const now = new Date();
-  const twelveMonthsAgo = subMonths(now, 12);
-  const threeMonthsAgo = subMonths(now, 3);
-  const oneMonthAgo = subMonths(now, 1);
-
-  // Get all transaction data
-  const transactions = await prisma.cashbackTransaction.findMany({
-    where: {
-      customerId,
-      shopDomain,
-      status: { in: [TransactionStatus.COMPLETED, TransactionStatus.SYNCED_TO_SHOPIFY] }
-    },
-    orderBy: { createdAt: 'desc' }
-  });
-
-  // Calculate metrics
-  const lifetimeSpending = transactions.reduce((sum, t) => sum + t.orderAmount, 0);
-  const yearlySpending = transactions
-    .filter(t => t.createdAt >= twelveMonthsAgo)
-    .reduce((sum, t) => sum + t.orderAmount, 0);
-  const quarterlySpending = transactions
-    .filter(t => t.createdAt >= threeMonthsAgo)
-    .reduce((sum, t) => sum + t.orderAmount, 0);
-  const monthlySpending = transactions
-    .filter(t => t.createdAt >= oneMonthAgo)
-    .reduce((sum, t) => sum + t.orderAmount, 0);
-  
-  const orderCount = transactions.length;
-  const avgOrderValue = orderCount > 0 ? lifetimeSpending / orderCount : 0;
-  const lastOrderDate = transactions[0]?.createdAt || null;
-  const daysSinceLastOrder = lastOrderDate 
-    ? Math.floor((now.getTime() - lastOrderDate.getTime()) / (1000 * 60 * 60 * 24))
-    : null;
-
-  // Get tier info
-  const membership = await prisma.customerMembership.findFirst({
-    where: { customerId, isActive: true },
-    include: { tier: true }
-  });
-
-  const tierChanges = await prisma.tierChangeLog.findMany({
-    where: { customerId },
-    orderBy: { createdAt: 'desc' }
-  });
-
-  const lastTierChange = tierChanges[0]?.createdAt || membership?.startDate || now;
-  const currentTierDays = Math.floor((now.getTime() - lastTierChange.getTime()) / (1000 * 60 * 60 * 24));
-  const tierUpgradeCount = tierChanges.filter(
-    t => t.changeType === TierChangeType.AUTOMATIC_UPGRADE || t.changeType === TierChangeType.MANUAL_OVERRIDE
-  ).length;
-
-  // Calculate progress to next tier
-  let nextTierProgress = 0;
-  if (membership) {
-    const nextTier = await prisma.tier.findFirst({
-      where: {
-        shopDomain,
-        cashbackPercent: { gt: membership.tier.cashbackPercent },
-        isActive: true,
-        minSpend: { not: null }
-      },
-      orderBy: { cashbackPercent: 'asc' }
-    });
-
-    if (nextTier && nextTier.minSpend) {
-      const relevantSpending = nextTier.evaluationPeriod === 'LIFETIME'
-        ? lifetimeSpending
-        : yearlySpending;
-      nextTierProgress = Math.min(100, (relevantSpending / nextTier.minSpend) * 100);
-    }
-  }
-
-  // Update or create analytics record
-  await prisma.customerAnalytics.upsert({
-    where: { customerId },
-    update: {
-      lifetimeSpending,
-      yearlySpending,
-      quarterlySpending,
-      monthlySpending,
-      avgOrderValue,
-      orderCount,
-      currentTierDays,
-      tierUpgradeCount,
-      lastTierChange,
-      nextTierProgress,
-      lastOrderDate,
-      daysSinceLastOrder,
-      calculatedAt: now
-    },
-    create: {
-      customerId,
-      shopDomain,
-      lifetimeSpending,
-      yearlySpending,
-      quarterlySpending,
-      monthlySpending,
-      avgOrderValue,
-      orderCount,
-      currentTierDays,
-      tierUpgradeCount,
-      lastTierChange,
-      nextTierProgress,
-      lastOrderDate,
-      daysSinceLastOrder
-    }
-  });
-}
-
 // Update customers from Shopify
 async function updateCustomersFromShopify(
   customerIds: string[],
@@ -675,9 +506,6 @@ async function updateCustomersFromShopify(
           if (data.data?.customer) {
             const shopifyCustomer = data.data.customer;
             
-            // Prepare update data
-            const updateData: any = {};
-            
             // Check for store credit metafield
             const storeCreditMetafield = shopifyCustomer.metafields?.edges?.find(
               (edge: any) => edge.node.key === 'store_credit_balance'
@@ -685,33 +513,31 @@ async function updateCustomersFromShopify(
             
             if (storeCreditMetafield) {
               const shopifyStoreCredit = parseFloat(storeCreditMetafield.node.value);
-              if (Math.abs(shopifyStoreCredit - customer.storeCredit) > 0.01) {
-                updateData.storeCredit = shopifyStoreCredit;
-                updateData.lastSyncedAt = new Date();
-                
-                // Create reconciliation ledger entry
-                await prisma.storeCreditLedger.create({
-                  data: {
-                    customerId: customer.id,
-                    shopDomain,
-                    amount: shopifyStoreCredit - customer.storeCredit,
-                    balance: shopifyStoreCredit,
-                    type: LedgerEntryType.SHOPIFY_SYNC,
-                    source: LedgerSource.RECONCILIATION,
-                    description: `Store credit sync from Shopify`,
-                    reconciledAt: new Date()
-                  }
+              
+              // Post the difference as a reconciliation ledger entry
+              const correction = await prisma.$transaction(async (tx) => {
+                const posted = await postBalanceCorrection(tx, {
+                  customerId: customer.id,
+                  shopDomain,
+                  targetBalance: shopifyStoreCredit,
+                  type: LedgerEntryType.SHOPIFY_SYNC,
+                  source: LedgerSource.RECONCILIATION,
+                  description: `Store credit sync from Shopify`
                 });
-              }
-            }
-            
-            // Update customer if needed
-            if (Object.keys(updateData).length > 0) {
-              await prisma.customer.update({
-                where: { id: customer.id },
-                data: updateData
+                
+                if (posted) {
+                  await tx.customer.update({
+                    where: { id: customer.id },
+                    data: { lastSyncedAt: new Date() }
+                  });
+                }
+                
+                return posted;
               });
-              result.updated++;
+              
+              if (correction) {
+                result.updated++;
+              }
             }
           }
         } catch (error) {
@@ -0,0 +1,412 @@
+// app/services/reconciliation.server.ts
+import prisma from "../db.server";
+import {
+  LedgerEntryType,
+  LedgerSource,
+  ReconciliationStatus,
+  TransactionStatus,
+  WebhookEventStatus,
+  type Prisma,
+} from "@prisma/client";
+import { postBalanceCorrection } from "./store-credit-ledger.server";
+import { getShopSettings } from "./shop-settings.server";
+import type { AdminGraphQLClient } from "./store-credit.server";
+import { toMoney, formatMoney, ZERO, type Decimal } from "../utils/money";
+
+// Start a new run when the last one is older than this
+const RECONCILIATION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Give up on a bulk operation that never finishes
+const MAX_RUN_DURATION_MS = 6 * 60 * 60 * 1000;
+
+interface Discrepancy {
+  customerId: string;
+  email: string | null;
+  localBalance: number;
+  shopifyBalance: number;
+  drift: number;
+}
+
+const BULK_BALANCES_QUERY = `
+  {
+    customers {
+      edges {
+        node {
+          id
+          storeCreditAccounts {
+            edges {
+              node {
+                id
+                balance {
+                  amount
+                  currencyCode
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Kick off a shop-wide reconciliation. Balances are exported with a
+ * Shopify bulk operation; the run is completed by processReconciliationRun
+ * once the export is ready.
+ */
+export async function startReconciliationRun(shopDomain: string, admin: AdminGraphQLClient) {
+  const active = await prisma.reconciliationRun.findFirst({
+    where: { shopDomain, status: ReconciliationStatus.RUNNING },
+  });
+  if (active) {
+    throw new Error("A reconciliation run is already in progress");
+  }
+
+  const run = await prisma.reconciliationRun.create({
+    data: { shopDomain },
+  });
+
+  try {
+    const response = await admin.graphql(
+      `#graphql
+      mutation StartBalanceExport($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation {
+            id
+            status
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`,
+      { variables: { query: BULK_BALANCES_QUERY } }
+    );
+    const result = await response.json();
+
+    const userErrors = result.data?.bulkOperationRunQuery?.userErrors || [];
+    if (result.errors || userErrors.length > 0) {
+      throw new Error(
+        userErrors.map((e: any) => e.message).join(", ") ||
+          result.errors?.[0]?.message ||
+          "Bulk operation could not be started"
+      );
+    }
+
+    return prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: { bulkOperationId: result.data.bulkOperationRunQuery.bulkOperation.id },
+    });
+  } catch (error) {
+    return failRun(run.id, error);
+  }
+}
+
+/**
+ * Check on a running reconciliation and apply the results when Shopify's
+ * export is ready. Safe to call repeatedly.
+ */
+export async function processReconciliationRun(runId: string, admin: AdminGraphQLClient) {
+  const run = await prisma.reconciliationRun.findUniqueOrThrow({
+    where: { id: runId },
+  });
+
+  if (run.status !== ReconciliationStatus.RUNNING) return run;
+
+  if (!run.bulkOperationId) {
+    return failRun(run.id, new Error("Run has no bulk operation"));
+  }
+
+  try {
+    const response = await admin.graphql(
+      `#graphql
+      query BalanceExportStatus($id: ID!) {
+        node(id: $id) {
+          ... on BulkOperation {
+            id
+            status
+            errorCode
+            url
+          }
+        }
+      }`,
+      { variables: { id: run.bulkOperationId } }
+    );
+    const result = await response.json();
+    const operation = result.data?.node;
+
+    if (!operation) {
+      throw new Error("Bulk operation not found");
+    }
+
+    if (operation.status === "CREATED" || operation.status === "RUNNING") {
+      if (Date.now() - run.startedAt.getTime() > MAX_RUN_DURATION_MS) {
+        throw new Error("Bulk operation timed out");
+      }
+      return run;
+    }
+
+    if (operation.status !== "COMPLETED") {
+      throw new Error(`Bulk operation ${operation.status.toLowerCase()}${
+        operation.errorCode ? ` (${operation.errorCode})` : ""
+      }`);
+    }
+
+    // An empty export has no URL
+    const { currencyCode } = await getShopSettings(run.shopDomain);
+    const shopifyBalances = operation.url
+      ? parseBalances(await (await fetch(operation.url)).text(), currencyCode)
+      : { currencyCode, balances: new Map<string, Decimal>(), otherCurrencies: new Set<string>() };
+
+    return applyReconciliation(run.id, run.shopDomain, run.startedAt, shopifyBalances);
+  } catch (error) {
+    return failRun(run.id, error);
+  }
+}
+
+/**
+ * Cron entry point: finish the active run, or start a new one when due
+ */
+export async function runScheduledReconciliation(shopDomain: string, admin: AdminGraphQLClient) {
+  const active = await prisma.reconciliationRun.findFirst({
+    where: { shopDomain, status: ReconciliationStatus.RUNNING },
+  });
+  if (active) {
+    const run = await processReconciliationRun(active.id, admin);
+    return { runId: run.id, status: run.status };
+  }
+
+  const lastRun = await prisma.reconciliationRun.findFirst({
+    where: { shopDomain },
+    orderBy: { startedAt: "desc" },
+  });
+  if (lastRun && Date.now() - lastRun.startedAt.getTime() < RECONCILIATION_INTERVAL_MS) {
+    return { runId: lastRun.id, status: "NOT_DUE" };
+  }
+
+  const run = await startReconciliationRun(shopDomain, admin);
+  return { runId: run.id, status: run.status };
+}
+
+interface ShopifyBalances {
+  currencyCode: string;
+  balances: Map<string, Decimal>; // Shop-currency balance per Shopify customer ID
+  otherCurrencies: Set<string>; // Customers also holding credit in another currency
+}
+
+/**
+ * Sum store credit balances per Shopify customer ID from the bulk JSONL.
+ * Child rows (accounts) reference their customer through __parentId.
+ */
+function parseBalances(jsonl: string, shopCurrency: string): ShopifyBalances {
+  const balances = new Map<string, Decimal>();
+  const otherCurrencies = new Set<string>();
+
+  for (const line of jsonl.split("\n")) {
+    if (!line.trim()) continue;
+    const row = JSON.parse(line);
+
+    const customerGid: string | undefined = row.__parentId || row.id;
+    if (!customerGid?.startsWith("gid://shopify/Customer/")) continue;
+
+    const customerId = customerGid.split("/").pop()!;
+    const amount = row.__parentId ? toMoney(row.balance?.amount) : ZERO;
+
+    if (row.__parentId && row.balance?.currencyCode !== shopCurrency) {
+      if (!amount.isZero()) otherCurrencies.add(customerId);
+      continue;
+    }
+    balances.set(customerId, (balances.get(customerId) || ZERO).plus(amount));
+  }
+
+  return { currencyCode: shopCurrency, balances, otherCurrencies };
+}
+
+/**
+ * Local customers touched by webhook events still waiting in the queue.
+ * Order payloads name the customer; refunds and edits only name the order.
+ */
+async function getCustomersWithQueuedEvents(shopDomain: string) {
+  const events = await prisma.webhookEvent.findMany({
+    where: {
+      shopDomain,
+      status: {
+        in: [WebhookEventStatus.PENDING, WebhookEventStatus.PROCESSING, WebhookEventStatus.FAILED],
+      },
+    },
+    select: { payload: true },
+  });
+
+  const shopifyCustomerIds = new Set<string>();
+  const orderIds = new Set<string>();
+  for (const { payload } of events) {
+    const event = payload as Record<string, any>;
+    if (event.customer?.id) shopifyCustomerIds.add(event.customer.id.toString());
+    const orderId = event.order_id ?? event.order_edit?.order_id;
+    if (orderId) orderIds.add(orderId.toString());
+  }
+
+  if (shopifyCustomerIds.size === 0 && orderIds.size === 0) return new Set<string>();
+
+  const [customers, transactions, payments] = await Promise.all([
+    prisma.customer.findMany({
+      where: { shopDomain, shopifyCustomerId: { in: [...shopifyCustomerIds] } },
+      select: { id: true },
+    }),
+    prisma.cashbackTransaction.findMany({
+      where: { shopDomain, shopifyOrderId: { in: [...orderIds] } },
+      select: { customerId: true },
+    }),
+    prisma.storeCreditLedger.findMany({
+      where: {
+        shopDomain,
+        type: LedgerEntryType.ORDER_PAYMENT,
+        shopifyReference: { in: [...orderIds].map((id) => `gid://shopify/Order/${id}`) },
+      },
+      select: { customerId: true },
+    }),
+  ]);
+
+  return new Set([
+    ...customers.map((c) => c.id),
+    ...transactions.map((t) => t.customerId),
+    ...payments.map((p) => p.customerId),
+  ]);
+}
+
+async function applyReconciliation(
+  runId: string,
+  shopDomain: string,
+  startedAt: Date,
+  shopifyBalances: ShopifyBalances
+) {
+  const customers = await prisma.customer.findMany({
+    where: { shopDomain },
+    select: { id: true, shopifyCustomerId: true, email: true, storeCredit: true },
+  });
+
+  // Balances that moved after the export started can't be compared to it,
+  // nor can balances with a debit still on its way to Shopify
+  const changedSinceExport = new Set(
+    (
+      await prisma.storeCreditLedger.findMany({
+        where: {
+          shopDomain,
+          OR: [
+            { createdAt: { gte: startedAt } },
+            { shopifyDebit: { not: null }, reconciledAt: null },
+          ],
+        },
+        select: { customerId: true },
+        distinct: ["customerId"],
+      })
+    ).map((entry) => entry.customerId)
+  );
+
+  // Cashback still waiting on its Shopify credit is expected drift
+  const unsyncedCashback = await prisma.cashbackTransaction.findMany({
+    where: {
+      shopDomain,
+      status: { in: [TransactionStatus.PENDING, TransactionStatus.SHOPIFY_SYNC_FAILED] },
+    },
+    select: { customerId: true },
+    distinct: ["customerId"],
+  });
+  unsyncedCashback.forEach((t) => changedSinceExport.add(t.customerId));
+
+  // Shopify has applied what queued webhooks describe (e.g. store credit
+  // spent at checkout) but the ledger has not; correcting now would count it twice
+  const queued = await getCustomersWithQueuedEvents(shopDomain);
+  queued.forEach((customerId) => changedSinceExport.add(customerId));
+
+  const summary = {
+    customersChecked: 0,
+    customersAdjusted: 0,
+    customersSkipped: 0,
+    localTotal: ZERO,
+    shopifyTotal: ZERO,
+    totalDrift: ZERO,
+    absoluteDrift: ZERO,
+  };
+  const discrepancies: Discrepancy[] = [];
+
+  for (const customer of customers) {
+    // The local balance is in shop currency and can't be compared with
+    // credit held in other currencies without a live exchange rate
+    if (
+      changedSinceExport.has(customer.id) ||
+      shopifyBalances.otherCurrencies.has(customer.shopifyCustomerId)
+    ) {
+      summary.customersSkipped++;
+      continue;
+    }
+
+    const shopifyBalance = shopifyBalances.balances.get(customer.shopifyCustomerId) || ZERO;
+    const drift = shopifyBalance.minus(customer.storeCredit);
+
+    summary.customersChecked++;
+    summary.localTotal = summary.localTotal.plus(customer.storeCredit);
+    summary.shopifyTotal = summary.shopifyTotal.plus(shopifyBalance);
+
+    if (drift.isZero()) continue;
+
+    const correction = await prisma.$transaction(async (tx) => {
+      const posted = await postBalanceCorrection(tx, {
+        customerId: customer.id,
+        shopDomain,
+        targetBalance: shopifyBalance,
+        type: LedgerEntryType.SHOPIFY_SYNC,
+        source: LedgerSource.RECONCILIATION,
+        shopifyReference: runId,
+        description: `Reconciliation: ${formatMoney(customer.storeCredit, shopifyBalances.currencyCode)} → ${formatMoney(shopifyBalance, shopifyBalances.currencyCode)}`,
+      });
+      await tx.customer.update({
+        where: { id: customer.id },
+        data: { lastSyncedAt: new Date() },
+      });
+      return posted;
+    });
+
+    if (correction) {
+      summary.customersAdjusted++;
+      summary.totalDrift = summary.totalDrift.plus(drift);
+      summary.absoluteDrift = summary.absoluteDrift.plus(drift.abs());
+      discrepancies.push({
+        customerId: customer.id,
+        email: customer.email,
+        localBalance: customer.storeCredit.toNumber(),
+        shopifyBalance: shopifyBalance.toNumber(),
+        drift: drift.toNumber(),
+      });
+    }
+  }
+
+  console.log(
+    `Reconciliation ${runId} for ${shopDomain}: ${summary.customersAdjusted}/${summary.customersChecked} adjusted, drift ${summary.totalDrift.toFixed(2)}`
+  );
+
+  return prisma.reconciliationRun.update({
+    where: { id: runId },
+    data: {
+      ...summary,
+      status: ReconciliationStatus.COMPLETED,
+      discrepancies: discrepancies
+        .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift)) as unknown as Prisma.InputJsonValue,
+      completedAt: new Date(),
+    },
+  });
+}
+
+async function failRun(runId: string, error: unknown) {
+  console.error(`Reconciliation ${runId} failed:`, error);
+
+  return prisma.reconciliationRun.update({
+    where: { id: runId },
+    data: {
+      status: ReconciliationStatus.FAILED,
+      error: error instanceof Error ? error.message : "Unknown error",
+      completedAt: new Date(),
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { InstallationStatus } from "@prisma/client";
+import { startFreshProgram } from "./shop-installation.server";
+import { deleteProgramData } from "./gdpr.server";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    shopInstallation: { findUnique: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock("../db.server", () => ({ default: prisma }));
+vi.mock("./gdpr.server", () => ({ deleteProgramData: vi.fn(), purgeShopData: vi.fn() }));
+vi.mock("./reconciliation.server", () => ({ startReconciliationRun: vi.fn() }));
+
+const SHOP = "store.myshopify.com";
+const reinstalledAt = new Date("2026-10-18T09:00:00Z");
+
+describe("startFreshProgram", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    prisma.shopInstallation.findUnique.mockReset().mockResolvedValue({
+      shopDomain: SHOP,
+      status: InstallationStatus.PENDING_RESTORE,
+      installedAt: reinstalledAt,
+    });
+    prisma.shopInstallation.updateMany.mockReset().mockResolvedValue({ count: 1 });
+    vi.mocked(deleteProgramData).mockReset().mockResolvedValue({ customers: 3 });
+  });
+
+  it("deletes the old program before resuming the shop", async () => {
+    await startFreshProgram(SHOP);
+
+    expect(deleteProgramData).toHaveBeenCalledWith(SHOP, reinstalledAt);
+    expect(vi.mocked(deleteProgramData).mock.invocationCallOrder[0]).toBeLessThan(
+      prisma.shopInstallation.updateMany.mock.invocationCallOrder[0]
+    );
+    expect(prisma.shopInstallation.updateMany).toHaveBeenCalledWith({
+      where: { shopDomain: SHOP, status: InstallationStatus.PENDING_RESTORE },
+      data: { status: InstallationStatus.ACTIVE, uninstalledAt: null },
+    });
+  });
+
+  it("keeps the shop paused when the delete fails", async () => {
+    vi.mocked(deleteProgramData).mockRejectedValue(new Error("Connection lost"));
+
+    await expect(startFreshProgram(SHOP)).rejects.toThrow("Connection lost");
+    expect(prisma.shopInstallation.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("refuses shops with nothing waiting to be restored", async () => {
+    prisma.shopInstallation.findUnique.mockResolvedValue({
+      shopDomain: SHOP,
+      status: InstallationStatus.ACTIVE,
+      installedAt: reinstalledAt,
+    });
+
+    await expect(startFreshProgram(SHOP)).rejects.toThrow("There is no previous program waiting to be restored");
+    expect(deleteProgramData).not.toHaveBeenCalled();
+  });
+});
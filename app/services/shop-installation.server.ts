@@ -0,0 +1,162 @@
+// app/services/shop-installation.server.ts
+import prisma from "../db.server";
+import { InstallationStatus } from "@prisma/client";
+import { addDays } from "date-fns";
+import { deleteProgramData, purgeShopData } from "./gdpr.server";
+import { startReconciliationRun } from "./reconciliation.server";
+import type { AdminGraphQLClient } from "./store-credit.server";
+
+// How long an uninstalled shop's program is kept for a possible reinstall
+export const UNINSTALL_GRACE_PERIOD_DAYS = 14;
+
+const NO_PENDING_RESTORE = "There is no previous program waiting to be restored";
+
+export async function getShopInstallation(shopDomain: string) {
+  return prisma.shopInstallation.findUnique({ where: { shopDomain } });
+}
+
+/**
+ * Shops whose background jobs are paused: uninstalled, or reinstalled
+ * and waiting for the merchant to restore or reset their program.
+ * Shops with no installation record predate tracking and are active.
+ */
+export async function getPausedShops(): Promise<string[]> {
+  const installations = await prisma.shopInstallation.findMany({
+    where: { status: { not: InstallationStatus.ACTIVE } },
+    select: { shopDomain: true },
+  });
+
+  return installations.map((i) => i.shopDomain);
+}
+
+/**
+ * Called after every successful auth. A reinstall inside the grace period
+ * with a program still on file waits for the merchant's choice instead of
+ * silently picking up the old balances.
+ */
+export async function recordShopInstall(shopDomain: string) {
+  const installation = await getShopInstallation(shopDomain);
+
+  if (!installation) {
+    return prisma.shopInstallation.create({ data: { shopDomain } });
+  }
+
+  if (installation.status === InstallationStatus.UNINSTALLED) {
+    const [customers, tiers] = await Promise.all([
+      prisma.customer.count({ where: { shopDomain } }),
+      prisma.tier.count({ where: { shopDomain } }),
+    ]);
+    const hasProgram = customers > 0 || tiers > 0;
+
+    return prisma.shopInstallation.update({
+      where: { shopDomain },
+      data: {
+        status: hasProgram ? InstallationStatus.PENDING_RESTORE : InstallationStatus.ACTIVE,
+        installedAt: new Date(),
+        purgeAfter: null,
+      },
+    });
+  }
+
+  if (installation.status === InstallationStatus.PURGED) {
+    return prisma.shopInstallation.update({
+      where: { shopDomain },
+      data: {
+        status: InstallationStatus.ACTIVE,
+        installedAt: new Date(),
+        uninstalledAt: null,
+        purgedAt: null,
+      },
+    });
+  }
+
+  return installation;
+}
+
+/**
+ * app/uninstalled: pause the shop and schedule its purge
+ */
+export async function markShopUninstalled(shopDomain: string) {
+  const now = new Date();
+
+  return prisma.shopInstallation.upsert({
+    where: { shopDomain },
+    update: {
+      status: InstallationStatus.UNINSTALLED,
+      uninstalledAt: now,
+      purgeAfter: addDays(now, UNINSTALL_GRACE_PERIOD_DAYS),
+    },
+    create: {
+      shopDomain,
+      status: InstallationStatus.UNINSTALLED,
+      uninstalledAt: now,
+      purgeAfter: addDays(now, UNINSTALL_GRACE_PERIOD_DAYS),
+    },
+  });
+}
+
+/**
+ * Keep the previous program. Store credit may have moved in Shopify while
+ * the app was away, so a reconciliation run brings balances back in line.
+ */
+export async function restorePreviousProgram(shopDomain: string, admin: AdminGraphQLClient) {
+  await resolvePendingRestore(shopDomain);
+
+  const run = await startReconciliationRun(shopDomain, admin);
+  return { reconciliationRunId: run.id, reconciliationStatus: run.status };
+}
+
+/**
+ * Discard the previous program and start with an empty one. The shop stays
+ * paused until the delete has gone through, so the queue worker never
+ * writes to data about to be wiped and a failed delete can be retried.
+ */
+export async function startFreshProgram(shopDomain: string) {
+  const installation = await getShopInstallation(shopDomain);
+  if (installation?.status !== InstallationStatus.PENDING_RESTORE) {
+    throw new Error(NO_PENDING_RESTORE);
+  }
+
+  const counts = await deleteProgramData(shopDomain, installation.installedAt);
+  await resolvePendingRestore(shopDomain);
+
+  console.log(`Started fresh program for ${shopDomain} (${counts.customers} customers removed)`);
+  return counts;
+}
+
+async function resolvePendingRestore(shopDomain: string) {
+  const resolved = await prisma.shopInstallation.updateMany({
+    where: { shopDomain, status: InstallationStatus.PENDING_RESTORE },
+    data: { status: InstallationStatus.ACTIVE, uninstalledAt: null },
+  });
+
+  if (resolved.count === 0) {
+    throw new Error(NO_PENDING_RESTORE);
+  }
+}
+
+/**
+ * Cron entry point: purge shops whose grace period has run out
+ */
+export async function purgeExpiredShops() {
+  const expired = await prisma.shopInstallation.findMany({
+    where: {
+      status: InstallationStatus.UNINSTALLED,
+      purgeAfter: { lte: new Date() },
+    },
+    select: { shopDomain: true },
+  });
+
+  const results: Record<string, Record<string, unknown>> = {};
+
+  for (const { shopDomain } of expired) {
+    try {
+      results[shopDomain] = await purgeShopData(shopDomain);
+    } catch (error) {
+      console.error(`Purge failed for ${shopDomain}:`, error);
+      results[shopDomain] = { error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,70 @@
+// app/services/shop-settings.server.ts
+import prisma from "../db.server";
+import { CashbackHold, type Prisma, type ShopSettings } from "@prisma/client";
+import type { AdminGraphQLClient } from "./store-credit.server";
+
+type SettingsClient = Prisma.TransactionClient | typeof prisma;
+
+export type ShopSettingsInput = Partial<
+  Omit<ShopSettings, "id" | "shopDomain" | "createdAt" | "updatedAt">
+>;
+
+/**
+ * Settings for a shop. Shops that never saved settings get the schema
+ * defaults without a row being written.
+ */
+export async function getShopSettings(
+  shopDomain: string,
+  client: SettingsClient = prisma
+): Promise<ShopSettings> {
+  const settings = await client.shopSettings.findUnique({
+    where: { shopDomain },
+  });
+
+  if (settings) return settings;
+
+  const now = new Date();
+  return {
+    id: "",
+    shopDomain,
+    creditLifetimeMonths: null,
+    expiryWarningDays: 14,
+    enrollOnProxyVisit: false,
+    currencyCode: "USD",
+    cashbackHold: CashbackHold.NONE,
+    cashbackHoldDays: 14,
+    guestClaimDays: 90,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function updateShopSettings(shopDomain: string, data: ShopSettingsInput) {
+  return prisma.shopSettings.upsert({
+    where: { shopDomain },
+    update: data,
+    create: { shopDomain, ...data },
+  });
+}
+
+/**
+ * Store the shop currency. Balances, tier thresholds and reports are kept
+ * in it, so it is re-read on every auth in case the merchant changed it.
+ */
+export async function refreshShopCurrency(shopDomain: string, admin: AdminGraphQLClient) {
+  const response = await admin.graphql(`#graphql
+    query ShopCurrency {
+      shop {
+        currencyCode
+      }
+    }
+  `);
+  const result = await response.json();
+  const currencyCode: string | undefined = result.data?.shop?.currencyCode;
+
+  if (!currencyCode) {
+    throw new Error(`Could not read the shop currency for ${shopDomain}`);
+  }
+
+  return updateShopSettings(shopDomain, { currencyCode });
+}
@@ -0,0 +1,316 @@
+// app/services/store-credit-ledger.server.ts
+import prisma from "../db.server";
+import { LedgerEntryType, LedgerSource, type Prisma } from "@prisma/client";
+import {
+  issueStoreCredit,
+  debitStoreCredit,
+  type AdminGraphQLClient,
+  type StoreCreditResult,
+} from "./store-credit.server";
+import { getShopSettings } from "./shop-settings.server";
+import { addMonths } from "date-fns";
+import {
+  minMoney,
+  roundDownToCents,
+  roundToCents,
+  toMoney,
+  type Decimal,
+  type MoneyInput,
+} from "../utils/money";
+
+export interface LedgerEntryInput {
+  customerId: string;
+  shopDomain: string;
+  amount: MoneyInput; // Positive for credit, negative for debit
+  type: LedgerEntryType;
+  source: LedgerSource;
+  shopifyReference?: string | null;
+  description?: string;
+  reconciledAt?: Date | null;
+  countsAsEarned?: boolean; // Also add the amount to Customer.totalEarned
+  cashbackTransactionId?: string; // Lot to create (earned) or consume first (reversal)
+  currency?: string;
+  exchangeRate?: Decimal | null; // Shop currency into `currency`, for lots held in another one
+  earnedAt?: Date; // When the cashback was earned, for imported history
+  consumeLots?: boolean; // Debits consume credit lots FIFO unless false
+  shopifyDebit?: ShopifyDebit; // Debit to push to Shopify once committed
+}
+
+// A debit the ledger has taken that Shopify still has to be told about
+export interface ShopifyDebit {
+  amount: Decimal;
+  currency: string;
+}
+
+export interface LedgerInvariantResult {
+  customerId: string;
+  balance: Decimal;
+  ledgerTotal: Decimal;
+  difference: Decimal;
+  balanced: boolean;
+}
+
+/**
+ * The only place Customer.storeCredit changes. Updates the balance and
+ * writes the ledger row with the running balance inside the caller's
+ * transaction, so the two can never disagree. Credit lots are kept in
+ * step in the same transaction.
+ */
+export async function postLedgerEntry(
+  tx: Prisma.TransactionClient,
+  input: LedgerEntryInput
+) {
+  // Balance and ledger row must move by exactly the same number of cents
+  const amount = roundToCents(input.amount);
+
+  const customer = await tx.customer.update({
+    where: { id: input.customerId },
+    data: {
+      storeCredit: { increment: amount },
+      ...(input.countsAsEarned ? { totalEarned: { increment: amount } } : {}),
+    },
+  });
+
+  const entry = await tx.storeCreditLedger.create({
+    data: {
+      customerId: input.customerId,
+      shopDomain: input.shopDomain,
+      amount,
+      balance: customer.storeCredit,
+      type: input.type,
+      source: input.source,
+      shopifyReference: input.shopifyReference ?? null,
+      description: input.description,
+      reconciledAt: input.reconciledAt ?? null,
+      // Picked up by syncPendingDebits until Shopify confirms it
+      ...(input.shopifyDebit?.amount.gt(0)
+        ? {
+            shopifyDebit: input.shopifyDebit.amount,
+            shopifyCurrency: input.shopifyDebit.currency,
+            nextDebitAttemptAt: new Date(),
+          }
+        : {}),
+    },
+  });
+
+  // Earned cashback becomes an expirable lot; debits use up lots oldest first
+  if (
+    (input.type === LedgerEntryType.CASHBACK_EARNED || input.type === LedgerEntryType.CASHBACK_ADJUSTMENT) &&
+    amount.gt(0)
+  ) {
+    await createCreditLot(tx, input);
+  } else if (amount.lt(0) && input.consumeLots !== false) {
+    await consumeCreditLots(tx, input.customerId, amount.negated(), input.cashbackTransactionId);
+  }
+
+  return { entry, customer };
+}
+
+async function createCreditLot(tx: Prisma.TransactionClient, input: LedgerEntryInput) {
+  const settings = await getShopSettings(input.shopDomain, tx);
+  const earnedAt = input.earnedAt || new Date();
+
+  return tx.creditLot.create({
+    data: {
+      customerId: input.customerId,
+      shopDomain: input.shopDomain,
+      cashbackTransactionId: input.cashbackTransactionId,
+      amount: roundToCents(input.amount),
+      remaining: roundToCents(input.amount),
+      currency: input.currency || settings.currencyCode,
+      exchangeRate: input.exchangeRate ?? null,
+      earnedAt,
+      expiresAt: settings.creditLifetimeMonths
+        ? addMonths(earnedAt, settings.creditLifetimeMonths)
+        : null,
+    },
+  });
+}
+
+/**
+ * Use up a debit against the customer's open lots, soonest-expiring first.
+ * A reversal consumes the lot earned from its own order before any other.
+ */
+async function consumeCreditLots(
+  tx: Prisma.TransactionClient,
+  customerId: string,
+  amount: Decimal,
+  cashbackTransactionId?: string
+) {
+  const lots = await tx.creditLot.findMany({
+    where: { customerId, remaining: { gt: 0 }, expiredAt: null },
+    orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { earnedAt: "asc" }],
+  });
+
+  if (cashbackTransactionId) {
+    lots.sort((a, b) =>
+      Number(b.cashbackTransactionId === cashbackTransactionId) -
+      Number(a.cashbackTransactionId === cashbackTransactionId)
+    );
+  }
+
+  let outstanding = amount;
+  for (const lot of lots) {
+    if (outstanding.lte(0)) break;
+
+    const used = minMoney(lot.remaining, outstanding);
+    await tx.creditLot.update({
+      where: { id: lot.id },
+      data: { remaining: { decrement: used } },
+    });
+    outstanding = outstanding.minus(used);
+  }
+}
+
+/**
+ * Post an entry in its own transaction
+ */
+export async function recordLedgerEntry(input: LedgerEntryInput) {
+  return prisma.$transaction((tx) => postLedgerEntry(tx, input));
+}
+
+/**
+ * Move a customer's balance to an externally known value (e.g. Shopify's
+ * store credit balance), posting the difference as a single entry.
+ * Returns null when the balance already matches.
+ */
+export async function postBalanceCorrection(
+  tx: Prisma.TransactionClient,
+  params: {
+    customerId: string;
+    shopDomain: string;
+    targetBalance: MoneyInput;
+    type: LedgerEntryType;
+    source: LedgerSource;
+    shopifyReference?: string | null;
+    description?: string;
+  }
+) {
+  const customer = await tx.customer.findUniqueOrThrow({
+    where: { id: params.customerId },
+  });
+
+  const difference = roundToCents(params.targetBalance).minus(customer.storeCredit);
+  if (difference.isZero()) return null;
+
+  return postLedgerEntry(tx, {
+    customerId: params.customerId,
+    shopDomain: params.shopDomain,
+    amount: difference,
+    type: params.type,
+    source: params.source,
+    shopifyReference: params.shopifyReference,
+    description: params.description,
+    reconciledAt: new Date(),
+  });
+}
+
+/**
+ * Manual adjustment from the admin. Shopify is updated first so a rejected
+ * credit or debit never changes the local balance.
+ */
+export async function adjustStoreCredit(
+  admin: AdminGraphQLClient,
+  params: {
+    customerId: string;
+    shopDomain: string;
+    amount: MoneyInput;
+    reason: string;
+    currency?: string;
+  }
+): Promise<StoreCreditResult> {
+  const customer = await prisma.customer.findUnique({
+    where: { id: params.customerId },
+  });
+
+  if (!customer || customer.shopDomain !== params.shopDomain) {
+    return { success: false, error: "Customer not found" };
+  }
+
+  const magnitude = roundDownToCents(toMoney(params.amount).abs());
+  if (magnitude.isZero()) {
+    return { success: false, error: "Adjustment amount must be at least 0.01" };
+  }
+
+  // Manual adjustments are in shop currency, like the local balance
+  const currency = params.currency || (await getShopSettings(params.shopDomain)).currencyCode;
+  const isCredit = toMoney(params.amount).gt(0);
+  const result = isCredit
+    ? await issueStoreCredit(admin, customer.shopifyCustomerId, magnitude, currency)
+    : await debitStoreCredit(admin, customer.shopifyCustomerId, magnitude, currency);
+
+  if (!result.success) return result;
+
+  await recordLedgerEntry({
+    customerId: customer.id,
+    shopDomain: params.shopDomain,
+    amount: isCredit ? magnitude : magnitude.negated(),
+    type: LedgerEntryType.MANUAL_ADJUSTMENT,
+    source: LedgerSource.APP_MANUAL,
+    shopifyReference: result.transactionId,
+    description: params.reason,
+    reconciledAt: new Date(),
+  });
+
+  return result;
+}
+
+/**
+ * Invariant: the ledger amounts for a customer sum to their balance
+ */
+export async function checkLedgerInvariant(customerId: string): Promise<LedgerInvariantResult> {
+  const [customer, ledger] = await Promise.all([
+    prisma.customer.findUniqueOrThrow({
+      where: { id: customerId },
+      select: { storeCredit: true },
+    }),
+    prisma.storeCreditLedger.aggregate({
+      where: { customerId },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const ledgerTotal = toMoney(ledger._sum.amount);
+  const difference = customer.storeCredit.minus(ledgerTotal);
+
+  return {
+    customerId,
+    balance: customer.storeCredit,
+    ledgerTotal,
+    difference,
+    balanced: difference.isZero(),
+  };
+}
+
+/**
+ * Every customer in the shop whose balance does not match their ledger
+ */
+export async function findLedgerDiscrepancies(shopDomain: string): Promise<LedgerInvariantResult[]> {
+  const [customers, ledgerTotals] = await Promise.all([
+    prisma.customer.findMany({
+      where: { shopDomain },
+      select: { id: true, storeCredit: true },
+    }),
+    prisma.storeCreditLedger.groupBy({
+      by: ["customerId"],
+      where: { shopDomain },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const totals = new Map(ledgerTotals.map((l) => [l.customerId, toMoney(l._sum.amount)]));
+
+  return customers
+    .map((customer) => {
+      const ledgerTotal = totals.get(customer.id) || toMoney(0);
+      const difference = customer.storeCredit.minus(ledgerTotal);
+      return {
+        customerId: customer.id,
+        balance: customer.storeCredit,
+        ledgerTotal,
+        difference,
+        balanced: difference.isZero(),
+      };
+    })
+    .filter((result) => !result.balanced);
+}
@@ -0,0 +1,267 @@
+// app/services/store-credit.server.ts
+import type { ApiVersion } from "@shopify/shopify-app-remix/server";
+import { roundDownToCents, toMoney, type MoneyInput } from "../utils/money";
+
+// Type for the admin API client from authenticate.admin / authenticate.webhook
+export type AdminGraphQLClient = {
+  graphql: (query: string, options?: { variables?: any; apiVersion?: ApiVersion }) => Promise<Response>;
+};
+
+export interface StoreCreditResult {
+  success: boolean;
+  transactionId?: string;
+  error?: string;
+  // The request may have been applied by Shopify even though it did not report success
+  ambiguous?: boolean;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Format an amount for the Shopify API (exactly 2 decimal places, rounded down)
+ */
+export function formatForShopify(value: MoneyInput): string {
+  return roundDownToCents(value).toFixed(2);
+}
+
+// ============================================================================
+// SHOPIFY STORE CREDIT MUTATIONS
+// ============================================================================
+
+/**
+ * Credit a customer's Shopify store credit account
+ */
+export async function issueStoreCredit(
+  admin: AdminGraphQLClient,
+  customerId: string,
+  amount: MoneyInput,
+  currency: string
+): Promise<StoreCreditResult> {
+  const formattedAmount = formatForShopify(amount);
+
+  console.log(`Issuing store credit: ${formattedAmount} ${currency}`);
+
+  try {
+    const response = await admin.graphql(
+      `#graphql
+      mutation IssueStoreCredit($id: ID!, $creditInput: StoreCreditAccountCreditInput!) {
+        storeCreditAccountCredit(id: $id, creditInput: $creditInput) {
+          storeCreditAccountTransaction {
+            id
+            amount {
+              amount
+              currencyCode
+            }
+            balanceAfterTransaction {
+              amount
+              currencyCode
+            }
+          }
+          userErrors {
+            field
+            message
+            code
+          }
+        }
+      }`,
+      {
+        variables: {
+          id: `gid://shopify/Customer/${customerId}`,
+          creditInput: {
+            creditAmount: {
+              amount: formattedAmount,
+              currencyCode: currency
+            }
+          }
+        }
+      }
+    );
+
+    const result = await response.json();
+
+    // Check for errors
+    if (result.data?.storeCreditAccountCredit?.userErrors?.length > 0) {
+      const errors = result.data.storeCreditAccountCredit.userErrors;
+      const errorMessages = errors.map((e: any) => e.message).join(', ');
+      console.error("Store credit errors:", errors);
+      return { success: false, error: errorMessages };
+    }
+
+    // Check for successful transaction
+    const transaction = result.data?.storeCreditAccountCredit?.storeCreditAccountTransaction;
+    if (transaction) {
+      console.log(`✅ Store credit issued: ${transaction.id}`);
+      console.log(`   New balance: ${transaction.balanceAfterTransaction.amount} ${currency}`);
+      return {
+        success: true,
+        transactionId: transaction.id
+      };
+    }
+
+    return { success: false, error: "No transaction returned", ambiguous: true };
+
+  } catch (error) {
+    console.error("Store credit API error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      ambiguous: true
+    };
+  }
+}
+
+/**
+ * Debit a customer's Shopify store credit account.
+ * The debit is scoped to the account holding `currency`.
+ */
+export async function debitStoreCredit(
+  admin: AdminGraphQLClient,
+  customerId: string,
+  amount: MoneyInput,
+  currency: string
+): Promise<StoreCreditResult> {
+  const formattedAmount = formatForShopify(amount);
+
+  console.log(`Debiting store credit: ${formattedAmount} ${currency}`);
+
+  try {
+    const response = await admin.graphql(
+      `#graphql
+      mutation DebitStoreCredit($id: ID!, $debitInput: StoreCreditAccountDebitInput!) {
+        storeCreditAccountDebit(id: $id, debitInput: $debitInput) {
+          storeCreditAccountTransaction {
+            id
+            amount {
+              amount
+              currencyCode
+            }
+            balanceAfterTransaction {
+              amount
+              currencyCode
+            }
+          }
+          userErrors {
+            field
+            message
+            code
+          }
+        }
+      }`,
+      {
+        variables: {
+          id: `gid://shopify/Customer/${customerId}`,
+          debitInput: {
+            debitAmount: {
+              amount: formattedAmount,
+              currencyCode: currency
+            }
+          }
+        }
+      }
+    );
+
+    const result = await response.json();
+
+    if (result.data?.storeCreditAccountDebit?.userErrors?.length > 0) {
+      const errors = result.data.storeCreditAccountDebit.userErrors;
+      const errorMessages = errors.map((e: any) => e.message).join(', ');
+      console.error("Store credit debit errors:", errors);
+      return { success: false, error: errorMessages };
+    }
+
+    const transaction = result.data?.storeCreditAccountDebit?.storeCreditAccountTransaction;
+    if (transaction) {
+      console.log(`✅ Store credit debited: ${transaction.id}`);
+      console.log(`   New balance: ${transaction.balanceAfterTransaction.amount} ${currency}`);
+      return {
+        success: true,
+        transactionId: transaction.id
+      };
+    }
+
+    return { success: false, error: "No transaction returned", ambiguous: true };
+
+  } catch (error) {
+    console.error("Store credit debit API error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      ambiguous: true
+    };
+  }
+}
+
+/**
+ * Look for a credit transaction on the customer's account that matches
+ * an issuance whose outcome we never learned (timeout, crash mid-request).
+ */
+export async function findStoreCreditTransaction(
+  admin: AdminGraphQLClient,
+  customerId: string,
+  amount: MoneyInput,
+  currency: string,
+  since: Date,
+  excludeIds: string[] = []
+): Promise<string | null> {
+  const response = await admin.graphql(
+    `#graphql
+    query FindStoreCreditTransactions($id: ID!) {
+      customer(id: $id) {
+        storeCreditAccounts(first: 10) {
+          edges {
+            node {
+              balance {
+                currencyCode
+              }
+              transactions(first: 50, reverse: true) {
+                edges {
+                  node {
+                    createdAt
+                    amount {
+                      amount
+                      currencyCode
+                    }
+                    ... on StoreCreditAccountCreditTransaction {
+                      id
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }`,
+    {
+      variables: { id: `gid://shopify/Customer/${customerId}` }
+    }
+  );
+
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`Failed to fetch store credit transactions: ${result.errors[0]?.message || "GraphQL error"}`);
+  }
+
+  const expectedAmount = formatForShopify(amount);
+  const accounts = result.data?.customer?.storeCreditAccounts?.edges || [];
+
+  for (const { node: account } of accounts) {
+    if (account.balance.currencyCode !== currency) continue;
+
+    const match = account.transactions.edges
+      .map((edge: any) => edge.node)
+      .find((tx: any) =>
+        tx.id &&
+        !excludeIds.includes(tx.id) &&
+        toMoney(tx.amount.amount).toFixed(2) === expectedAmount &&
+        new Date(tx.createdAt) >= since
+      );
+
+    if (match) return match.id;
+  }
+
+  return null;
+}
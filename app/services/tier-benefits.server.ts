@@ -0,0 +1,508 @@
+// app/services/tier-benefits.server.ts
+import prisma from "../db.server";
+import { ApiVersion } from "@shopify/shopify-app-remix/server";
+import { LedgerEntryType, LedgerSource, type Tier } from "@prisma/client";
+import { getShopSettings } from "./shop-settings.server";
+import { recordLedgerEntry } from "./store-credit-ledger.server";
+import { issueStoreCredit, type AdminGraphQLClient } from "./store-credit.server";
+import { parseTierBenefits } from "../utils/tier-benefits";
+
+// Automatic discounts can only be limited to customer segments from 2025-04
+const DISCOUNT_API_VERSION = ApiVersion.April25;
+
+const TIER_TAG_PREFIX = "cashback-tier-";
+
+/**
+ * Customer tag marking members of a tier. Based on the ID so renaming a
+ * tier never orphans its segment.
+ */
+export function getTierTag(tierId: string) {
+  return `${TIER_TAG_PREFIX}${tierId}`;
+}
+
+/**
+ * Hourly job for a shop: push changed tiers and memberships to Shopify and
+ * credit today's birthday bonuses.
+ */
+export async function processTierBenefits(shopDomain: string, admin: AdminGraphQLClient) {
+  const tiers = await syncPendingTiers(shopDomain, admin);
+  const members = await syncMemberBenefits(shopDomain, admin);
+  const birthdays = await creditBirthdayBonuses(shopDomain, admin);
+
+  return { ...tiers, ...members, ...birthdays };
+}
+
+// ============================================================================
+// TIER SEGMENTS & DISCOUNTS
+// ============================================================================
+
+/**
+ * Create or update a tier's customer segment and automatic discounts to
+ * match its benefits. Discounts for benefits that were removed, or for
+ * inactive tiers, are deleted. Throws when Shopify rejects a change.
+ */
+export async function syncTierBenefits(admin: AdminGraphQLClient, tierId: string) {
+  const tier = await prisma.tier.findUniqueOrThrow({ where: { id: tierId } });
+  const benefits = parseTierBenefits(tier.benefits);
+
+  const segmentId = await upsertSegment(admin, tier);
+  const context = { customerSegments: { add: [segmentId] } };
+  const startsAt = tier.createdAt.toISOString();
+
+  const discountId = tier.isActive && benefits.discountPercent
+    ? await upsertDiscount(admin, tier.shopifyDiscountId, "Basic", "automaticBasicDiscount", {
+        title: `${tier.name} members: ${benefits.discountPercent}% off`,
+        startsAt,
+        context,
+        customerGets: {
+          value: { percentage: benefits.discountPercent / 100 },
+          items: { all: true },
+        },
+        combinesWith: { shippingDiscounts: true },
+      })
+    : await deleteDiscount(admin, tier.shopifyDiscountId);
+
+  const shippingDiscountId = tier.isActive && benefits.freeShipping
+    ? await upsertDiscount(admin, tier.shopifyShippingDiscountId, "FreeShipping", "freeShippingAutomaticDiscount", {
+        title: `${tier.name} members: free shipping`,
+        startsAt,
+        context,
+        destination: { all: true },
+        combinesWith: { orderDiscounts: true, productDiscounts: true },
+      })
+    : await deleteDiscount(admin, tier.shopifyShippingDiscountId);
+
+  return prisma.tier.update({
+    where: { id: tier.id },
+    data: {
+      shopifySegmentId: segmentId,
+      shopifyDiscountId: discountId,
+      shopifyShippingDiscountId: shippingDiscountId,
+      benefitsSyncedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Remove a tier's segment and discounts from Shopify before it is deleted
+ */
+export async function removeTierBenefits(admin: AdminGraphQLClient, tier: Tier) {
+  await deleteDiscount(admin, tier.shopifyDiscountId);
+  await deleteDiscount(admin, tier.shopifyShippingDiscountId);
+
+  if (tier.shopifySegmentId) {
+    await runMutation(
+      admin,
+      `#graphql
+        mutation DeleteTierSegment($id: ID!) {
+          segmentDelete(id: $id) {
+            deletedSegmentId
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      { id: tier.shopifySegmentId },
+      "segmentDelete"
+    );
+  }
+}
+
+/**
+ * Mark a tier and its members for the next sync, e.g. after its benefits change
+ */
+export async function markTierForSync(tierId: string) {
+  await prisma.$transaction([
+    prisma.tier.update({ where: { id: tierId }, data: { benefitsSyncedAt: null } }),
+    prisma.customerMembership.updateMany({
+      where: { tierId, isActive: true },
+      data: { shopifySyncedAt: null },
+    }),
+  ]);
+}
+
+async function syncPendingTiers(shopDomain: string, admin: AdminGraphQLClient) {
+  const tiers = await prisma.tier.findMany({
+    where: { shopDomain, benefitsSyncedAt: null },
+    select: { id: true },
+  });
+
+  let tiersSynced = 0;
+  let tiersFailed = 0;
+
+  for (const { id } of tiers) {
+    try {
+      await syncTierBenefits(admin, id);
+      tiersSynced++;
+    } catch (error) {
+      console.error(`Tier benefit sync failed for tier ${id}:`, error);
+      tiersFailed++;
+    }
+  }
+
+  return { tiersSynced, tiersFailed };
+}
+
+async function upsertSegment(admin: AdminGraphQLClient, tier: Tier) {
+  const variables = {
+    name: `Cashback tier: ${tier.name}`,
+    query: `customer_tags CONTAINS '${getTierTag(tier.id)}'`,
+  };
+
+  const result = tier.shopifySegmentId
+    ? await runMutation(
+        admin,
+        `#graphql
+          mutation UpdateTierSegment($id: ID!, $name: String, $query: String) {
+            segmentUpdate(id: $id, name: $name, query: $query) {
+              segment {
+                id
+              }
+              userErrors {
+                field
+                message
+              }
+            }
+          }
+        `,
+        { id: tier.shopifySegmentId, ...variables },
+        "segmentUpdate"
+      )
+    : await runMutation(
+        admin,
+        `#graphql
+          mutation CreateTierSegment($name: String!, $query: String!) {
+            segmentCreate(name: $name, query: $query) {
+              segment {
+                id
+              }
+              userErrors {
+                field
+                message
+              }
+            }
+          }
+        `,
+        variables,
+        "segmentCreate"
+      );
+
+  return result.segment.id as string;
+}
+
+async function upsertDiscount(
+  admin: AdminGraphQLClient,
+  existingId: string | null,
+  kind: "Basic" | "FreeShipping",
+  argument: string,
+  input: Record<string, unknown>
+) {
+  const inputType = `DiscountAutomatic${kind}Input`;
+  const field = existingId ? `discountAutomatic${kind}Update` : `discountAutomatic${kind}Create`;
+  const query = existingId
+    ? `mutation UpdateTierDiscount($id: ID!, $input: ${inputType}!) {
+        ${field}(id: $id, ${argument}: $input) {
+          automaticDiscountNode {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`
+    : `mutation CreateTierDiscount($input: ${inputType}!) {
+        ${field}(${argument}: $input) {
+          automaticDiscountNode {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`;
+
+  const result = await runMutation(admin, query, { id: existingId ?? undefined, input }, field, DISCOUNT_API_VERSION);
+  return result.automaticDiscountNode.id as string;
+}
+
+async function deleteDiscount(admin: AdminGraphQLClient, discountId: string | null) {
+  if (!discountId) return null;
+
+  await runMutation(
+    admin,
+    `#graphql
+      mutation DeleteTierDiscount($id: ID!) {
+        discountAutomaticDelete(id: $id) {
+          deletedAutomaticDiscountId
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    { id: discountId },
+    "discountAutomaticDelete",
+    DISCOUNT_API_VERSION
+  );
+
+  return null;
+}
+
+/**
+ * Run a mutation and return its payload, throwing on GraphQL or user errors
+ */
+async function runMutation(
+  admin: AdminGraphQLClient,
+  query: string,
+  variables: Record<string, unknown>,
+  field: string,
+  apiVersion?: ApiVersion
+) {
+  const response = await admin.graphql(query, { variables, apiVersion });
+  const result = await response.json();
+
+  if (result.errors) {
+    throw new Error(`${field} failed: ${result.errors[0]?.message || "GraphQL error"}`);
+  }
+
+  const payload = result.data?.[field];
+  if (payload?.userErrors?.length > 0) {
+    throw new Error(`${field} failed: ${payload.userErrors[0].message}`);
+  }
+
+  return payload;
+}
+
+// ============================================================================
+// MEMBER TAGS & METAFIELDS
+// ============================================================================
+
+/**
+ * Push the current tier to customers whose membership changed: swap the
+ * tier tag the segments match on, and write the cashback.tier metafield
+ * the theme reads for early access. Their birthday is read back on the way.
+ */
+export async function syncMemberBenefits(shopDomain: string, admin: AdminGraphQLClient, batchSize = 100) {
+  const memberships = await prisma.customerMembership.findMany({
+    where: {
+      isActive: true,
+      shopifySyncedAt: null,
+      customer: { shopDomain, redactedAt: null },
+    },
+    include: { customer: true, tier: true },
+    orderBy: { createdAt: "asc" },
+    take: batchSize,
+  });
+
+  let membersSynced = 0;
+  let membersFailed = 0;
+
+  for (const membership of memberships) {
+    try {
+      await syncMember(admin, membership.customer.shopifyCustomerId, membership.tier, membership.customerId);
+      await prisma.customerMembership.update({
+        where: { id: membership.id },
+        data: { shopifySyncedAt: new Date() },
+      });
+      membersSynced++;
+    } catch (error) {
+      console.error(`Tier benefit sync failed for customer ${membership.customerId}:`, error);
+      membersFailed++;
+    }
+  }
+
+  return { membersSynced, membersFailed };
+}
+
+async function syncMember(admin: AdminGraphQLClient, shopifyCustomerId: string, tier: Tier, customerId: string) {
+  const gid = `gid://shopify/Customer/${shopifyCustomerId}`;
+  const response = await admin.graphql(
+    `#graphql
+      query GetCustomerTierTags($id: ID!) {
+        customer(id: $id) {
+          tags
+          birthDate: metafield(namespace: "facts", key: "birth_date") {
+            value
+          }
+        }
+      }
+    `,
+    { variables: { id: gid } }
+  );
+  const result = await response.json();
+  const shopifyCustomer = result.data?.customer;
+  if (!shopifyCustomer) {
+    throw new Error(`Customer ${shopifyCustomerId} not found in Shopify`);
+  }
+
+  const tierTag = getTierTag(tier.id);
+  const staleTags = (shopifyCustomer.tags as string[]).filter(
+    (tag) => tag.startsWith(TIER_TAG_PREFIX) && tag !== tierTag
+  );
+
+  if (staleTags.length > 0) {
+    await runMutation(
+      admin,
+      `#graphql
+        mutation RemoveTierTags($id: ID!, $tags: [String!]!) {
+          tagsRemove(id: $id, tags: $tags) {
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      { id: gid, tags: staleTags },
+      "tagsRemove"
+    );
+  }
+
+  await runMutation(
+    admin,
+    `#graphql
+      mutation AddTierTag($id: ID!, $tags: [String!]!) {
+        tagsAdd(id: $id, tags: $tags) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    { id: gid, tags: [tierTag] },
+    "tagsAdd"
+  );
+
+  await runMutation(
+    admin,
+    `#graphql
+      mutation SetTierMetafield($metafields: [MetafieldsSetInput!]!) {
+        metafieldsSet(metafields: $metafields) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      metafields: [
+        {
+          ownerId: gid,
+          namespace: "cashback",
+          key: "tier",
+          type: "json",
+          value: JSON.stringify({
+            name: tier.name,
+            cashbackPercent: tier.cashbackPercent,
+            benefits: parseTierBenefits(tier.benefits),
+          }),
+        },
+      ],
+    },
+    "metafieldsSet"
+  );
+
+  const birthday = shopifyCustomer.birthDate?.value ? new Date(shopifyCustomer.birthDate.value) : null;
+  await prisma.customer.update({
+    where: { id: customerId },
+    data: { birthday: birthday && !isNaN(birthday.getTime()) ? birthday : null },
+  });
+}
+
+// ============================================================================
+// BIRTHDAY BONUS
+// ============================================================================
+
+/**
+ * Credit the birthday bonus of each member's tier once a year, on their
+ * birthday (UTC). 29 February birthdays are paid on 28 February in other years.
+ */
+export async function creditBirthdayBonuses(shopDomain: string, admin: AdminGraphQLClient) {
+  const tiers = await prisma.tier.findMany({ where: { shopDomain, isActive: true } });
+  const bonusByTier = new Map(
+    tiers
+      .map((tier) => [tier.id, parseTierBenefits(tier.benefits).birthdayBonus] as const)
+      .filter(([, bonus]) => !!bonus)
+  );
+  if (bonusByTier.size === 0) return { birthdayBonuses: 0 };
+
+  const now = new Date();
+  const yearStart = new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+  const customers = await prisma.customer.findMany({
+    where: {
+      shopDomain,
+      redactedAt: null,
+      birthday: { not: null },
+      OR: [{ lastBirthdayBonusAt: null }, { lastBirthdayBonusAt: { lt: yearStart } }],
+      membershipHistory: { some: { isActive: true, tierId: { in: [...bonusByTier.keys()] } } },
+    },
+    include: { membershipHistory: { where: { isActive: true }, include: { tier: true }, take: 1 } },
+  });
+
+  const { currencyCode } = await getShopSettings(shopDomain);
+  let birthdayBonuses = 0;
+
+  for (const customer of customers.filter((c) => isBirthday(c.birthday!, now))) {
+    const tier = customer.membershipHistory[0]?.tier;
+    const bonus = tier && bonusByTier.get(tier.id);
+    if (!bonus) continue;
+
+    // Claimed before Shopify is called so an overlapping run can never pay twice
+    const claimed = await prisma.customer.updateMany({
+      where: {
+        id: customer.id,
+        OR: [{ lastBirthdayBonusAt: null }, { lastBirthdayBonusAt: { lt: yearStart } }],
+      },
+      data: { lastBirthdayBonusAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    const result = await issueStoreCredit(admin, customer.shopifyCustomerId, bonus, currencyCode);
+
+    if (result.success) {
+      await recordLedgerEntry({
+        customerId: customer.id,
+        shopDomain,
+        amount: bonus,
+        type: LedgerEntryType.BIRTHDAY_BONUS,
+        source: LedgerSource.APP_CASHBACK,
+        shopifyReference: result.transactionId,
+        description: `${tier.name} birthday bonus`,
+        countsAsEarned: true,
+        reconciledAt: new Date(),
+      });
+      birthdayBonuses++;
+    } else if (result.ambiguous) {
+      // The credit may have landed; reconciliation picks up any drift
+      console.warn(`Birthday bonus outcome unknown for customer ${customer.id}: ${result.error}`);
+    } else {
+      console.error(`Birthday bonus failed for customer ${customer.id}: ${result.error}`);
+      // Release the claim so the next run retries
+      await prisma.customer.update({
+        where: { id: customer.id },
+        data: { lastBirthdayBonusAt: customer.lastBirthdayBonusAt },
+      });
+    }
+  }
+
+  return { birthdayBonuses };
+}
+
+function isBirthday(birthday: Date, today: Date) {
+  const month = birthday.getUTCMonth();
+  const day = birthday.getUTCDate();
+  const year = today.getUTCFullYear();
+  const isLeapYear = new Date(Date.UTC(year, 1, 29)).getUTCMonth() === 1;
+
+  if (month === 1 && day === 29 && !isLeapYear) {
+    return today.getUTCMonth() === 1 && today.getUTCDate() === 28;
+  }
+  return today.getUTCMonth() === month && today.getUTCDate() === day;
+}
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { UnclaimedCashbackStatus } from "@prisma/client";
+import { claimUnclaimedCashback } from "./unclaimed-cashback.server";
+import { processPaidOrder } from "./order-cashback.server";
+import { reverseCashbackForGuestRefunds } from "./cashback-reversal.server";
+import { toMoney } from "../utils/money";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    unclaimedCashback: { findMany: vi.fn(), updateMany: vi.fn(), update: vi.fn() },
+    cashbackTransaction: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock("../db.server", () => ({ default: prisma }));
+vi.mock("./order-cashback.server", () => ({ processPaidOrder: vi.fn() }));
+vi.mock("./cashback-reversal.server", () => ({ reverseCashbackForGuestRefunds: vi.fn() }));
+vi.mock("./customer-tier.server", () => ({ getBaseTier: vi.fn() }));
+vi.mock("./shop-settings.server", () => ({ getShopSettings: vi.fn() }));
+
+const SHOP = "store.myshopify.com";
+const admin = { graphql: vi.fn() };
+const customer = { id: 1001, email: "a@example.com", verified_email: true, tags: "" };
+
+describe("claimUnclaimedCashback", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    prisma.unclaimedCashback.findMany.mockReset().mockResolvedValue([
+      {
+        id: "unclaimed-1",
+        shopifyOrderId: "5001",
+        status: UnclaimedCashbackStatus.UNCLAIMED,
+        refundedAmount: toMoney("40.00"),
+        expiresAt: new Date(Date.now() + 86_400_000),
+        payload: { id: 5001, total_price: "200.00" },
+      },
+    ]);
+    prisma.unclaimedCashback.updateMany.mockReset().mockResolvedValue({ count: 1 });
+    prisma.unclaimedCashback.update.mockReset().mockResolvedValue({});
+    prisma.cashbackTransaction.findUnique.mockReset().mockResolvedValue({ customerId: "customer-1" });
+    vi.mocked(processPaidOrder).mockReset().mockResolvedValue({ processed: true, cashbackAmount: toMoney("6.00") });
+    vi.mocked(reverseCashbackForGuestRefunds).mockReset();
+  });
+
+  it("takes refunds made before the claim off the new cashback", async () => {
+    const results = await claimUnclaimedCashback(SHOP, customer, admin);
+
+    expect(results.claimed).toBe(1);
+    expect(reverseCashbackForGuestRefunds).toHaveBeenCalledWith(SHOP, "5001", toMoney("40.00"), admin);
+    expect(prisma.unclaimedCashback.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ customerId: "customer-1" }) })
+    );
+  });
+
+  it("releases the claim for the retry when the refund reversal fails", async () => {
+    vi.mocked(reverseCashbackForGuestRefunds).mockRejectedValueOnce(
+      new Error("Cashback for order 5001 is still being credited in Shopify")
+    );
+
+    await expect(claimUnclaimedCashback(SHOP, customer, admin)).rejects.toThrow("still being credited");
+
+    expect(prisma.unclaimedCashback.update).toHaveBeenCalledWith({
+      where: { id: "unclaimed-1" },
+      data: { status: UnclaimedCashbackStatus.UNCLAIMED, claimedAt: null },
+    });
+    expect(prisma.unclaimedCashback.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ customerId: "customer-1" }) })
+    );
+
+    // The webhook retry claims the record again and finishes the reversal
+    vi.mocked(processPaidOrder).mockResolvedValue({ processed: false, reason: "Order already processed" });
+    const results = await claimUnclaimedCashback(SHOP, customer, admin);
+
+    expect(results.claimed).toBe(1);
+    expect(reverseCashbackForGuestRefunds).toHaveBeenCalledTimes(2);
+    expect(prisma.unclaimedCashback.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ customerId: "customer-1" }) })
+    );
+  });
+});
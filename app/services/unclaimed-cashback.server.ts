@@ -0,0 +1,354 @@
+// app/services/unclaimed-cashback.server.ts
+import prisma from "../db.server";
+import { Prisma, UnclaimedCashbackStatus, type UnclaimedCashback } from "@prisma/client";
+import { addDays } from "date-fns";
+import { processPaidOrder, type PaidOrderPayload } from "./order-cashback.server";
+import { reverseCashbackForGuestRefunds } from "./cashback-reversal.server";
+import { getBaseTier } from "./customer-tier.server";
+import { getShopSettings } from "./shop-settings.server";
+import type { AdminGraphQLClient } from "./store-credit.server";
+import { minMoney, percentOf, roundToCents, toMoney, ZERO, type Decimal } from "../utils/money";
+
+// Open records listed in the admin report
+const REPORT_LIMIT = 100;
+const EXPIRING_SOON_DAYS = 7;
+// A claim still uncredited after this is assumed to belong to a crashed worker
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+// A refund or cancellation reaching a guest order before it is claimed
+export interface GuestRefund {
+  reference: string; // Refund or order GID
+  amount: Decimal | null; // null refunds the whole order
+  currency?: string; // Currency amount was paid back in
+}
+
+// customers/create payload, REST webhook format; only the fields read here
+export interface CustomerPayload {
+  id: number | string;
+  email?: string | null;
+  verified_email?: boolean;
+  tags?: string;
+}
+
+// The orders/paid payload kept on the record; cleared once the record is settled
+function getStoredOrder(record: UnclaimedCashback): PaidOrderPayload | null {
+  const payload = record.payload;
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) return null;
+  return payload as unknown as PaidOrderPayload;
+}
+
+function normalizeEmail(email: unknown): string | null {
+  if (typeof email !== "string") return null;
+  const normalized = email.trim().toLowerCase();
+  return normalized || null;
+}
+
+/**
+ * Keep a paid guest checkout so its cashback can be credited if the buyer
+ * signs up with the same email inside the shop's claim window.
+ */
+export async function recordUnclaimedCashback(shopDomain: string, order: PaidOrderPayload) {
+  const email = normalizeEmail(order.email ?? order.contact_email);
+  if (!email) return null;
+
+  const settings = await getShopSettings(shopDomain);
+  const placedAt = new Date(order.created_at ?? Date.now());
+  const orderId = order.id.toString();
+
+  // Redelivered webhooks find the existing record
+  return prisma.unclaimedCashback.upsert({
+    where: { shopDomain_shopifyOrderId: { shopDomain, shopifyOrderId: orderId } },
+    update: {},
+    create: {
+      shopDomain,
+      email,
+      shopifyOrderId: orderId,
+      orderName: order.name ?? null,
+      orderAmount: toMoney(order.total_price_set?.shop_money?.amount ?? order.total_price ?? "0"),
+      currency: order.currency || "USD",
+      payload: order as unknown as Prisma.InputJsonObject,
+      expiresAt: addDays(placedAt, settings.guestClaimDays),
+    },
+  });
+}
+
+/**
+ * customers/create: credit the new customer's guest orders. Each stored
+ * order goes through processPaidOrder as if it had been placed with the
+ * account, so rules, campaigns, holds and tier spend all apply.
+ */
+export async function claimUnclaimedCashback(
+  shopDomain: string,
+  customer: CustomerPayload,
+  admin: AdminGraphQLClient
+) {
+  const email = normalizeEmail(customer.email);
+  // Anyone can type an email at signup; only a verified one proves ownership
+  if (!email || !customer.verified_email) {
+    return { claimed: 0, amount: ZERO, reason: "No verified email" };
+  }
+
+  const now = new Date();
+  const claimable: Prisma.UnclaimedCashbackWhereInput[] = [
+    { status: UnclaimedCashbackStatus.UNCLAIMED },
+    {
+      status: UnclaimedCashbackStatus.CLAIMED,
+      customerId: null,
+      claimedAt: { lt: new Date(now.getTime() - STALE_CLAIM_MS) },
+    },
+  ];
+  const records = await prisma.unclaimedCashback.findMany({
+    where: { shopDomain, email, OR: claimable },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const results = { claimed: 0, amount: ZERO, expired: 0 };
+
+  for (const record of records) {
+    if (record.expiresAt <= now) {
+      await settleRecord(record.id, UnclaimedCashbackStatus.EXPIRED);
+      results.expired++;
+      continue;
+    }
+
+    // Claim the row first so a refund arriving meanwhile waits for the transaction
+    const claimed = await prisma.unclaimedCashback.updateMany({
+      where: { id: record.id, OR: claimable },
+      data: { status: UnclaimedCashbackStatus.CLAIMED, claimedAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    let result;
+    try {
+      result = await creditGuestOrder(shopDomain, record, customer, admin);
+    } catch (error) {
+      // Released for the webhook retry; crediting and the refund reversal are idempotent per order
+      await prisma.unclaimedCashback.update({
+        where: { id: record.id },
+        data: { status: UnclaimedCashbackStatus.UNCLAIMED, claimedAt: null },
+      });
+      throw error;
+    }
+    if (!result) continue;
+
+    results.claimed++;
+    if (result.processed && result.cashbackAmount) {
+      results.amount = results.amount.plus(result.cashbackAmount);
+    }
+  }
+
+  if (results.claimed > 0) {
+    console.log(`🎁 ${email} claimed ${results.claimed} guest orders on ${shopDomain}`);
+  }
+
+  return results;
+}
+
+/**
+ * Credit a claimed guest order to the new customer and take off refunds
+ * made before the claim. Returns null when the order earned nothing.
+ */
+async function creditGuestOrder(
+  shopDomain: string,
+  record: UnclaimedCashback,
+  customer: CustomerPayload,
+  admin: AdminGraphQLClient
+) {
+  const order = getStoredOrder(record);
+  if (!order) {
+    throw new Error(`Guest order ${record.shopifyOrderId} has no stored payload`);
+  }
+
+  const result = await processPaidOrder(
+    shopDomain,
+    {
+      ...order,
+      customer: { id: customer.id, email: customer.email, tags: customer.tags },
+    },
+    admin
+  );
+
+  const transaction = await prisma.cashbackTransaction.findUnique({
+    where: { shopDomain_shopifyOrderId: { shopDomain, shopifyOrderId: record.shopifyOrderId } },
+    select: { customerId: true },
+  });
+
+  if (!transaction) {
+    console.log(`Guest order ${record.shopifyOrderId} had nothing to claim: ${result.reason}`);
+    await settleRecord(record.id, UnclaimedCashbackStatus.CANCELLED);
+    return null;
+  }
+
+  // Refunds made before the claim come off the new cashback, pro rata as usual
+  if (record.refundedAmount.gt(0)) {
+    await reverseCashbackForGuestRefunds(shopDomain, record.shopifyOrderId, record.refundedAmount, admin);
+  }
+
+  await prisma.unclaimedCashback.update({
+    where: { id: record.id },
+    data: { customerId: transaction.customerId, payload: Prisma.DbNull },
+  });
+
+  return result;
+}
+
+/**
+ * Apply a refund or cancellation to a guest order's unclaimed cashback.
+ * Partial refunds are tallied and taken off when the order is claimed; a
+ * full refund or cancellation cancels it. Returns the record's status
+ * afterwards, or null when there is nothing to apply it to.
+ */
+export async function applyUnclaimedRefund(
+  tx: Prisma.TransactionClient,
+  shopDomain: string,
+  orderId: string,
+  refund: GuestRefund
+) {
+  const record = await tx.unclaimedCashback.findUnique({
+    where: { shopDomain_shopifyOrderId: { shopDomain, shopifyOrderId: orderId } },
+  });
+  if (!record) return null;
+
+  // Claimed but not yet credited: the webhook retry reverses the new transaction
+  if (record.status === UnclaimedCashbackStatus.CLAIMED && !record.customerId) {
+    throw new Error(`Guest cashback for order ${orderId} is being claimed`);
+  }
+  if (record.status !== UnclaimedCashbackStatus.UNCLAIMED) return null;
+  if (record.refunds.includes(refund.reference)) return record.status;
+
+  const refundedAmount = refund.amount === null
+    ? record.orderAmount
+    : minMoney(
+        record.orderAmount,
+        record.refundedAmount.plus(toShopCurrency(record, refund.amount, refund.currency))
+      );
+  const status = refundedAmount.gte(record.orderAmount)
+    ? UnclaimedCashbackStatus.CANCELLED
+    : UnclaimedCashbackStatus.UNCLAIMED;
+
+  const updated = await tx.unclaimedCashback.updateMany({
+    where: { id: record.id, status: record.status, refundedAmount: record.refundedAmount },
+    data: {
+      refundedAmount,
+      refunds: { push: refund.reference },
+      ...(status === UnclaimedCashbackStatus.CANCELLED ? { status, payload: Prisma.DbNull } : {}),
+    },
+  });
+  if (updated.count === 0) {
+    throw new Error(`Guest cashback for order ${orderId} changed during the refund`);
+  }
+  return status;
+}
+
+/**
+ * Refunds go back in the currency the buyer paid with; the rate is taken
+ * from the order totals in the stored payload.
+ */
+function toShopCurrency(record: UnclaimedCashback, amount: Decimal, currency?: string) {
+  if (!currency || currency === record.currency) return amount;
+
+  const totals = getStoredOrder(record)?.total_price_set;
+  const shopTotal = toMoney(totals?.shop_money?.amount ?? "0");
+  const presentmentTotal = toMoney(totals?.presentment_money?.amount ?? "0");
+  if (shopTotal.lte(0) || presentmentTotal.lte(0)) return amount;
+
+  return roundToCents(amount.times(shopTotal).dividedBy(presentmentTotal));
+}
+
+/**
+ * Cron entry point: close records past their claim window. Not per shop,
+ * and drops the stored order payloads, which carry the buyer's details.
+ */
+export async function expireUnclaimedCashback() {
+  const expired = await prisma.unclaimedCashback.updateMany({
+    where: { status: UnclaimedCashbackStatus.UNCLAIMED, expiresAt: { lte: new Date() } },
+    data: { status: UnclaimedCashbackStatus.EXPIRED, payload: Prisma.DbNull },
+  });
+
+  return { expired: expired.count };
+}
+
+function settleRecord(id: string, status: UnclaimedCashbackStatus) {
+  return prisma.unclaimedCashback.update({
+    where: { id },
+    data: { status, payload: Prisma.DbNull },
+  });
+}
+
+/**
+ * Admin report. Value is estimated at the base tier rate on the order
+ * total less refunds; the actual credit depends on rules and campaigns
+ * when claimed.
+ */
+export async function getUnclaimedCashbackReport(shopDomain: string) {
+  const now = new Date();
+  const openWhere = {
+    shopDomain,
+    status: UnclaimedCashbackStatus.UNCLAIMED,
+    expiresAt: { gt: now },
+  };
+
+  const [baseTier, open, expiringSoon, byStatus, records] = await Promise.all([
+    getBaseTier(shopDomain),
+    prisma.unclaimedCashback.aggregate({
+      where: openWhere,
+      _count: true,
+      _sum: { orderAmount: true, refundedAmount: true },
+    }),
+    prisma.unclaimedCashback.aggregate({
+      where: { ...openWhere, expiresAt: { gt: now, lte: addDays(now, EXPIRING_SOON_DAYS) } },
+      _count: true,
+      _sum: { orderAmount: true, refundedAmount: true },
+    }),
+    prisma.unclaimedCashback.groupBy({
+      by: ["status"],
+      where: { shopDomain },
+      _count: true,
+      _sum: { orderAmount: true },
+    }),
+    prisma.unclaimedCashback.findMany({
+      where: openWhere,
+      orderBy: { expiresAt: "asc" },
+      take: REPORT_LIMIT,
+      select: {
+        id: true,
+        email: true,
+        shopifyOrderId: true,
+        orderName: true,
+        orderAmount: true,
+        refundedAmount: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+    }),
+  ]);
+
+  const rate = baseTier?.cashbackPercent ?? 0;
+  // Partial refunds come off the cashback when the order is claimed
+  const netOf = (sum: { orderAmount: Decimal | null; refundedAmount: Decimal | null }) =>
+    (sum.orderAmount ?? ZERO).minus(sum.refundedAmount ?? ZERO);
+  const totals = (status: UnclaimedCashbackStatus) => {
+    const row = byStatus.find((r) => r.status === status);
+    return { count: row?._count ?? 0, orderTotal: row?._sum.orderAmount ?? ZERO };
+  };
+
+  return {
+    rate,
+    open: {
+      count: open._count,
+      orderTotal: open._sum.orderAmount ?? ZERO,
+      estimatedCashback: percentOf(netOf(open._sum), rate),
+    },
+    expiringSoon: {
+      count: expiringSoon._count,
+      estimatedCashback: percentOf(netOf(expiringSoon._sum), rate),
+    },
+    claimed: totals(UnclaimedCashbackStatus.CLAIMED),
+    expired: totals(UnclaimedCashbackStatus.EXPIRED),
+    cancelled: totals(UnclaimedCashbackStatus.CANCELLED),
+    records: records.map((record) => ({
+      ...record,
+      estimatedCashback: percentOf(netOf(record), rate),
+    })),
+  };
+}
@@ -0,0 +1,254 @@
+// app/services/webhook-queue.server.ts
+import prisma from "../db.server";
+import { WebhookEventStatus, type Prisma } from "@prisma/client";
+import { unauthenticated } from "../shopify.server";
+import { processPaidOrder, type PaidOrderPayload } from "./order-cashback.server";
+import {
+  reverseCashbackForRefund,
+  reverseCashbackForCancellation,
+  type RefundPayload,
+  type CancelledOrderPayload,
+} from "./cashback-reversal.server";
+import { adjustCashbackForOrderEdit, type OrderEditPayload } from "./cashback-adjustment.server";
+import { claimUnclaimedCashback, type CustomerPayload } from "./unclaimed-cashback.server";
+import { getPausedShops } from "./shop-installation.server";
+import type { AdminGraphQLClient } from "./store-credit.server";
+
+// Topics processed through the queue, keyed by the topic name authenticate.webhook reports
+interface WebhookPayloads {
+  ORDERS_PAID: PaidOrderPayload;
+  REFUNDS_CREATE: RefundPayload;
+  ORDERS_CANCELLED: CancelledOrderPayload;
+  ORDERS_EDITED: OrderEditPayload;
+  CUSTOMERS_CREATE: CustomerPayload;
+}
+
+type WebhookTopic = keyof WebhookPayloads;
+
+type WebhookHandler<T extends WebhookTopic> = (
+  shopDomain: string,
+  payload: WebhookPayloads[T],
+  admin: AdminGraphQLClient
+) => Promise<unknown>;
+
+const HANDLERS: { [T in WebhookTopic]: WebhookHandler<T> } = {
+  ORDERS_PAID: processPaidOrder,
+  REFUNDS_CREATE: reverseCashbackForRefund,
+  ORDERS_CANCELLED: reverseCashbackForCancellation,
+  ORDERS_EDITED: adjustCashbackForOrderEdit,
+  CUSTOMERS_CREATE: claimUnclaimedCashback,
+};
+
+function isWebhookTopic(topic: string): topic is WebhookTopic {
+  return Object.hasOwn(HANDLERS, topic);
+}
+
+function isPayloadObject(payload: unknown): payload is Prisma.JsonObject {
+  return !!payload && typeof payload === "object" && !Array.isArray(payload);
+}
+
+/**
+ * Hand a stored payload to its topic's handler. Shopify sends each topic
+ * one payload shape, which enqueueWebhookEvent stored as received.
+ */
+function dispatch<T extends WebhookTopic>(
+  topic: T,
+  shopDomain: string,
+  payload: Prisma.JsonObject,
+  admin: AdminGraphQLClient
+) {
+  const handler: WebhookHandler<T> = HANDLERS[topic];
+  return handler(shopDomain, payload as unknown as WebhookPayloads[T], admin);
+}
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A PROCESSING event older than this is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, 4m ... capped at 6h
+ */
+function getRetryDelay(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Record an inbound webhook. Redeliveries of the same webhook are ignored.
+ */
+export async function enqueueWebhookEvent(params: {
+  shopDomain: string;
+  topic: string;
+  webhookId: string;
+  payload: unknown;
+}) {
+  const { shopDomain, topic, webhookId, payload } = params;
+
+  if (!isWebhookTopic(topic)) {
+    throw new Error(`No webhook handler registered for topic ${topic}`);
+  }
+  if (!isPayloadObject(payload)) {
+    throw new Error(`Webhook ${webhookId} (${topic}) has no payload`);
+  }
+
+  return prisma.webhookEvent.upsert({
+    where: { webhookId },
+    update: {},
+    create: {
+      shopDomain,
+      topic,
+      webhookId,
+      payload: payload as Prisma.InputJsonObject,
+    },
+  });
+}
+
+/**
+ * Claim and process a single event. Failures are rescheduled with backoff
+ * until maxAttempts, after which the event is dead-lettered.
+ */
+export async function processWebhookEvent(eventId: string): Promise<WebhookEventStatus | null> {
+  const now = new Date();
+
+  // Claim the event atomically so two workers never process it at once
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: {
+      id: eventId,
+      OR: [
+        {
+          status: { in: [WebhookEventStatus.PENDING, WebhookEventStatus.FAILED] },
+          nextAttemptAt: { lte: now },
+        },
+        {
+          status: WebhookEventStatus.PROCESSING,
+          lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) },
+        },
+      ],
+    },
+    data: {
+      status: WebhookEventStatus.PROCESSING,
+      lockedAt: now,
+      attempts: { increment: 1 },
+    },
+  });
+
+  if (claimed.count === 0) return null;
+
+  const event = await prisma.webhookEvent.findUniqueOrThrow({
+    where: { id: eventId },
+  });
+
+  try {
+    const { topic, payload } = event;
+    if (!isWebhookTopic(topic)) {
+      throw new Error(`No webhook handler registered for topic ${topic}`);
+    }
+    if (!isPayloadObject(payload)) {
+      throw new Error(`Webhook event ${event.id} has no payload`);
+    }
+
+    const { admin } = await unauthenticated.admin(event.shopDomain);
+    await dispatch(topic, event.shopDomain, payload, admin);
+
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: WebhookEventStatus.COMPLETED,
+        processedAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+      },
+    });
+
+    return WebhookEventStatus.COMPLETED;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const exhausted = event.attempts >= event.maxAttempts;
+    const status = exhausted ? WebhookEventStatus.DEAD_LETTER : WebhookEventStatus.FAILED;
+
+    console.error(
+      `Webhook event ${event.id} (${event.topic}) attempt ${event.attempts}/${event.maxAttempts} failed:`,
+      error
+    );
+
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status,
+        lastError: message,
+        lockedAt: null,
+        nextAttemptAt: new Date(Date.now() + getRetryDelay(event.attempts)),
+      },
+    });
+
+    return status;
+  }
+}
+
+/**
+ * Worker entry point: process every event that is due, oldest first.
+ * Events for paused shops wait until the shop is active again.
+ */
+export async function processDueWebhookEvents(limit = 25) {
+  const now = new Date();
+  const paused = await getPausedShops();
+
+  const dueEvents = await prisma.webhookEvent.findMany({
+    where: {
+      shopDomain: { notIn: paused },
+      OR: [
+        {
+          status: { in: [WebhookEventStatus.PENDING, WebhookEventStatus.FAILED] },
+          nextAttemptAt: { lte: now },
+        },
+        {
+          status: WebhookEventStatus.PROCESSING,
+          lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) },
+        },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  const results = { processed: 0, completed: 0, failed: 0, deadLettered: 0 };
+
+  // Sequential on purpose: events for the same customer must not race
+  for (const { id } of dueEvents) {
+    const status = await processWebhookEvent(id);
+    if (!status) continue;
+
+    results.processed++;
+    if (status === WebhookEventStatus.COMPLETED) results.completed++;
+    if (status === WebhookEventStatus.FAILED) results.failed++;
+    if (status === WebhookEventStatus.DEAD_LETTER) results.deadLettered++;
+  }
+
+  return results;
+}
+
+/**
+ * Reset a failed or dead-lettered event and process it straight away
+ */
+export async function replayWebhookEvent(eventId: string, shopDomain: string) {
+  const reset = await prisma.webhookEvent.updateMany({
+    where: {
+      id: eventId,
+      shopDomain,
+      status: { in: [WebhookEventStatus.FAILED, WebhookEventStatus.DEAD_LETTER] },
+    },
+    data: {
+      status: WebhookEventStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+    },
+  });
+
+  if (reset.count === 0) {
+    throw new Error("Event not found or not replayable");
+  }
+
+  return processWebhookEvent(eventId);
+}
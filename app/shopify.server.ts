@@ -7,6 +7,8 @@ import {
 } from "@shopify/shopify-app-remix/server";
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import prisma from "./db.server";
+import { recordShopInstall } from "./services/shop-installation.server";
+import { refreshShopCurrency } from "./services/shop-settings.server";
 
 const shopify = shopifyApp({
   apiKey: process.env.SHOPIFY_API_KEY,
@@ -36,9 +38,13 @@ const shopify = shopifyApp({
     },
   },
   hooks: {
-    afterAuth: async ({ session }) => {
+    afterAuth: async ({ session, admin }) => {
       // Register webhooks after authentication
       shopify.registerWebhooks({ session });
+      await recordShopInstall(session.shop);
+      await refreshShopCurrency(session.shop, admin).catch((error) =>
+        console.error(`Failed to refresh shop currency for ${session.shop}:`, error)
+      );
     },
   },
   ...(process.env.SHOP_CUSTOM_DOMAIN
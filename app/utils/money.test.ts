@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertMoney,
+  maxMoney,
+  minMoney,
+  percentOf,
+  proRata,
+  roundDownToCents,
+  roundToCents,
+  sumMoney,
+  toMoney,
+  ZERO,
+  type Decimal,
+} from "./money";
+
+// Deterministic so a failing case can be replayed
+function seededRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+// Random whole-cent amount in [min, max)
+function randomCents(random: () => number, min: number, max: number) {
+  return toMoney(Math.floor(min * 100 + random() * (max - min) * 100)).dividedBy(100);
+}
+
+/**
+ * Reverse `cashback` over the given refunds the way reverseCashback does:
+ * the cumulative target less what was already reversed
+ */
+function reverseInSteps(cashback: Decimal, orderAmount: Decimal, refunds: Decimal[]) {
+  let refunded = ZERO;
+  let reversed = ZERO;
+  const steps: Decimal[] = [];
+
+  for (const refund of refunds) {
+    refunded = minMoney(orderAmount, refunded.plus(refund));
+    const target = proRata(cashback, refunded, orderAmount);
+    const step = maxMoney(0, minMoney(cashback.minus(reversed), target.minus(reversed)));
+    reversed = reversed.plus(step);
+    steps.push(step);
+  }
+
+  return { steps, reversed };
+}
+
+describe("rounding", () => {
+  it("rounds down to whole cents for payouts", () => {
+    expect(roundDownToCents("10.999").toFixed(2)).toBe("10.99");
+    expect(roundDownToCents("0.009").toFixed(2)).toBe("0.00");
+  });
+
+  it("rounds half away from zero", () => {
+    expect(roundToCents("1.005").toFixed(2)).toBe("1.01");
+    expect(roundToCents("-1.005").toFixed(2)).toBe("-1.01");
+    expect(roundToCents("1.004").toFixed(2)).toBe("1.00");
+  });
+
+  it("takes percentages without float error", () => {
+    // 0.1 + 0.2 style error would give 2.9999...
+    expect(percentOf("30", "10").toFixed(2)).toBe("3.00");
+    expect(percentOf("19.99", "5").toFixed(2)).toBe("0.99");
+  });
+
+  it("converts currencies rounding down", () => {
+    expect(convertMoney("10.00", "1.3579").toFixed(2)).toBe("13.57");
+  });
+
+  it("sums exactly", () => {
+    expect(sumMoney(["0.1", "0.2", null, undefined]).toFixed(2)).toBe("0.30");
+  });
+});
+
+describe("proRata", () => {
+  it("rounds each share down to whole cents", () => {
+    expect(proRata("10.00", "1", "3").toFixed(2)).toBe("3.33");
+    expect(proRata("10.00", "2", "3").toFixed(2)).toBe("6.66");
+  });
+
+  it("gives the whole total once the part reaches the whole", () => {
+    expect(proRata("10.00", "3", "3").toFixed(2)).toBe("10.00");
+    expect(proRata("10.00", "4", "3").toFixed(2)).toBe("10.00");
+  });
+
+  it("gives nothing for a zero part", () => {
+    expect(proRata("10.00", "0", "3").toFixed(2)).toBe("0.00");
+  });
+
+  it("reverses thirds of an order to exactly the cashback", () => {
+    const { steps, reversed } = reverseInSteps(
+      toMoney("10.00"),
+      toMoney("99.99"),
+      [toMoney("33.33"), toMoney("33.33"), toMoney("33.33")]
+    );
+
+    expect(steps.map((step) => step.toFixed(2))).toEqual(["3.33", "3.33", "3.34"]);
+    expect(reversed.toFixed(2)).toBe("10.00");
+  });
+
+  it("never drifts across partial refunds that add up to the order", () => {
+    const random = seededRandom(42);
+
+    for (let run = 0; run < 500; run++) {
+      const orderAmount = randomCents(random, 1, 5000);
+      const cashback = percentOf(orderAmount, Math.ceil(random() * 20));
+
+      // Split the order into 1-10 whole-cent refunds
+      const refunds: Decimal[] = [];
+      let left = orderAmount;
+      const count = 1 + Math.floor(random() * 10);
+      for (let i = 1; i < count && left.gt("0.01"); i++) {
+        const refund = maxMoney("0.01", roundDownToCents(left.times(random() / 2)));
+        refunds.push(refund);
+        left = left.minus(refund);
+      }
+      refunds.push(left);
+
+      const { steps, reversed } = reverseInSteps(cashback, orderAmount, refunds);
+
+      expect(reversed.equals(cashback)).toBe(true);
+      for (const step of steps) {
+        expect(step.gte(0)).toBe(true);
+        expect(step.decimalPlaces()).toBeLessThanOrEqual(2);
+      }
+    }
+  });
+
+  it("never reverses more than the share refunded so far", () => {
+    const random = seededRandom(7);
+
+    for (let run = 0; run < 500; run++) {
+      const orderAmount = randomCents(random, 1, 5000);
+      const cashback = percentOf(orderAmount, Math.ceil(random() * 20));
+      const refunds = [randomCents(random, 0.01, 50), randomCents(random, 0.01, 50)];
+
+      const { reversed } = reverseInSteps(cashback, orderAmount, refunds);
+      const refunded = minMoney(orderAmount, sumMoney(refunds));
+      const exactShare = cashback.times(refunded).dividedBy(orderAmount);
+
+      expect(reversed.lte(exactShare)).toBe(true);
+      expect(exactShare.minus(reversed).lt("0.01")).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+// app/utils/money.ts
+import { Prisma } from "@prisma/client";
+
+// Money columns are DECIMAL(12, 2) and arrive from Prisma as Decimal
+// instances, or as strings once they have passed through a loader.
+export type Decimal = Prisma.Decimal;
+export type MoneyInput = Prisma.Decimal | number | string;
+
+export const ZERO = new Prisma.Decimal(0);
+
+export function toMoney(value: MoneyInput | null | undefined): Prisma.Decimal {
+  return new Prisma.Decimal(value ?? 0);
+}
+
+/**
+ * Round down to whole cents. Used for anything paid out or clawed back so
+ * the customer is never credited a fraction of a cent more than earned.
+ */
+export function roundDownToCents(value: MoneyInput): Prisma.Decimal {
+  return toMoney(value).toDecimalPlaces(2, Prisma.Decimal.ROUND_DOWN);
+}
+
+/**
+ * Round to the nearest cent (half away from zero)
+ */
+export function roundToCents(value: MoneyInput): Prisma.Decimal {
+  return toMoney(value).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * `percent` of `amount`, rounded down to whole cents
+ */
+export function percentOf(amount: MoneyInput, percent: MoneyInput): Prisma.Decimal {
+  return roundDownToCents(toMoney(amount).times(percent).dividedBy(100));
+}
+
+/**
+ * The share of `total` that `part` is of `whole`, rounded down to whole
+ * cents. Pass the cumulative part (e.g. everything refunded so far) and
+ * diff against what was already taken, so repeated partial shares never
+ * drift from `total`; all of it once `part` reaches `whole`.
+ */
+export function proRata(total: MoneyInput, part: MoneyInput, whole: MoneyInput): Prisma.Decimal {
+  if (toMoney(part).gte(whole)) return toMoney(total);
+  // Multiply before dividing so the share is exact until the final rounding
+  return roundDownToCents(toMoney(total).times(part).dividedBy(whole));
+}
+
+/**
+ * Convert between shop and presentment currency at a recorded rate,
+ * rounded down like any other amount paid out
+ */
+export function convertMoney(amount: MoneyInput, rate: MoneyInput): Prisma.Decimal {
+  return roundDownToCents(toMoney(amount).times(rate));
+}
+
+export function sumMoney(values: Array<MoneyInput | null | undefined>): Prisma.Decimal {
+  return values.reduce<Prisma.Decimal>((total, value) => total.plus(toMoney(value)), ZERO);
+}
+
+export function minMoney(...values: MoneyInput[]): Prisma.Decimal {
+  return Prisma.Decimal.min(...values.map(toMoney));
+}
+
+export function maxMoney(...values: MoneyInput[]): Prisma.Decimal {
+  return Prisma.Decimal.max(...values.map(toMoney));
+}
+
+/**
+ * Plain number for charts, ratios and other display-only maths. Never
+ * feed the result back into a balance.
+ */
+export function moneyToNumber(value: MoneyInput | null | undefined): number {
+  return toMoney(value).toNumber();
+}
+
+/**
+ * Two-decimal string, e.g. for the Shopify Admin API's MoneyInput
+ */
+export function formatMoneyAmount(value: MoneyInput | null | undefined): string {
+  return roundToCents(value ?? 0).toFixed(2);
+}
+
+/**
+ * Display string such as "$12.50", "-€3.00" or "¥1,250". The locale is
+ * fixed so server and client render the same text.
+ */
+export function formatMoney(value: MoneyInput | null | undefined, currencyCode = "USD"): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: currencyCode }).format(
+    roundToCents(value ?? 0).toNumber()
+  );
+}
+
+/**
+ * The symbol Intl uses for a currency, e.g. "€" for EUR
+ */
+export function getCurrencySymbol(currencyCode: string): string {
+  return (
+    new Intl.NumberFormat("en-US", { style: "currency", currency: currencyCode })
+      .formatToParts(0)
+      .find((part) => part.type === "currency")?.value ?? currencyCode
+  );
+}
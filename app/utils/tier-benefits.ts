@@ -0,0 +1,47 @@
+// app/utils/tier-benefits.ts
+import { formatMoney } from "./money";
+
+// Stored in Tier.benefits. Every benefit is optional; an empty object
+// means the tier only pays cashback.
+export interface TierBenefits {
+  freeShipping?: boolean;
+  discountPercent?: number; // Automatic discount on every order
+  earlyAccessCollection?: string; // Handle of a collection members can shop before launch
+  birthdayBonus?: number; // Store credit on the customer's birthday, in shop currency
+}
+
+/**
+ * Read Tier.benefits, dropping anything that isn't a valid benefit
+ */
+export function parseTierBenefits(value: unknown): TierBenefits {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const raw = value as Record<string, unknown>;
+  const benefits: TierBenefits = {};
+
+  if (raw.freeShipping === true) benefits.freeShipping = true;
+  if (typeof raw.discountPercent === "number" && raw.discountPercent > 0 && raw.discountPercent <= 100) {
+    benefits.discountPercent = raw.discountPercent;
+  }
+  if (typeof raw.earlyAccessCollection === "string" && raw.earlyAccessCollection.trim()) {
+    benefits.earlyAccessCollection = raw.earlyAccessCollection.trim();
+  }
+  if (typeof raw.birthdayBonus === "number" && raw.birthdayBonus > 0) {
+    benefits.birthdayBonus = raw.birthdayBonus;
+  }
+
+  return benefits;
+}
+
+/**
+ * One line per benefit, for the admin and the storefront widget
+ */
+export function describeTierBenefits(benefits: TierBenefits, currencyCode: string): string[] {
+  const lines: string[] = [];
+
+  if (benefits.freeShipping) lines.push("Free shipping");
+  if (benefits.discountPercent) lines.push(`${benefits.discountPercent}% off every order`);
+  if (benefits.earlyAccessCollection) lines.push("Early access to new releases");
+  if (benefits.birthdayBonus) lines.push(`${formatMoney(benefits.birthdayBonus, currencyCode)} birthday bonus`);
+
+  return lines;
+}
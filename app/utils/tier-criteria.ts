@@ -0,0 +1,70 @@
+// app/utils/tier-criteria.ts
+import { formatMoney, type MoneyInput } from "./money";
+
+// The subset of Tier that decides who qualifies, as it arrives from a loader
+export interface TierCriteriaSummary {
+  minSpend: MoneyInput | null;
+  minOrders: number | null;
+  criteriaOperator: string;
+  evaluationPeriod: string;
+  periodMonths: number | null;
+  manualOnly: boolean;
+}
+
+export const EVALUATION_PERIOD_OPTIONS = [
+  { label: "12-month", value: "ANNUAL" },
+  { label: "Lifetime", value: "LIFETIME" },
+  { label: "Rolling months", value: "ROLLING_MONTHS" },
+  { label: "Calendar year", value: "CALENDAR_YEAR" },
+];
+
+export const CRITERIA_OPERATOR_OPTIONS = [
+  { label: "Meet all criteria", value: "AND" },
+  { label: "Meet any criterion", value: "OR" },
+];
+
+export const DOWNGRADE_PROTECTION_OPTIONS = [
+  { label: "None", value: "NONE" },
+  { label: "Grace period", value: "GRACE_DAYS" },
+  { label: "Until end of membership year", value: "MEMBERSHIP_YEAR" },
+];
+
+export function describeEvaluationPeriod(
+  tier: Pick<TierCriteriaSummary, "evaluationPeriod" | "periodMonths">
+): string {
+  switch (tier.evaluationPeriod) {
+    case "LIFETIME":
+      return "Lifetime";
+    case "ROLLING_MONTHS":
+      return `${tier.periodMonths || 12}-month`;
+    case "CALENDAR_YEAR":
+      return "Calendar year";
+    default:
+      return "12-month";
+  }
+}
+
+/**
+ * One line summary of who qualifies, e.g. "$500 spent or 5 orders"
+ */
+export function describeTierCriteria(tier: TierCriteriaSummary, currencyCode: string): string {
+  if (tier.manualOnly) return "Invite only";
+
+  const parts: string[] = [];
+  if (tier.minSpend !== null) parts.push(`${formatMoney(tier.minSpend, currencyCode)} spent`);
+  if (tier.minOrders !== null) parts.push(`${tier.minOrders} ${tier.minOrders === 1 ? "order" : "orders"}`);
+
+  if (parts.length === 0) return "Everyone";
+  return parts.join(tier.criteriaOperator === "OR" ? " or " : " and ");
+}
+
+export function describeDowngradeProtection(tier: { downgradeProtection: string; gracePeriodDays: number | null }): string {
+  switch (tier.downgradeProtection) {
+    case "GRACE_DAYS":
+      return tier.gracePeriodDays ? `${tier.gracePeriodDays}-day grace period` : "None";
+    case "MEMBERSHIP_YEAR":
+      return "Membership year";
+    default:
+      return "None";
+  }
+}
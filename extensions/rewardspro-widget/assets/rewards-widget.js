@@ -206,12 +206,28 @@
       }
     }
 
+    formatMoney(amount, currency) {
+      const locale = window.Shopify?.locale || document.documentElement.lang || undefined;
+      try {
+        return new Intl.NumberFormat(locale, {
+          style: 'currency',
+          currency: currency || 'USD'
+        }).format(Number(amount) || 0);
+      } catch (e) {
+        // Unknown locale or currency code
+        return `${(Number(amount) || 0).toFixed(2)} ${currency || ''}`.trim();
+      }
+    }
+
     updateWidgetData(data) {
       if (!data || !data.success) {
         this.showError('Invalid data received');
         return;
       }
 
+      // Balances and spend are kept in the shop currency
+      const currency = data.balance?.currency;
+
       // Build progress bar HTML if tier progress exists
       let progressBarHtml = '';
       if (data.tierProgress) {
@@ -229,10 +245,10 @@
             </div>
             <div class="rp-progress-details">
               <div class="rp-progress-spent">
-                ${progress.currentSpending.toFixed(2)} / ${progress.requiredSpending.toFixed(2)} ${periodText}
+                ${this.formatMoney(progress.currentSpending, currency)} / ${this.formatMoney(progress.requiredSpending, currency)} ${periodText}
               </div>
               <div class="rp-progress-remaining">
-                ${progress.remainingSpending.toFixed(2)} to go
+                ${this.formatMoney(progress.remainingSpending, currency)} to go
               </div>
             </div>
             <div class="rp-progress-reward">
@@ -251,34 +267,65 @@
         `;
       }
 
+      const benefitLabels = data.membership?.tier?.benefitLabels || [];
+      const benefitsHtml = benefitLabels.length > 0 ? `
+        <div class="rp-benefits">
+          ${benefitLabels.map(label => `
+            <div class="rp-benefit">
+              <span class="rp-benefit-icon">✨</span>
+              <span>${label}</span>
+            </div>
+          `).join('')}
+        </div>
+      ` : '';
+
+      const pendingHtml = data.balance?.pending > 0 ? `
+        <div class="rp-pending-cashback">
+          ⏳ ${this.formatMoney(data.balance.pending, currency)} cashback pending. It becomes store credit once the return window ends.
+        </div>
+      ` : '';
+
+      const protectedUntil = data.membership?.protectedUntil;
+      const protectionHtml = protectedUntil ? `
+        <div class="rp-tier-protection">
+          🛡️ Your ${data.membership.tier?.name || ''} status is protected until ${new Date(protectedUntil).toLocaleDateString()}
+        </div>
+      ` : '';
+
       const html = `
         <div class="rp-customer-info">
           <h3>🎁 Your Rewards</h3>
           
           <div class="rp-stats-grid">
             <div class="rp-stat-card rp-stat-card-primary">
-              <div class="rp-stat-value">${(data.balance?.storeCredit || 0).toFixed(2)}</div>
+              <div class="rp-stat-value">${this.formatMoney(data.balance?.storeCredit, currency)}</div>
               <div class="rp-stat-label">Store Credit</div>
             </div>
             
             <div class="rp-stat-card">
-              <div class="rp-stat-value">${data.membership?.tier?.name || 'Bronze'}</div>
+              <div class="rp-stat-value">${data.membership?.tier?.name || '—'}</div>
               <div class="rp-stat-label">Current Tier</div>
             </div>
             
             <div class="rp-stat-card">
-              <div class="rp-stat-value">${data.membership?.tier?.cashbackPercent || 1}%</div>
+              <div class="rp-stat-value">${data.membership?.tier?.cashbackPercent ?? 0}%</div>
               <div class="rp-stat-label">Cashback Rate</div>
             </div>
             
             <div class="rp-stat-card">
-              <div class="rp-stat-value">${(data.balance?.totalEarned || 0).toFixed(2)}</div>
+              <div class="rp-stat-value">${this.formatMoney(data.balance?.totalEarned, currency)}</div>
               <div class="rp-stat-label">Total Earned</div>
             </div>
           </div>
           
+          ${pendingHtml}
+          
+          ${protectionHtml}
+          
           ${progressBarHtml}
           
+          ${benefitsHtml}
+          
           <div class="rp-actions">
             <a href="/account" class="rp-action-link">View Account →</a>
           </div>
@@ -293,7 +340,7 @@
     updatePageElements(data) {
       const creditElements = document.querySelectorAll('[data-rewards-credit]');
       creditElements.forEach(el => {
-        const formattedCredit = `$${(data.balance?.storeCredit || 0).toFixed(2)}`;
+        const formattedCredit = this.formatMoney(data.balance?.storeCredit, data.balance?.currency);
         el.textContent = formattedCredit;
         
         if (el.classList.contains('rp-mini-value') && data.balance?.storeCredit > 0) {
@@ -303,12 +350,12 @@
       
       const tierElements = document.querySelectorAll('[data-rewards-tier]');
       tierElements.forEach(el => {
-        el.textContent = data.membership?.tier?.name || 'Bronze';
+        el.textContent = data.membership?.tier?.name || '—';
       });
       
       const cashbackElements = document.querySelectorAll('[data-rewards-cashback]');
       cashbackElements.forEach(el => {
-        el.textContent = `${data.membership?.tier?.cashbackPercent || 1}%`;
+        el.textContent = `${data.membership?.tier?.cashbackPercent ?? 0}%`;
       });
     }
 
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "TransactionStatus" ADD VALUE 'REVERSED';
+
+-- AlterEnum
+ALTER TYPE "LedgerEntryType" ADD VALUE 'CASHBACK_REVERSAL';
+
+-- AlterTable
+ALTER TABLE "CashbackTransaction" ADD COLUMN     "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "reversedCashback" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "TransactionStatus" ADD VALUE 'PENDING';
+
+-- AlterTable
+ALTER TABLE "CashbackTransaction" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "lastSyncAttemptAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "CashbackTransaction_status_idx" ON "CashbackTransaction"("status");
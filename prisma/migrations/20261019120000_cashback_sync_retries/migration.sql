@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "CashbackTransaction" ADD COLUMN     "lastSyncError" TEXT,
+ADD COLUMN     "syncAttempts" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,21 @@
+-- Backfill an opening balance entry for every customer whose balance was
+-- changed outside the ledger, so ledger amounts sum to Customer.storeCredit
+INSERT INTO "StoreCreditLedger" ("id", "customerId", "shopDomain", "amount", "balance", "type", "source", "description", "reconciledAt", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    c."id",
+    c."shopDomain",
+    c."storeCredit" - COALESCE(l."total", 0),
+    c."storeCredit",
+    'INITIAL_IMPORT',
+    'RECONCILIATION',
+    'Opening balance',
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "Customer" c
+LEFT JOIN (
+    SELECT "customerId", SUM("amount") AS "total"
+    FROM "StoreCreditLedger"
+    GROUP BY "customerId"
+) l ON l."customerId" = c."id"
+WHERE ABS(c."storeCredit" - COALESCE(l."total", 0)) >= 0.005;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "status" "ReconciliationStatus" NOT NULL DEFAULT 'RUNNING',
+    "bulkOperationId" TEXT,
+    "customersChecked" INTEGER NOT NULL DEFAULT 0,
+    "customersAdjusted" INTEGER NOT NULL DEFAULT 0,
+    "customersSkipped" INTEGER NOT NULL DEFAULT 0,
+    "localTotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "shopifyTotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalDrift" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "absoluteDrift" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "discrepancies" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_shopDomain_idx" ON "ReconciliationRun"("shopDomain");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_status_idx" ON "ReconciliationRun"("status");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_startedAt_idx" ON "ReconciliationRun"("startedAt");
@@ -0,0 +1,47 @@
+-- AlterEnum
+ALTER TYPE "LedgerEntryType" ADD VALUE 'CREDIT_EXPIRED';
+
+-- CreateTable
+CREATE TABLE "CreditLot" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "cashbackTransactionId" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "remaining" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "earnedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "warningSentAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditLot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShopSettings" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "creditLifetimeMonths" INTEGER,
+    "expiryWarningDays" INTEGER NOT NULL DEFAULT 14,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreditLot_customerId_remaining_idx" ON "CreditLot"("customerId", "remaining");
+
+-- CreateIndex
+CREATE INDEX "CreditLot_shopDomain_expiresAt_idx" ON "CreditLot"("shopDomain", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "CreditLot_cashbackTransactionId_idx" ON "CreditLot"("cashbackTransactionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopSettings_shopDomain_key" ON "ShopSettings"("shopDomain");
+
+-- AddForeignKey
+ALTER TABLE "CreditLot" ADD CONSTRAINT "CreditLot_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "enrollOnProxyVisit" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "GdprTopic" AS ENUM ('CUSTOMERS_DATA_REQUEST', 'CUSTOMERS_REDACT', 'SHOP_REDACT');
+
+-- CreateEnum
+CREATE TYPE "GdprRequestStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN     "redactedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "GdprRequest" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "topic" "GdprTopic" NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "shopifyCustomerId" TEXT,
+    "ordersRequested" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "dataRequestId" TEXT,
+    "status" "GdprRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "scheduledFor" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "exportData" JSONB,
+    "summary" JSONB,
+    "error" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GdprRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GdprRequest_webhookId_key" ON "GdprRequest"("webhookId");
+
+-- CreateIndex
+CREATE INDEX "GdprRequest_shopDomain_idx" ON "GdprRequest"("shopDomain");
+
+-- CreateIndex
+CREATE INDEX "GdprRequest_status_scheduledFor_idx" ON "GdprRequest"("status", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "GdprRequest_createdAt_idx" ON "GdprRequest"("createdAt");
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "InstallationStatus" AS ENUM ('ACTIVE', 'UNINSTALLED', 'PENDING_RESTORE', 'PURGED');
+
+-- CreateTable
+CREATE TABLE "ShopInstallation" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "status" "InstallationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "installedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uninstalledAt" TIMESTAMP(3),
+    "purgeAfter" TIMESTAMP(3),
+    "purgedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopInstallation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopInstallation_shopDomain_key" ON "ShopInstallation"("shopDomain");
+
+-- CreateIndex
+CREATE INDEX "ShopInstallation_status_purgeAfter_idx" ON "ShopInstallation"("status", "purgeAfter");
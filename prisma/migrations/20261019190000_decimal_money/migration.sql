@@ -0,0 +1,74 @@
+-- Money columns move from DOUBLE PRECISION to DECIMAL(12,2). The cast
+-- rounds every stored value to the nearest cent.
+
+-- AlterTable
+ALTER TABLE "Customer" ALTER COLUMN "storeCredit" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "totalEarned" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "CashbackTransaction" ALTER COLUMN "orderAmount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "cashbackAmount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "refundedAmount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "reversedCashback" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "Tier" ALTER COLUMN "minSpend" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "CustomerAnalytics" ALTER COLUMN "lifetimeSpending" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "yearlySpending" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "quarterlySpending" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "monthlySpending" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "avgOrderValue" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "StoreCreditLedger" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "balance" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "CreditLot" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "remaining" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "EmailTemplate" ALTER COLUMN "minBalance" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "ReconciliationRun" ALTER COLUMN "localTotal" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "shopifyTotal" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "totalDrift" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "absoluteDrift" SET DATA TYPE DECIMAL(12,2);
+
+-- Rounding each ledger entry separately can leave the entries a cent or
+-- two away from the rounded balance. Post the difference so ledger amounts
+-- sum exactly to Customer.storeCredit again.
+INSERT INTO "StoreCreditLedger" ("id", "customerId", "shopDomain", "amount", "balance", "type", "source", "description", "reconciledAt", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    c."id",
+    c."shopDomain",
+    c."storeCredit" - COALESCE(l."total", 0),
+    c."storeCredit",
+    'MANUAL_ADJUSTMENT',
+    'RECONCILIATION',
+    'Rounding to whole cents',
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "Customer" c
+LEFT JOIN (
+    SELECT "customerId", SUM("amount") AS "total"
+    FROM "StoreCreditLedger"
+    GROUP BY "customerId"
+) l ON l."customerId" = c."id"
+WHERE c."storeCredit" <> COALESCE(l."total", 0);
+
+-- Rebuild running balances from the rounded amounts
+UPDATE "StoreCreditLedger" s
+SET "balance" = r."running"
+FROM (
+    SELECT "id", SUM("amount") OVER (PARTITION BY "customerId" ORDER BY "createdAt", "id") AS "running"
+    FROM "StoreCreditLedger"
+) r
+WHERE s."id" = r."id" AND s."balance" <> r."running";
+
+-- Rounding can leave a lot's remaining credit a cent above its amount
+UPDATE "CreditLot" SET "remaining" = "amount" WHERE "remaining" > "amount";
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "CashbackTransaction" ADD COLUMN     "exchangeRate" DECIMAL(18,8),
+ADD COLUMN     "presentmentCashbackAmount" DECIMAL(12,2),
+ADD COLUMN     "presentmentCurrency" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "currencyCode" TEXT NOT NULL DEFAULT 'USD';
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "CashbackRuleTarget" AS ENUM ('COLLECTION', 'PRODUCT_TYPE', 'VENDOR', 'PRODUCT', 'SHIPPING', 'TAX', 'GATEWAY');
+
+-- CreateTable
+CREATE TABLE "CashbackRule" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "target" "CashbackRuleTarget" NOT NULL,
+    "value" TEXT,
+    "weightPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CashbackRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CashbackRule_shopDomain_isActive_idx" ON "CashbackRule"("shopDomain", "isActive");
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "CashbackTransaction" ADD COLUMN     "campaignBonus" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "campaignId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Campaign" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "tierIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "customerTags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "collectionIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "bonusPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "flatBonus" DECIMAL(12,2),
+    "budget" DECIMAL(12,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Campaign_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CashbackTransaction_campaignId_idx" ON "CashbackTransaction"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "Campaign_shopDomain_startsAt_endsAt_idx" ON "Campaign"("shopDomain", "startsAt", "endsAt");
+
+-- AddForeignKey
+ALTER TABLE "CashbackTransaction" ADD CONSTRAINT "CashbackTransaction_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "LedgerEntryType" ADD VALUE 'BIRTHDAY_BONUS';
+
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN     "birthday" DATE,
+ADD COLUMN     "lastBirthdayBonusAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "CustomerMembership" ADD COLUMN     "shopifySyncedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Tier" ADD COLUMN     "benefitsSyncedAt" TIMESTAMP(3),
+ADD COLUMN     "shopifyDiscountId" TEXT,
+ADD COLUMN     "shopifySegmentId" TEXT,
+ADD COLUMN     "shopifyShippingDiscountId" TEXT;
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "TierCriteriaOperator" AS ENUM ('AND', 'OR');
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "EvaluationPeriod" ADD VALUE 'ROLLING_MONTHS';
+ALTER TYPE "EvaluationPeriod" ADD VALUE 'CALENDAR_YEAR';
+
+-- AlterTable
+ALTER TABLE "Tier" ADD COLUMN     "criteriaOperator" "TierCriteriaOperator" NOT NULL DEFAULT 'AND',
+ADD COLUMN     "manualOnly" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "minOrders" INTEGER,
+ADD COLUMN     "periodMonths" INTEGER;
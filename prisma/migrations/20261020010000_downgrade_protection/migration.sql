@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "DowngradeProtection" AS ENUM ('NONE', 'GRACE_DAYS', 'MEMBERSHIP_YEAR');
+
+-- AlterTable
+ALTER TABLE "CustomerMembership" ADD COLUMN     "protectedUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Tier" ADD COLUMN     "downgradeProtection" "DowngradeProtection" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "gracePeriodDays" INTEGER;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "TierEvaluationStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "TierEvaluationRun" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "status" "TierEvaluationStatus" NOT NULL DEFAULT 'RUNNING',
+    "triggeredBy" TEXT NOT NULL DEFAULT 'System',
+    "customersEvaluated" INTEGER NOT NULL DEFAULT 0,
+    "tiersChanged" INTEGER NOT NULL DEFAULT 0,
+    "expiredReverted" INTEGER NOT NULL DEFAULT 0,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TierEvaluationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TierEvaluationRun_shopDomain_startedAt_idx" ON "TierEvaluationRun"("shopDomain", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "TierEvaluationRun_status_idx" ON "TierEvaluationRun"("status");
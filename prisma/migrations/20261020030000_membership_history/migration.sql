@@ -0,0 +1,22 @@
+-- The old unique index on ("customerId", "isActive") allowed a single
+-- inactive row per customer, so a second tier change failed. History is
+-- now unlimited and only the active row is unique.
+
+-- DropIndex
+DROP INDEX "CustomerMembership_customerId_isActive_key";
+
+-- Keep the newest active membership where a customer somehow has several
+UPDATE "CustomerMembership" AS m
+SET "isActive" = false,
+    "endDate" = COALESCE(m."endDate", CURRENT_TIMESTAMP)
+WHERE m."isActive" = true
+  AND EXISTS (
+    SELECT 1 FROM "CustomerMembership" AS newer
+    WHERE newer."customerId" = m."customerId"
+      AND newer."isActive" = true
+      AND (newer."startDate" > m."startDate"
+        OR (newer."startDate" = m."startDate" AND newer."id" > m."id"))
+  );
+
+-- CreateIndex (partial indexes can't be declared in schema.prisma)
+CREATE UNIQUE INDEX "CustomerMembership_customerId_active_key" ON "CustomerMembership"("customerId") WHERE "isActive" = true;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "CashbackHold" AS ENUM ('NONE', 'DAYS', 'UNTIL_FULFILLED');
+
+-- AlterEnum
+ALTER TYPE "TransactionStatus" ADD VALUE 'HELD';
+
+-- AlterTable
+ALTER TABLE "CashbackTransaction" ADD COLUMN     "releaseAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "cashbackHold" "CashbackHold" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "cashbackHoldDays" INTEGER NOT NULL DEFAULT 14;
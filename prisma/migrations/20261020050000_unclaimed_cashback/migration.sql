@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "UnclaimedCashbackStatus" AS ENUM ('UNCLAIMED', 'CLAIMED', 'EXPIRED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "guestClaimDays" INTEGER NOT NULL DEFAULT 90;
+
+-- CreateTable
+CREATE TABLE "UnclaimedCashback" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "shopifyOrderId" TEXT NOT NULL,
+    "orderName" TEXT,
+    "orderAmount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "payload" JSONB,
+    "status" "UnclaimedCashbackStatus" NOT NULL DEFAULT 'UNCLAIMED',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "customerId" TEXT,
+    "claimedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UnclaimedCashback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UnclaimedCashback_shopDomain_shopifyOrderId_key" ON "UnclaimedCashback"("shopDomain", "shopifyOrderId");
+
+-- CreateIndex
+CREATE INDEX "UnclaimedCashback_shopDomain_email_status_idx" ON "UnclaimedCashback"("shopDomain", "email", "status");
+
+-- CreateIndex
+CREATE INDEX "UnclaimedCashback_status_expiresAt_idx" ON "UnclaimedCashback"("status", "expiresAt");
@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "LedgerEntryType" ADD VALUE 'CASHBACK_ADJUSTMENT';
+
+-- CreateTable
+CREATE TABLE "CashbackAdjustment" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "cashbackTransactionId" TEXT NOT NULL,
+    "shopifyReference" TEXT NOT NULL,
+    "note" TEXT,
+    "previousOrderAmount" DECIMAL(12,2) NOT NULL,
+    "newOrderAmount" DECIMAL(12,2) NOT NULL,
+    "previousCashback" DECIMAL(12,2) NOT NULL,
+    "newCashback" DECIMAL(12,2) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "shopifySynced" BOOLEAN NOT NULL DEFAULT false,
+    "shopifyError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CashbackAdjustment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CashbackAdjustment_shopDomain_shopifyReference_key" ON "CashbackAdjustment"("shopDomain", "shopifyReference");
+
+-- CreateIndex
+CREATE INDEX "CashbackAdjustment_cashbackTransactionId_idx" ON "CashbackAdjustment"("cashbackTransactionId");
+
+-- AddForeignKey
+ALTER TABLE "CashbackAdjustment" ADD CONSTRAINT "CashbackAdjustment_cashbackTransactionId_fkey" FOREIGN KEY ("cashbackTransactionId") REFERENCES "CashbackTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "StoreCreditLedger" ADD COLUMN     "debitAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastDebitError" TEXT,
+ADD COLUMN     "nextDebitAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "shopifyCurrency" TEXT,
+ADD COLUMN     "shopifyDebit" DECIMAL(12,2);
+
+-- CreateIndex
+CREATE INDEX "StoreCreditLedger_shopDomain_nextDebitAttemptAt_idx" ON "StoreCreditLedger"("shopDomain", "nextDebitAttemptAt");
@@ -0,0 +1,9 @@
+-- Expiry debits Shopify has not confirmed move onto the shared debit retry schedule
+UPDATE "StoreCreditLedger"
+SET "shopifyDebit" = -"amount",
+    "shopifyCurrency" = COALESCE(
+      (SELECT s."currencyCode" FROM "ShopSettings" s WHERE s."shopDomain" = "StoreCreditLedger"."shopDomain"),
+      'USD'
+    ),
+    "nextDebitAttemptAt" = CURRENT_TIMESTAMP
+WHERE "type" = 'CREDIT_EXPIRED' AND "reconciledAt" IS NULL AND "amount" < 0;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "CreditLot" ADD COLUMN     "exchangeRate" DECIMAL(18,8);
+
+-- Lots held in the presentment currency take the rate recorded with their order
+UPDATE "CreditLot" l
+SET "exchangeRate" = t."exchangeRate"
+FROM "CashbackTransaction" t
+WHERE l."cashbackTransactionId" = t."id"
+  AND l."currency" = t."presentmentCurrency"
+  AND t."exchangeRate" IS NOT NULL;
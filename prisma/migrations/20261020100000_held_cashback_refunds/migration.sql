@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "CashbackTransaction" ADD COLUMN     "heldRefunds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "releaseCheckedAt" TIMESTAMP(3);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "UnclaimedCashback" ADD COLUMN     "refundedAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "refunds" TEXT[] DEFAULT ARRAY[]::TEXT[];